@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { answerQuestionFromSources, embedTexts } from "@/lib/openai"
+import { getReadableMailboxes } from "@/lib/qa-points"
+import {
+  assertCollectionName,
+  getQdrantClient,
+  searchQAPoints,
+} from "@/lib/qdrant"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface AskRequestBody {
+  question?: string
+  topK?: number
+  mailbox?: string
+}
+
+const DEFAULT_TOP_K = 5
+const ANSWER_SCORE_THRESHOLD = Number(
+  process.env.QDRANT_ANSWER_SCORE_THRESHOLD ?? "0.45"
+)
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Answers a question from the entries of the session's mailboxes, or only of
+ * `mailbox` when the body names one of them.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<AskRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const mailbox = typeof body.mailbox === "string" ? body.mailbox : null
+  const session = await getSession(request, mailbox)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const question = typeof body.question === "string" ? body.question.trim() : ""
+
+  if (!question) {
+    return NextResponse.json(
+      { error: "A question is required." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const client = getQdrantClient()
+    const collection = assertCollectionName()
+
+    const [vector] = await embedTexts([question])
+
+    if (!vector) {
+      return NextResponse.json(
+        { error: "Unable to generate an embedding for the question." },
+        { status: 500 }
+      )
+    }
+
+    const sources = await searchQAPoints(client, collection, vector, {
+      limit: typeof body.topK === "number" ? body.topK : DEFAULT_TOP_K,
+      scoreThreshold: Number.isFinite(ANSWER_SCORE_THRESHOLD)
+        ? ANSWER_SCORE_THRESHOLD
+        : undefined,
+      mailboxes: getReadableMailboxes(session, mailbox),
+    })
+
+    const result = await answerQuestionFromSources(question, sources)
+
+    return NextResponse.json({
+      question,
+      ...result,
+      sources,
+    })
+  } catch (error) {
+    console.error("Failed to answer question from knowledge base", error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to answer this question.",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,11 +3,11 @@ import { NextRequest, NextResponse } from "next/server"
 import {
   GOOGLE_OAUTH_SESSION_COOKIE,
   GOOGLE_OAUTH_STATE_COOKIE,
-  encodeOAuthSessionCookie,
   exchangeGoogleCodeForTokens,
   fetchGmailAccountProfile,
   fetchGoogleProfile,
 } from "@/lib/google-auth"
+import { SESSION_MAX_AGE_SECONDS, addSessionAccount } from "@/lib/session"
 
 export async function GET(request: NextRequest) {
   const code = request.nextUrl.searchParams.get("code")
@@ -26,8 +26,13 @@ export async function GET(request: NextRequest) {
 
   try {
     const tokens = await exchangeGoogleCodeForTokens({ code, redirectUri: callbackUrl })
-    const profile = await fetchGoogleProfile(tokens)
-    const gmail = await fetchGmailAccountProfile(tokens)
+    const profile = await fetchGoogleProfile({ tokens })
+    const gmail = await fetchGmailAccountProfile({ tokens })
+    const sessionCookieValue = await addSessionAccount(request, {
+      tokens,
+      profile,
+      gmail,
+    })
 
     const response = NextResponse.redirect(
       buildRedirectUrl(request, { google: "connected" })
@@ -35,12 +40,12 @@ export async function GET(request: NextRequest) {
 
     response.cookies.set({
       name: GOOGLE_OAUTH_SESSION_COOKIE,
-      value: encodeOAuthSessionCookie({ tokens, profile, gmail }),
+      value: sessionCookieValue,
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
       path: "/",
-      maxAge: 60 * 60 * 24 * 30,
+      maxAge: SESSION_MAX_AGE_SECONDS,
     })
 
     response.cookies.set({
@@ -69,13 +74,8 @@ function buildErrorResponse(request: NextRequest, reason: string) {
     path: "/",
   })
 
-  response.cookies.set({
-    name: GOOGLE_OAUTH_SESSION_COOKIE,
-    value: "",
-    maxAge: 0,
-    path: "/",
-  })
-
+  // Keep the existing session: a failed attempt to add another mailbox must
+  // not disconnect the accounts that are already linked.
   return response
 }
 
@@ -1,17 +1,39 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 
 import { GOOGLE_OAUTH_SESSION_COOKIE } from "@/lib/google-auth"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession, removeSessionAccount } from "@/lib/session"
 
-export async function POST() {
-  const response = NextResponse.json({ success: true })
+interface DisconnectRequestBody {
+  mailbox?: string
+}
+
+export async function POST(request: NextRequest) {
+  // Optional body, defaults to the active mailbox
+  const body: DisconnectRequestBody =
+    (await readJsonObject<DisconnectRequestBody>(request)) ?? {}
+
+  let remaining = 0
+  try {
+    const session = await getSession(request)
+    const mailbox = body.mailbox ?? session?.mailbox
+    if (mailbox) {
+      remaining = await removeSessionAccount(request, mailbox)
+    }
+  } catch (error) {
+    console.error("Failed to remove stored Google session", error)
+  }
 
-  response.cookies.set({
-    name: GOOGLE_OAUTH_SESSION_COOKIE,
-    value: "",
-    maxAge: 0,
-    path: "/",
-  })
+  const response = NextResponse.json({ success: true, remaining })
+
+  if (!remaining) {
+    response.cookies.set({
+      name: GOOGLE_OAUTH_SESSION_COOKIE,
+      value: "",
+      maxAge: 0,
+      path: "/",
+    })
+  }
 
   return response
 }
-
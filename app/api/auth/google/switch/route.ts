@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { readJsonObject } from "@/lib/request-body"
+import { setActiveMailbox } from "@/lib/session"
+
+interface SwitchRequestBody {
+  mailbox?: string
+}
+
+export async function POST(request: NextRequest) {
+  const body: SwitchRequestBody =
+    (await readJsonObject<SwitchRequestBody>(request)) ?? {}
+
+  const mailbox = typeof body.mailbox === "string" ? body.mailbox.trim() : ""
+
+  if (!mailbox) {
+    return NextResponse.json(
+      { error: "A mailbox is required." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const switched = await setActiveMailbox(request, mailbox)
+
+    if (!switched) {
+      return NextResponse.json(
+        { error: "That mailbox is not connected to this session." },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, mailbox: mailbox.toLowerCase() })
+  } catch (error) {
+    console.error("Failed to switch active mailbox", error)
+    return NextResponse.json(
+      { error: "Unable to switch mailbox." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  QA_EXPORT_CONTENT_TYPES,
+  QA_EXPORT_FORMATS,
+  buildQAExportFilename,
+  createQAExportStream,
+  type QAExportFormat,
+} from "@/lib/qa-export"
+import { readQAPointsFilter, scrollQAPoints } from "@/lib/qa-points"
+import { assertCollectionName, getQdrantClient } from "@/lib/qdrant"
+import { getSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Streams stored entries as `format` (`jsonl`, `csv` or `markdown`). The
+ * filters match `/api/qdrant/points`; `vectors=true` adds each entry's
+ * embedding to JSONL and CSV exports.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const session = await getSession(request, params.get("mailbox"))
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const format = (params.get("format") ?? "jsonl") as QAExportFormat
+  if (!QA_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      {
+        error: `Unsupported export format. Use one of: ${QA_EXPORT_FORMATS.join(
+          ", "
+        )}.`,
+      },
+      { status: 400 }
+    )
+  }
+
+  const includeVectors = params.get("vectors") === "true"
+
+  let collection: string
+  try {
+    collection = assertCollectionName()
+  } catch (error) {
+    return NextResponse.json(
+      { error: (error as Error).message },
+      { status: 500 }
+    )
+  }
+
+  const pages = scrollQAPoints(
+    getQdrantClient(),
+    collection,
+    readQAPointsFilter(params, session),
+    { withVectors: includeVectors && format !== "markdown" }
+  )
+
+  return new Response(createQAExportStream(pages, format, { includeVectors }), {
+    headers: {
+      "Content-Type": QA_EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${buildQAExportFilename(
+        format
+      )}"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
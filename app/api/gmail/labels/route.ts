@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+  fetchGmailLabels,
+  isReconnectRequiredError,
+} from "@/lib/google-auth"
+import { createSessionAuth, getSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session?.tokens) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const labels = await fetchGmailLabels(createSessionAuth(session))
+    return NextResponse.json({ labels })
+  } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      return NextResponse.json(
+        {
+          error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+          code: GOOGLE_RECONNECT_REQUIRED,
+        },
+        { status: 401 }
+      )
+    }
+    console.error("Failed to list Gmail labels", error)
+    return NextResponse.json(
+      { error: "Failed to list Gmail labels." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { extractAttachmentText } from "@/lib/attachments"
+import {
+  GMAIL_ATTACHMENT_TEXT_MAX_BYTES,
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+  fetchGmailAttachment,
+  fetchGmailAttachmentPart,
+  isReconnectRequiredError,
+} from "@/lib/google-auth"
+import { createSessionAuth, getSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+interface RouteParams {
+  messageId: string
+  attachmentId: string
+}
+
+/**
+ * Streams an attachment back to the browser. Gmail's attachment endpoint
+ * returns only the bytes, so the filename and type are read from the message
+ * part named by `partId` (or, without it, the part with this attachment ID)
+ * and never from the request. With `format=text` the extracted text of a
+ * PDF, DOCX or plain-text attachment is returned as JSON instead, for
+ * attachments up to `GMAIL_ATTACHMENT_TEXT_MAX_BYTES`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const { messageId, attachmentId } = params
+  const searchParams = request.nextUrl.searchParams
+
+  if (!messageId || !attachmentId) {
+    return NextResponse.json(
+      { error: "Missing message or attachment id" },
+      { status: 400 }
+    )
+  }
+
+  const session = await getSession(request, searchParams.get("mailbox"))
+
+  if (!session?.tokens) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google" },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const auth = createSessionAuth(session)
+    const attachment = await fetchGmailAttachmentPart(auth, messageId, {
+      attachmentId,
+      partId: searchParams.get("partId"),
+    })
+
+    if (!attachment?.attachmentId) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      )
+    }
+
+    const { filename, mimeType } = attachment
+    const data = await fetchGmailAttachment(
+      auth,
+      messageId,
+      attachment.attachmentId
+    )
+
+    if (searchParams.get("format") === "text") {
+      if (data.length > GMAIL_ATTACHMENT_TEXT_MAX_BYTES) {
+        return NextResponse.json(
+          { error: "The attachment is too large to extract its text." },
+          { status: 413 }
+        )
+      }
+      const text = await extractAttachmentText(data, mimeType, filename)
+      if (text === null) {
+        return NextResponse.json(
+          { error: "Text extraction is not supported for this attachment." },
+          { status: 415 }
+        )
+      }
+      return NextResponse.json({ filename, mimeType, text })
+    }
+
+    return new Response(data, {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(
+          filename
+        )}`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      return NextResponse.json(
+        {
+          error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+          code: GOOGLE_RECONNECT_REQUIRED,
+        },
+        { status: 401 }
+      )
+    }
+    console.error("Failed to load Gmail attachment", messageId, error)
+    return NextResponse.json(
+      { error: "Unable to load the attachment. Please try again." },
+      { status: 500 }
+    )
+  }
+}
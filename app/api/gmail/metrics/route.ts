@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { getGmailRequestMetrics } from "@/lib/google-auth"
+import { getSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.json({ metrics: getGmailRequestMetrics() })
+}
@@ -1,30 +1,45 @@
 import { NextRequest, NextResponse } from "next/server"
 
 import {
-  GOOGLE_OAUTH_SESSION_COOKIE,
-  decodeOAuthSessionCookie,
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
   fetchGmailThreadDetail,
 } from "@/lib/google-auth"
+import { fingerprintThread, type ThreadFingerprint } from "@/lib/ingest-state"
 import {
   extractQuestionsAndAnswersFromThread,
+  type ExtractionTruncationReport,
   type ThreadQAEntry,
 } from "@/lib/openai"
+import { readJsonObject } from "@/lib/request-body"
+import { createSessionAuth, getSession } from "@/lib/session"
+import { classifyThreadError, type ThreadError } from "@/lib/thread-errors"
 
 interface SyncRequest {
   threadIds?: string[]
   instructions?: string
 }
 
-export async function POST(request: NextRequest) {
-  const sessionCookie = request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)
-  if (!sessionCookie?.value) {
-    return NextResponse.json(
-      { error: "Not authenticated with Google" },
-      { status: 401 }
-    )
-  }
+interface ThreadSyncSuccess {
+  status: "ok"
+  threadId: string
+  subject: string
+  createdAt: string | null
+  questions: ThreadQAEntry[]
+  validationErrors: string[]
+  truncation: ExtractionTruncationReport
+  fingerprint: ThreadFingerprint
+}
+
+interface ThreadSyncFailure extends ThreadError {
+  status: "failed"
+  threadId: string
+}
+
+type ThreadSyncResult = ThreadSyncSuccess | ThreadSyncFailure
 
-  const session = decodeOAuthSessionCookie(sessionCookie.value)
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
 
   if (!session?.tokens) {
     return NextResponse.json(
@@ -33,14 +48,11 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  let body: SyncRequest = {}
-  try {
-    body = await request.json()
-  } catch (error) {
-    // Ignore, we'll use defaults
-  }
+  const body: SyncRequest = (await readJsonObject<SyncRequest>(request)) ?? {}
 
-  const threadIds = (body.threadIds ?? []).slice(0, 10)
+  const threadIds = Array.isArray(body.threadIds)
+    ? body.threadIds.slice(0, 10)
+    : []
 
   if (!threadIds.length) {
     return NextResponse.json(
@@ -49,34 +61,64 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  try {
-    const results = await Promise.all(
-      threadIds.map(async (threadId) => {
-        const detail = await fetchGmailThreadDetail(session.tokens, threadId)
-        const qa = await extractQuestionsAndAnswersFromThread(detail, {
+  const auth = createSessionAuth(session)
+
+  const results = await Promise.all(
+    threadIds.map(async (threadId): Promise<ThreadSyncResult> => {
+      try {
+        const detail = await fetchGmailThreadDetail(auth, threadId, {
+          includeAttachmentText: true,
+        })
+        const extraction = await extractQuestionsAndAnswersFromThread(detail, {
           instructions: body.instructions,
         })
 
         return {
+          status: "ok",
           threadId,
           subject: detail.subject,
-          questions: qa,
+          createdAt: detail.createdAt ?? null,
+          questions: extraction.questions,
+          validationErrors: extraction.validationErrors,
+          truncation: extraction.truncation,
+          fingerprint: fingerprintThread(detail),
         }
-      })
-    )
+      } catch (error) {
+        console.error("Failed to process Gmail thread", threadId, error)
+        return { status: "failed", threadId, ...classifyThreadError(error) }
+      }
+    })
+  )
 
-    const consolidated: ThreadQAEntry[] = results.flatMap((result) => result.questions)
+  const details = results.filter(
+    (result): result is ThreadSyncSuccess => result.status === "ok"
+  )
+  const failed = results.filter(
+    (result): result is ThreadSyncFailure => result.status === "failed"
+  )
 
-    return NextResponse.json({
-      processedThreads: results.length,
-      consolidated,
-      details: results,
-    })
-  } catch (error) {
-    console.error("Failed to process Gmail threads", error)
+  if (
+    !details.length &&
+    failed.every((result) => result.code === GOOGLE_RECONNECT_REQUIRED)
+  ) {
     return NextResponse.json(
-      { error: (error as Error).message ?? "Failed to process Gmail threads." },
-      { status: 500 }
+      {
+        error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+        code: GOOGLE_RECONNECT_REQUIRED,
+      },
+      { status: 401 }
     )
   }
+
+  const consolidated: ThreadQAEntry[] = details.flatMap(
+    (result) => result.questions
+  )
+
+  return NextResponse.json({
+    processedThreads: details.length,
+    failedThreads: failed.length,
+    consolidated,
+    details,
+    failed,
+  })
 }
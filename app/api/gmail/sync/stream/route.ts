@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { fetchGmailThreadDetail } from "@/lib/google-auth"
+import { fingerprintThread } from "@/lib/ingest-state"
+import { extractQuestionsAndAnswersFromThread } from "@/lib/openai"
+import { readJsonObject } from "@/lib/request-body"
+import { createSessionAuth, getSession } from "@/lib/session"
+import { SSE_HEADERS, encodeServerSentEvent } from "@/lib/sse"
+import { classifyThreadError } from "@/lib/thread-errors"
+
+interface SyncRequest {
+  threadIds?: string[]
+  instructions?: string
+}
+
+const SYNC_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.NEXT_PUBLIC_SYNC_CONCURRENCY ?? "5") || 5
+)
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Streaming variant of `/api/gmail/sync`. Emits `started`, `extracted` and
+ * `failed` events per thread as they happen, followed by a single `done`.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+
+  if (!session?.tokens) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google" },
+      { status: 401 }
+    )
+  }
+
+  const body: SyncRequest = (await readJsonObject<SyncRequest>(request)) ?? {}
+
+  const threadIds = Array.isArray(body.threadIds)
+    ? body.threadIds.slice(0, 10)
+    : []
+
+  if (!threadIds.length) {
+    return NextResponse.json(
+      { error: "No thread ids provided for processing." },
+      { status: 400 }
+    )
+  }
+
+  const auth = createSessionAuth(session)
+  const encoder = new TextEncoder()
+  // Set once the stream is closed by us or cancelled by the client, after
+  // which the controller must not be used.
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let processedThreads = 0
+      let failedThreads = 0
+      let cursor = 0
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)))
+      }
+
+      request.signal.addEventListener("abort", close)
+
+      const worker = async () => {
+        while (cursor < threadIds.length && !closed) {
+          const threadId = threadIds[cursor++]
+          send("started", { threadId })
+
+          try {
+            const detail = await fetchGmailThreadDetail(auth, threadId, {
+              includeAttachmentText: true,
+            })
+            const extraction = await extractQuestionsAndAnswersFromThread(
+              detail,
+              { instructions: body.instructions }
+            )
+
+            processedThreads += 1
+            send("extracted", {
+              status: "ok",
+              threadId,
+              subject: detail.subject,
+              messageCount: detail.messageCount,
+              createdAt: detail.createdAt ?? null,
+              questions: extraction.questions,
+              validationErrors: extraction.validationErrors,
+              truncation: extraction.truncation,
+              fingerprint: fingerprintThread(detail),
+            })
+          } catch (error) {
+            failedThreads += 1
+            console.error("Failed to process Gmail thread", threadId, error)
+            send("failed", {
+              status: "failed",
+              threadId,
+              ...classifyThreadError(error),
+            })
+          }
+        }
+      }
+
+      await Promise.all(
+        Array.from(
+          { length: Math.min(SYNC_CONCURRENCY, threadIds.length) },
+          () => worker()
+        )
+      )
+
+      send("done", { processedThreads, failedThreads })
+      close()
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
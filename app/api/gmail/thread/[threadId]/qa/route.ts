@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 
 import {
-  GOOGLE_OAUTH_SESSION_COOKIE,
-  decodeOAuthSessionCookie,
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
   fetchGmailThreadDetail,
+  isReconnectRequiredError,
 } from "@/lib/google-auth"
 import {
   extractQuestionsAndAnswersFromThread,
   type ThreadQAEntry,
 } from "@/lib/openai"
+import { readJsonObject } from "@/lib/request-body"
+import { createSessionAuth, getSession } from "@/lib/session"
 
 interface RouteParams {
   threadId: string
@@ -22,15 +25,7 @@ export async function POST(
   request: NextRequest,
   { params }: { params: RouteParams }
 ) {
-  const sessionCookie = request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)
-  if (!sessionCookie?.value) {
-    return NextResponse.json(
-      { error: "Not authenticated with Google" },
-      { status: 401 }
-    )
-  }
-
-  const session = decodeOAuthSessionCookie(sessionCookie.value)
+  const session = await getSession(request)
 
   if (!session?.tokens) {
     return NextResponse.json(
@@ -48,16 +43,16 @@ export async function POST(
     )
   }
 
-  let payload: ThreadInstructionsPayload = {}
-  try {
-    payload = await request.json()
-  } catch (error) {
-    // ignore
-  }
+  const payload: ThreadInstructionsPayload =
+    (await readJsonObject<ThreadInstructionsPayload>(request)) ?? {}
 
   try {
-    const detail = await fetchGmailThreadDetail(session.tokens, threadId)
-    const qa = await extractQuestionsAndAnswersFromThread(detail, {
+    const detail = await fetchGmailThreadDetail(
+      createSessionAuth(session),
+      threadId,
+      { includeAttachmentText: true }
+    )
+    const extraction = await extractQuestionsAndAnswersFromThread(detail, {
       instructions: payload.instructions,
     })
 
@@ -66,9 +61,20 @@ export async function POST(
       subject: detail.subject,
       messageCount: detail.messageCount,
       createdAt: detail.createdAt ?? null,
-      questions: qa,
+      questions: extraction.questions,
+      validationErrors: extraction.validationErrors,
+      truncation: extraction.truncation,
     })
   } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      return NextResponse.json(
+        {
+          error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+          code: GOOGLE_RECONNECT_REQUIRED,
+        },
+        { status: 401 }
+      )
+    }
     console.error("Failed to process Gmail thread for QA", threadId, error)
     return NextResponse.json(
       {
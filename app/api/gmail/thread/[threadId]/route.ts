@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 
 import {
-  GOOGLE_OAUTH_SESSION_COOKIE,
-  decodeOAuthSessionCookie,
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
   fetchGmailThreadDetail,
+  isReconnectRequiredError,
 } from "@/lib/google-auth"
+import { createSessionAuth, getSession } from "@/lib/session"
 
 interface RouteParams {
   threadId: string
@@ -20,12 +22,10 @@ export async function GET(
     return NextResponse.json({ error: "Missing thread id" }, { status: 400 })
   }
 
-  const sessionCookie = request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)
-  if (!sessionCookie?.value) {
-    return NextResponse.json({ error: "Not authenticated with Google" }, { status: 401 })
-  }
-
-  const session = decodeOAuthSessionCookie(sessionCookie.value)
+  const session = await getSession(
+    request,
+    request.nextUrl.searchParams.get("mailbox")
+  )
 
   if (!session?.tokens) {
     return NextResponse.json({ error: "Not authenticated with Google" }, { status: 401 })
@@ -33,10 +33,22 @@ export async function GET(
 
   try {
     console.log("[gmail thread] fetching detail", threadId)
-    const detail = await fetchGmailThreadDetail(session.tokens, threadId)
+    const detail = await fetchGmailThreadDetail(
+      createSessionAuth(session),
+      threadId
+    )
     console.log("[gmail thread] fetched detail", threadId, detail.messages.length)
     return NextResponse.json(detail)
   } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      return NextResponse.json(
+        {
+          error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+          code: GOOGLE_RECONNECT_REQUIRED,
+        },
+        { status: 401 }
+      )
+    }
     console.error("Failed to load Gmail thread detail", threadId, error)
     return NextResponse.json(
       { error: "Unable to load Gmail thread. Please try again." },
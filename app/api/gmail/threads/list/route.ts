@@ -1,29 +1,38 @@
 ﻿import { NextRequest, NextResponse } from "next/server"
 
 import {
-  GOOGLE_OAUTH_SESSION_COOKIE,
-  decodeOAuthSessionCookie,
-  fetchAllGmailThreadIds,
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+  fetchAllGmailThreadRefs,
+  fetchGmailAccountProfile,
+  fetchGmailHistoryChanges,
+  isReconnectRequiredError,
+  type GmailThreadRef,
 } from "@/lib/google-auth"
-import { readIngestState } from "@/lib/ingest-state"
+import {
+  DEFAULT_INGEST_SCOPE,
+  completeBackfillWindow,
+  hasThreadChangedSince,
+  isSameIngestScope,
+  normalizeIngestScope,
+  readIngestState,
+  type GmailBackfillWindow,
+  type GmailIngestState,
+} from "@/lib/ingest-state"
+import { readJsonObject } from "@/lib/request-body"
+import { createSessionAuth, getSession } from "@/lib/session"
 
 interface ListRequestBody {
   maxThreads?: number
   labelIds?: string[]
+  query?: string
+  mode?: "auto" | "full" | "backfill"
 }
 
 export const dynamic = "force-dynamic"
 
 export async function POST(request: NextRequest) {
-  const sessionCookie = request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)
-  if (!sessionCookie?.value) {
-    return NextResponse.json(
-      { error: "Not authenticated with Google." },
-      { status: 401 }
-    )
-  }
-
-  const session = decodeOAuthSessionCookie(sessionCookie.value)
+  const session = await getSession(request)
   if (!session?.tokens) {
     return NextResponse.json(
       { error: "Not authenticated with Google." },
@@ -31,12 +40,9 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  let body: ListRequestBody = {}
-  try {
-    body = await request.json()
-  } catch {
-    // optional body
-  }
+  // Optional body
+  const body: ListRequestBody =
+    (await readJsonObject<ListRequestBody>(request)) ?? {}
 
   const envMaxThreadsRaw = Number(
     process.env.INITIAL_INGEST_MAX_THREADS ?? "200"
@@ -55,27 +61,155 @@ export async function POST(request: NextRequest) {
 
   const maxThreads = Math.max(1, Math.floor(resolvedMaxThreads))
 
+  const auth = createSessionAuth(session)
+
   try {
-    const state = await readIngestState()
+    const state = await readIngestState(session.mailbox)
     const processedSet = new Set(state.processedThreadIds)
+    const savedScope = state.scope ?? DEFAULT_INGEST_SCOPE
+    const scope = normalizeIngestScope({
+      query: body.query ?? savedScope.query,
+      labelIds: body.labelIds ?? savedScope.labelIds,
+    })
+
+    if (body.mode === "backfill") {
+      const backfill = state.backfill
+      if (!backfill) {
+        return NextResponse.json(
+          { error: "No backfill has been started for this mailbox." },
+          { status: 400 }
+        )
+      }
+
+      // Windows are worked oldest first. Only the current window is listed,
+      // so already-processed threads outside it are never paged through; a
+      // window is done once none of its threads are left unprocessed.
+      for (let index = 0; index < backfill.windows.length; index++) {
+        const window = backfill.windows[index]
+        if (window.completedAt) {
+          continue
+        }
+
+        const candidates = await fetchAllGmailThreadRefs(auth, {
+          maxThreads: Number.POSITIVE_INFINITY,
+          labelIds: scope.labelIds,
+          query: buildWindowQuery(scope.query, window),
+        })
+        const remaining = selectPendingThreads(candidates, state, processedSet)
+
+        if (!remaining.length) {
+          await completeBackfillWindow(session.mailbox, window)
+          continue
+        }
+
+        const threadIds = remaining.slice(0, maxThreads)
+
+        return NextResponse.json({
+          mode: "backfill",
+          threadIds,
+          total: threadIds.length,
+          maxThreads,
+          processedCount: processedSet.size,
+          historyId: null,
+          scope,
+          window: {
+            start: window.start,
+            end: window.end,
+            index,
+            count: backfill.windows.length,
+            remaining: remaining.length,
+          },
+        })
+      }
+
+      return NextResponse.json({
+        mode: "backfill",
+        threadIds: [],
+        total: 0,
+        maxThreads,
+        processedCount: processedSet.size,
+        historyId: null,
+        scope,
+        window: null,
+      })
+    }
+
+    // Gmail history can only be filtered by a single label, so a search
+    // expression or several labels always need a full listing.
+    const canUseHistory =
+      !scope.query &&
+      scope.labelIds.length <= 1 &&
+      isSameIngestScope(scope, savedScope)
+
+    if (body.mode !== "full" && state.historyId && canUseHistory) {
+      const changes = await fetchGmailHistoryChanges(
+        auth,
+        state.historyId,
+        { labelId: scope.labelIds[0] ?? null }
+      )
+
+      if (changes.status === "ok") {
+        // Threads handled by an earlier, partial delta run were recorded at
+        // or after their change, so they are left out and each run moves on.
+        const pending = selectUnhandledChanges(changes.threads, state)
+        const threadIds = pending.slice(0, maxThreads)
+        // Only hand back the new cursor when every pending thread fits in
+        // this batch; otherwise the next delta run must see the remainder.
+        const complete = threadIds.length === pending.length
+
+        return NextResponse.json({
+          mode: "delta",
+          threadIds,
+          total: threadIds.length,
+          maxThreads,
+          processedCount: processedSet.size,
+          changedCount: changes.threads.length,
+          historyId: complete ? changes.historyId : null,
+          scope,
+        })
+      }
+
+      console.warn(
+        "Stored Gmail history ID expired, falling back to full listing",
+        state.historyId
+      )
+    }
+
+    // Capture the cursor before listing so changes made while paging are
+    // picked up by the next delta run.
+    const { historyId } = await fetchGmailAccountProfile(auth)
 
     const fetchLimit = maxThreads + processedSet.size + 200
 
-    const candidates = await fetchAllGmailThreadIds(session.tokens, {
+    const candidates = await fetchAllGmailThreadRefs(auth, {
       maxThreads: fetchLimit,
-      labelIds: body.labelIds,
+      labelIds: scope.labelIds,
+      query: scope.query,
     })
 
-    const remaining = candidates.filter((id) => !processedSet.has(id))
+    const remaining = selectPendingThreads(candidates, state, processedSet)
     const threadIds = remaining.slice(0, maxThreads)
 
     return NextResponse.json({
+      mode: "full",
       threadIds,
       total: threadIds.length,
       maxThreads,
       processedCount: processedSet.size,
+      historyId:
+        remaining.length <= maxThreads ? historyId ?? null : null,
+      scope,
     })
   } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      return NextResponse.json(
+        {
+          error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+          code: GOOGLE_RECONNECT_REQUIRED,
+        },
+        { status: 401 }
+      )
+    }
     console.error("Failed to list Gmail threads", error)
     return NextResponse.json(
       { error: "Failed to list Gmail threads." },
@@ -83,3 +217,53 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+/**
+ * Restricts the scope's search expression to a backfill window. Epoch
+ * seconds are used because Gmail reads `after:YYYY/MM/DD` in Pacific time.
+ */
+function buildWindowQuery(query: string, window: GmailBackfillWindow) {
+  const after = Math.floor(Date.parse(window.start) / 1000)
+  const before = Math.floor(Date.parse(window.end) / 1000)
+  const range = `after:${after} before:${before}`
+  return query ? `(${query}) ${range}` : range
+}
+
+/**
+ * Threads still to ingest: those never processed, plus ingested threads whose
+ * history ID moved past the one recorded, e.g. because a reply arrived.
+ */
+function selectPendingThreads(
+  candidates: GmailThreadRef[],
+  state: GmailIngestState,
+  processedSet: Set<string>
+) {
+  return candidates
+    .filter(
+      (thread) =>
+        !processedSet.has(thread.id) ||
+        hasThreadChangedSince(state.threads?.[thread.id], thread.historyId)
+    )
+    .map((thread) => thread.id)
+}
+
+/**
+ * Changed threads not yet handled since their change. A thread's record gets
+ * its history ID when the extraction is queued for review, whether or not it
+ * yielded entries, or when it is found unchanged. Unlike a full listing,
+ * threads without a recorded history ID are kept: the change itself says they
+ * need extracting again, and that run records one.
+ */
+function selectUnhandledChanges(
+  changes: GmailThreadRef[],
+  state: GmailIngestState
+) {
+  return changes
+    .filter((thread) => {
+      const record = state.threads?.[thread.id]
+      return (
+        !record?.historyId || hasThreadChangedSince(record, thread.historyId)
+      )
+    })
+    .map((thread) => thread.id)
+}
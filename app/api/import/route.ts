@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  QA_IMPORT_FORMATS,
+  importQAFile,
+  type QAImportFormat,
+} from "@/lib/qa-import"
+import { getSession } from "@/lib/session"
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Imports Q&A pairs from an uploaded JSONL or CSV `file` into the current
+ * mailbox. The format comes from the `format` field or the file extension.
+ * Rows that fail validation are skipped and listed in `errors`. When storing
+ * a batch fails, the response reports how many entries were already written.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return NextResponse.json(
+      { error: "Upload the file as multipart form data." },
+      { status: 400 }
+    )
+  }
+
+  const file = form.get("file")
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ error: "No file uploaded." }, { status: 400 })
+  }
+
+  if (file.size > MAX_IMPORT_BYTES) {
+    return NextResponse.json(
+      { error: "Import files are limited to 10 MB." },
+      { status: 413 }
+    )
+  }
+
+  const format = readImportFormat(form.get("format"), file.name)
+  if (!format) {
+    return NextResponse.json(
+      { error: "Upload a .jsonl or .csv file." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await importQAFile(
+      session.mailbox,
+      await file.text(),
+      format
+    )
+
+    if (result.failure) {
+      return NextResponse.json(
+        {
+          error: `Import stopped after ${result.imported} entries were written: ${result.failure}`,
+          ...result,
+        },
+        { status: 500 }
+      )
+    }
+
+    if (!result.imported) {
+      return NextResponse.json(
+        { error: "No valid rows to import.", ...result },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Failed to import Q&A pairs", error)
+    return NextResponse.json(
+      { error: (error as Error).message ?? "Failed to import Q&A pairs." },
+      { status: 500 }
+    )
+  }
+}
+
+function readImportFormat(
+  value: FormDataEntryValue | null,
+  filename: string
+): QAImportFormat | null {
+  const requested =
+    typeof value === "string" && value
+      ? value.toLowerCase()
+      : filename.split(".").pop()?.toLowerCase()
+  const format = requested === "ndjson" ? "jsonl" : requested
+
+  return QA_IMPORT_FORMATS.find((candidate) => candidate === format) ?? null
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  planBackfillWindows,
+  summarizeState,
+  updateIngestState,
+} from "@/lib/ingest-state"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface StartBackfillRequestBody {
+  start?: string
+  end?: string
+  windowDays?: number
+}
+
+const DEFAULT_WINDOW_DAYS = 30
+const MAX_WINDOW_DAYS = 366
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Starts a backfill of `[start, end)`, replacing any backfill in progress.
+ * `end` defaults to tomorrow so today's threads are included.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<StartBackfillRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const start = parseDate(body.start)
+  const end =
+    body.end === undefined || body.end === ""
+      ? new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      : parseDate(body.end)
+
+  if (!start || !end) {
+    return NextResponse.json(
+      { error: "Backfill dates must be in YYYY-MM-DD format." },
+      { status: 400 }
+    )
+  }
+
+  if (start >= end) {
+    return NextResponse.json(
+      { error: "Backfill start must be before its end." },
+      { status: 400 }
+    )
+  }
+
+  const windowDays =
+    typeof body.windowDays === "number" && Number.isFinite(body.windowDays)
+      ? Math.min(Math.max(Math.floor(body.windowDays), 1), MAX_WINDOW_DAYS)
+      : DEFAULT_WINDOW_DAYS
+
+  try {
+    const state = await updateIngestState(session.mailbox, {
+      backfill: {
+        start,
+        end,
+        windowDays,
+        windows: planBackfillWindows(start, end, windowDays),
+        createdAt: new Date().toISOString(),
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      state: summarizeState(session.mailbox, state),
+    })
+  } catch (error) {
+    console.error("Failed to start backfill", error)
+    return NextResponse.json(
+      { error: "Unable to start backfill." },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const state = await updateIngestState(session.mailbox, { backfill: null })
+    return NextResponse.json({
+      success: true,
+      state: summarizeState(session.mailbox, state),
+    })
+  } catch (error) {
+    console.error("Failed to cancel backfill", error)
+    return NextResponse.json(
+      { error: "Unable to cancel backfill." },
+      { status: 500 }
+    )
+  }
+}
+
+function parseDate(value?: string) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null
+  }
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10)
+}
@@ -2,17 +2,28 @@ import { NextRequest, NextResponse } from "next/server"
 
 import {
   addProcessedThreads,
+  normalizeIngestScope,
   readIngestState,
   summarizeState,
   updateIngestState,
 } from "@/lib/ingest-state"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
 
 export const dynamic = "force-dynamic"
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
   try {
-    const state = await readIngestState()
-    return NextResponse.json(summarizeState(state))
+    const state = await readIngestState(session.mailbox)
+    return NextResponse.json(summarizeState(session.mailbox, state))
   } catch (error) {
     console.error("Failed to read ingest state", error)
     return NextResponse.json(
@@ -23,8 +34,16 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
   try {
-    const body = await request.json().catch(() => ({}))
+    const body = (await readJsonObject(request)) ?? {}
     const {
       processedThreadIds,
       historyId,
@@ -33,6 +52,7 @@ export async function POST(request: NextRequest) {
       lastPreviewAt,
       rules,
       previewMaxThreads,
+      scope,
     } = body as {
       processedThreadIds?: string[]
       historyId?: string
@@ -41,16 +61,17 @@ export async function POST(request: NextRequest) {
       lastPreviewAt?: string
       rules?: string | null
       previewMaxThreads?: number | null
+      scope?: { query?: string; labelIds?: string[] }
     }
 
     let state
     if (processedThreadIds?.length) {
-      state = await addProcessedThreads(processedThreadIds)
+      state = await addProcessedThreads(session.mailbox, processedThreadIds)
     } else {
-      state = await readIngestState()
+      state = await readIngestState(session.mailbox)
     }
 
-    state = await updateIngestState({
+    state = await updateIngestState(session.mailbox, {
       historyId,
       totalThreadsDetected,
       lastFullIngestAt,
@@ -59,11 +80,12 @@ export async function POST(request: NextRequest) {
       ...(previewMaxThreads !== undefined
         ? { previewMaxThreads }
         : {}),
+      ...(scope !== undefined ? { scope: normalizeIngestScope(scope) } : {}),
     })
 
     return NextResponse.json({
       success: true,
-      state: summarizeState(state),
+      state: summarizeState(session.mailbox, state),
     })
   } catch (error) {
     console.error("Failed to update ingest state", error)
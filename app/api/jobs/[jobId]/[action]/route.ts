@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  applyIngestJobAction,
+  getIngestJob,
+  summarizeIngestJob,
+  type IngestJobAction,
+} from "@/lib/jobs"
+import { getSession } from "@/lib/session"
+
+interface RouteParams {
+  jobId: string
+  action: string
+}
+
+const JOB_ACTIONS: IngestJobAction[] = [
+  "pause",
+  "resume",
+  "cancel",
+  "retry",
+  "archive",
+]
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const action = params.action as IngestJobAction
+  if (!JOB_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: `Unknown job action "${params.action}".` },
+      { status: 404 }
+    )
+  }
+
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const job = await getIngestJob(params.jobId, session.id)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 })
+    }
+
+    const updated = await applyIngestJobAction(job, action)
+    return NextResponse.json({ job: summarizeIngestJob(updated) })
+  } catch (error) {
+    console.error("Failed to update ingest job", params.jobId, action, error)
+    return NextResponse.json(
+      { error: "Unable to update ingest job." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { ensureJobWorker, getIngestJob, serializeIngestJob } from "@/lib/jobs"
+import { getSession } from "@/lib/session"
+
+interface RouteParams {
+  jobId: string
+}
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const job = await getIngestJob(params.jobId, session.id)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found." }, { status: 404 })
+    }
+
+    ensureJobWorker()
+    return NextResponse.json({ job: serializeIngestJob(job) })
+  } catch (error) {
+    console.error("Failed to load ingest job", params.jobId, error)
+    return NextResponse.json(
+      { error: "Unable to load ingest job." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  ensureJobWorker,
+  getIngestJob,
+  isIngestJobFinished,
+  subscribeToIngestJob,
+  summarizeIngestJob,
+  type IngestJob,
+} from "@/lib/jobs"
+import { getSession } from "@/lib/session"
+import { SSE_HEADERS, encodeServerSentEvent } from "@/lib/sse"
+
+interface RouteParams {
+  jobId: string
+}
+
+export const dynamic = "force-dynamic"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const job = await getIngestJob(params.jobId, session.id)
+  if (!job) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 })
+  }
+
+  ensureJobWorker()
+
+  const encoder = new TextEncoder()
+  let unsubscribe: (() => void) | null = null
+  // Set once the stream is closed by us or cancelled by the client, after
+  // which the controller must not be used.
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe?.()
+        controller.close()
+      }
+
+      const send = (current: IngestJob) => {
+        if (closed) return
+        controller.enqueue(
+          encoder.encode(
+            encodeServerSentEvent("progress", summarizeIngestJob(current))
+          )
+        )
+        if (isIngestJobFinished(current)) {
+          close()
+        }
+      }
+
+      unsubscribe = subscribeToIngestJob(job.id, send)
+      request.signal.addEventListener("abort", close)
+      send(job)
+    },
+    cancel() {
+      closed = true
+      unsubscribe?.()
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
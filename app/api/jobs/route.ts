@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { normalizeIngestScope } from "@/lib/ingest-state"
+import {
+  createIngestJob,
+  ensureJobWorker,
+  listIngestJobs,
+  summarizeIngestJob,
+  type IngestJobMode,
+} from "@/lib/jobs"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface CreateJobRequestBody {
+  threadIds?: string[]
+  instructions?: string
+  mode?: IngestJobMode
+  historyId?: string | null
+  maxThreads?: number
+  scope?: { query?: string; labelIds?: string[] }
+}
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const includeArchived =
+      request.nextUrl.searchParams.get("includeArchived") === "1"
+    const jobs = await listIngestJobs(session.id, session.mailbox)
+    ensureJobWorker()
+
+    return NextResponse.json({
+      jobs: jobs
+        .filter((job) => includeArchived || !job.archivedAt)
+        .map((job) => summarizeIngestJob(job)),
+    })
+  } catch (error) {
+    console.error("Failed to list ingest jobs", error)
+    return NextResponse.json(
+      { error: "Unable to list ingest jobs." },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<CreateJobRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const threadIds = Array.isArray(body.threadIds)
+    ? body.threadIds.filter(
+        (id): id is string => typeof id === "string" && Boolean(id)
+      )
+    : []
+
+  if (!threadIds.length) {
+    return NextResponse.json(
+      { error: "No thread ids provided for processing." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const job = await createIngestJob({
+      sessionId: session.id,
+      mailbox: session.mailbox,
+      threadIds,
+      instructions: body.instructions?.trim() || undefined,
+      mode: body.mode,
+      historyId: body.historyId ?? null,
+      maxThreads: body.maxThreads,
+      scope: body.scope ? normalizeIngestScope(body.scope) : undefined,
+    })
+
+    return NextResponse.json({ job: summarizeIngestJob(job) })
+  } catch (error) {
+    console.error("Failed to create ingest job", error)
+    return NextResponse.json(
+      { error: "Unable to start ingest job." },
+      { status: 500 }
+    )
+  }
+}
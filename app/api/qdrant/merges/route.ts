@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { findMergeProposals, mergeQAPoints } from "@/lib/qa-merge"
+import { assertCollectionName, getQdrantClient } from "@/lib/qdrant"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface MergeRequestBody {
+  pointIds?: string[]
+  canonicalId?: string
+  excludedPointIds?: string[]
+}
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Proposes merges of near-duplicate entries in the current mailbox. An
+ * optional `threshold` query parameter overrides the cosine similarity two
+ * questions need to be treated as the same.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const thresholdParam = request.nextUrl.searchParams.get("threshold")
+  const threshold = thresholdParam ? Number(thresholdParam) : undefined
+
+  try {
+    const { proposals, scanned } = await findMergeProposals(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      { threshold }
+    )
+
+    return NextResponse.json({ proposals, scanned })
+  } catch (error) {
+    console.error("Failed to find duplicate entries", error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to find duplicate entries.",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Accepts a proposed merge. `pointIds` are merged into `canonicalId`;
+ * `excludedPointIds` were split off by the reviewer and kept separately.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<MergeRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const pointIds = toIdList(body.pointIds)
+  if (pointIds.length < 2) {
+    return NextResponse.json(
+      { error: "Select at least two entries to merge." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await mergeQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      pointIds,
+      {
+        canonicalId:
+          typeof body.canonicalId === "string" ? body.canonicalId : undefined,
+        excludedPointIds: toIdList(body.excludedPointIds),
+      }
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Failed to merge duplicate entries", error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to merge duplicate entries.",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+function toIdList(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((id): id is string => typeof id === "string" && !!id)
+    : []
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { splitQAPoints } from "@/lib/qa-merge"
+import { assertCollectionName, getQdrantClient } from "@/lib/qdrant"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface SplitRequestBody {
+  pointIds?: string[]
+}
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Rejects a proposed merge: the entries are kept separately and the pair is
+ * not proposed again.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<SplitRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const pointIds = Array.isArray(body.pointIds)
+    ? body.pointIds.filter((id): id is string => typeof id === "string")
+    : []
+
+  if (pointIds.length < 2) {
+    return NextResponse.json(
+      { error: "Select at least two entries to split." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await splitQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      pointIds
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Failed to split duplicate entries", error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to split duplicate entries.",
+      },
+      { status: 500 }
+    )
+  }
+}
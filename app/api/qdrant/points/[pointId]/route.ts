@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { deleteQAPoints, updateQAPoint } from "@/lib/qa-points"
+import { assertCollectionName, getQdrantClient } from "@/lib/qdrant"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface RouteParams {
+  pointId: string
+}
+
+interface UpdateRequestBody {
+  question?: string
+  answer?: string
+}
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Edits the question or answer of a stored entry and re-embeds it. The
+ * `mailbox` query parameter names the mailbox the entry belongs to.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const session = await getSession(
+    request,
+    request.nextUrl.searchParams.get("mailbox")
+  )
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<UpdateRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const question = typeof body.question === "string" ? body.question : ""
+  const answer = typeof body.answer === "string" ? body.answer : ""
+  if (!question.trim() && !answer.trim()) {
+    return NextResponse.json(
+      { error: "Provide a question or answer to save." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const point = await updateQAPoint(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      params.pointId,
+      { question, answer }
+    )
+
+    if (!point) {
+      return NextResponse.json({ error: "Entry not found." }, { status: 404 })
+    }
+
+    return NextResponse.json({ point })
+  } catch (error) {
+    console.error("Failed to update entry", params.pointId, error)
+    return NextResponse.json(
+      { error: (error as Error).message ?? "Failed to update the entry." },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const session = await getSession(
+    request,
+    request.nextUrl.searchParams.get("mailbox")
+  )
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const deleted = await deleteQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      { pointIds: [params.pointId] }
+    )
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Entry not found." }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    console.error("Failed to delete entry", params.pointId, error)
+    return NextResponse.json(
+      { error: (error as Error).message ?? "Failed to delete the entry." },
+      { status: 500 }
+    )
+  }
+}
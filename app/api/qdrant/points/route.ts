@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  browseQAPoints,
+  deleteQAPoints,
+  readQAPointsFilter,
+} from "@/lib/qa-points"
+import { assertCollectionName, getQdrantClient } from "@/lib/qdrant"
+import { getSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Lists stored entries page by page. Entries of every connected mailbox are
+ * listed unless `mailbox` names one; `threadId`, `category`, `from` and `to`
+ * narrow the page, and `offset` continues from a previous `nextOffset`.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const session = await getSession(request, params.get("mailbox"))
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const limitParam = params.get("limit")
+
+  try {
+    const result = await browseQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      {
+        ...readQAPointsFilter(params, session),
+        limit: limitParam ? Number(limitParam) : undefined,
+        offset: params.get("offset") || undefined,
+      }
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Failed to browse Qdrant collection", error)
+    return NextResponse.json(
+      {
+        error:
+          (error as Error).message ?? "Failed to load knowledge base entries.",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Deletes every entry of `threadId` from the mailbox named by `mailbox`, or
+ * the active one.
+ */
+export async function DELETE(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const session = await getSession(request, params.get("mailbox"))
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const threadId = params.get("threadId")?.trim()
+  if (!threadId) {
+    return NextResponse.json({ error: "Missing thread id." }, { status: 400 })
+  }
+
+  try {
+    const deleted = await deleteQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      session.mailbox,
+      { threadId }
+    )
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    console.error("Failed to delete thread entries", threadId, error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to delete thread entries.",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { embedTexts, type QACategory } from "@/lib/openai"
+import { getReadableMailboxes } from "@/lib/qa-points"
+import {
+  assertCollectionName,
+  getQdrantClient,
+  searchQAPoints,
+} from "@/lib/qdrant"
+import { readJsonObject } from "@/lib/request-body"
+import { getSession } from "@/lib/session"
+
+interface SearchRequestBody {
+  query?: string
+  limit?: number
+  scoreThreshold?: number
+  mailbox?: string
+  category?: QACategory
+  minConfidence?: number
+}
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Searches the entries of the session's mailboxes, or only of `mailbox` when
+ * the body names one of them.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<SearchRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const mailbox = typeof body.mailbox === "string" ? body.mailbox : null
+  const session = await getSession(request, mailbox)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const query = typeof body.query === "string" ? body.query.trim() : ""
+
+  if (!query) {
+    return NextResponse.json(
+      { error: "A search query is required." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const client = getQdrantClient()
+    const collection = assertCollectionName()
+
+    const [vector] = await embedTexts([query])
+
+    if (!vector) {
+      return NextResponse.json(
+        { error: "Unable to generate an embedding for the query." },
+        { status: 500 }
+      )
+    }
+
+    const hits = await searchQAPoints(client, collection, vector, {
+      limit: body.limit,
+      scoreThreshold: body.scoreThreshold,
+      mailboxes: getReadableMailboxes(session, mailbox),
+      category: body.category,
+      minConfidence: body.minConfidence,
+    })
+
+    return NextResponse.json({
+      query,
+      collection,
+      total: hits.length,
+      hits,
+    })
+  } catch (error) {
+    console.error("Failed to search Qdrant collection", error)
+    return NextResponse.json(
+      {
+        error: (error as Error).message ?? "Failed to search Qdrant.",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,88 +1,124 @@
 import { NextRequest, NextResponse } from "next/server"
 
+import { ingestQAItems, type QAIngestThread } from "@/lib/qa-ingest"
+import { readJsonObject } from "@/lib/request-body"
 import {
-  assertCollectionName,
-  ensureQdrantCollection,
-  getQdrantClient,
-  createStablePointId,
-} from "@/lib/qdrant"
-import { embedTexts, type ThreadQAEntry } from "@/lib/openai"
+  listReviewItems,
+  markReviewItemsIngested,
+  summarizeReviewQueue,
+} from "@/lib/review-queue"
+import { getSession } from "@/lib/session"
 
-interface UpsertRequestItem extends ThreadQAEntry {
-  threadId: string
-  createdAt?: string | null
-}
+export const dynamic = "force-dynamic"
 
 interface UpsertRequestBody {
-  items?: UpsertRequestItem[]
+  /** Ingests every approved entry of the review queue. */
+  approved?: boolean
+  /**
+   * Threads that were re-extracted without yielding any entries. Their
+   * existing points are removed and their ingestion records updated.
+   */
+  threads?: QAIngestThread[]
 }
 
+/**
+ * Upserts the approved entries of the current mailbox's review queue into
+ * Qdrant and marks them as ingested, and clears the stored entries of
+ * re-extracted threads that no longer have any. New entries only reach the
+ * knowledge base once approved, so raw items are not accepted here.
+ */
 export async function POST(request: NextRequest) {
-  let body: UpsertRequestBody
-  try {
-    body = await request.json()
-  } catch {
+  const session = await getSession(request)
+  if (!session) {
     return NextResponse.json(
-      { error: "Invalid JSON body provided." },
-      { status: 400 }
+      { error: "Not authenticated with Google." },
+      { status: 401 }
     )
   }
 
-  const items = body.items?.filter(
-    (item): item is UpsertRequestItem =>
-      Boolean(item?.threadId && item?.question && item?.answer)
-  )
-
-  if (!items?.length) {
+  const body = await readJsonObject<UpsertRequestBody>(request)
+  if (!body) {
     return NextResponse.json(
-      { error: "No valid question/answer items provided." },
+      { error: "Request body must be a JSON object." },
       { status: 400 }
     )
   }
 
-  try {
-    const client = getQdrantClient()
-    const collection = assertCollectionName()
-
-    const inputs = items.map(
-      (item) => `Question: ${item.question}\nAnswer: ${item.answer}`
+  const { items } = body as { items?: unknown }
+  if (Array.isArray(items) && items.length) {
+    return NextResponse.json(
+      {
+        error:
+          "Entries are ingested from the review queue once approved. Queue them with POST /api/review and send { approved: true } here.",
+      },
+      { status: 400 }
     )
+  }
+
+  const emptiedThreads = Array.isArray(body.threads)
+    ? body.threads.filter(
+        (thread): thread is QAIngestThread =>
+          typeof thread?.threadId === "string" &&
+          typeof thread.contentHash === "string"
+      )
+    : []
 
-    const embeddings = await embedTexts(inputs)
+  try {
+    const approved =
+      body.approved === true
+        ? await listReviewItems(session.mailbox, { statuses: ["approved"] })
+        : []
 
-    if (!embeddings.length) {
+    if (!approved.length && !emptiedThreads.length) {
       return NextResponse.json(
-        { error: "Unable to generate embeddings for provided items." },
-        { status: 500 }
+        {
+          error:
+            body.approved === true
+              ? "No approved entries to ingest."
+              : "No approved entries or threads provided.",
+        },
+        { status: 400 }
       )
     }
 
-    await ensureQdrantCollection(client, collection, embeddings[0].length)
+    const threads = new Map<string, QAIngestThread>(
+      emptiedThreads.map((thread) => [thread.threadId, thread])
+    )
+    for (const item of approved) {
+      if (item.fingerprint) {
+        threads.set(item.threadId, {
+          threadId: item.threadId,
+          ...item.fingerprint,
+        })
+      }
+    }
 
-    const points = items.map((item, index) => ({
-      id: createStablePointId(item.threadId, item.question),
-      vector: embeddings[index],
-      payload: {
-        threadId: item.threadId,
-        question: item.question,
-        answer: item.answer,
-        createdAt: item.createdAt ?? null,
-        ingestedAt: new Date().toISOString(),
-      },
-    }))
+    const result = await ingestQAItems(
+      session.mailbox,
+      approved.map(
+        ({ id, mailbox, subject, fingerprint, status, history, ...entry }) =>
+          entry
+      ),
+      Array.from(threads.values())
+    )
 
-    await client.upsert(collection, { points, wait: true })
+    if (approved.length) {
+      await markReviewItemsIngested(
+        session.mailbox,
+        session.profile.email,
+        approved.map((item) => item.id)
+      )
+    }
 
     return NextResponse.json({
-      upserted: points.length,
-      collection,
+      ...result,
+      summary: await summarizeReviewQueue(session.mailbox),
     })
   } catch (error) {
     console.error("Failed to upsert records into Qdrant", error)
     return NextResponse.json(
       {
-        error:
-          (error as Error).message ?? "Failed to upsert data into Qdrant.",
+        error: (error as Error).message ?? "Failed to upsert data into Qdrant.",
       },
       { status: 500 }
     )
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { readJsonObject } from "@/lib/request-body"
+import {
+  applyReviewAction,
+  summarizeReviewQueue,
+  type ReviewAction,
+} from "@/lib/review-queue"
+import { getSession } from "@/lib/session"
+
+interface RouteParams {
+  action: string
+}
+
+interface ReviewActionRequestBody {
+  itemIds?: string[]
+  /** Applies the action to every entry of these threads. */
+  threadIds?: string[]
+  reason?: string
+}
+
+const REVIEW_ACTIONS: ReviewAction[] = ["approve", "reject", "reopen"]
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const action = params.action as ReviewAction
+  if (!REVIEW_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { error: `Unknown review action "${params.action}".` },
+      { status: 404 }
+    )
+  }
+
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<ReviewActionRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  if (!body.itemIds?.length && !body.threadIds?.length) {
+    return NextResponse.json(
+      { error: "Select entries or threads to update." },
+      { status: 400 }
+    )
+  }
+
+  if (
+    action === "reject" &&
+    (typeof body.reason !== "string" || !body.reason.trim())
+  ) {
+    return NextResponse.json(
+      { error: "A reason is required to reject entries." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const items = await applyReviewAction(
+      session.mailbox,
+      session.profile.email,
+      action,
+      {
+        itemIds: body.itemIds,
+        threadIds: body.threadIds,
+        reason: body.reason,
+      }
+    )
+    return NextResponse.json({
+      items,
+      summary: await summarizeReviewQueue(session.mailbox),
+    })
+  } catch (error) {
+    console.error("Failed to update review queue", action, error)
+    return NextResponse.json(
+      { error: "Unable to update the review queue." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { readJsonObject } from "@/lib/request-body"
+import { editReviewItem } from "@/lib/review-queue"
+import { getSession } from "@/lib/session"
+
+interface RouteParams {
+  itemId: string
+}
+
+interface EditRequestBody {
+  question?: string
+  answer?: string
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<EditRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const item = await editReviewItem(
+      session.mailbox,
+      session.profile.email,
+      params.itemId,
+      {
+        question: typeof body.question === "string" ? body.question : undefined,
+        answer: typeof body.answer === "string" ? body.answer : undefined,
+      }
+    )
+    if (!item) {
+      return NextResponse.json(
+        { error: "Review entry not found or already ingested." },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ item })
+  } catch (error) {
+    console.error("Failed to edit review entry", params.itemId, error)
+    return NextResponse.json(
+      { error: "Unable to edit the review entry." },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  readThreadFingerprint,
+  recordHandledThreads,
+  type ThreadFingerprint,
+} from "@/lib/ingest-state"
+import { readJsonObject } from "@/lib/request-body"
+import {
+  listReviewItems,
+  queueReviewItems,
+  summarizeReviewQueue,
+  type QueueReviewThreadInput,
+  type ReviewItemStatus,
+} from "@/lib/review-queue"
+import { getSession } from "@/lib/session"
+
+type HandledThread = ThreadFingerprint & { threadId: string }
+
+interface QueueRequestBody {
+  threads?: QueueReviewThreadInput[]
+  /**
+   * Fingerprints of every thread the extraction covered, including threads
+   * the reviewer removed from the preview. They are recorded as handled so
+   * the next run skips them until their content changes.
+   */
+  handled?: HandledThread[]
+}
+
+const REVIEW_STATUSES: ReviewItemStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "ingested",
+]
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Lists the review queue of the current mailbox. `status` takes a
+ * comma-separated list of statuses to include.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const statuses = request.nextUrl.searchParams
+    .get("status")
+    ?.split(",")
+    .filter((status): status is ReviewItemStatus =>
+      REVIEW_STATUSES.includes(status as ReviewItemStatus)
+    )
+
+  try {
+    const [items, summary] = await Promise.all([
+      listReviewItems(session.mailbox, {
+        statuses: statuses?.length ? statuses : undefined,
+      }),
+      summarizeReviewQueue(session.mailbox),
+    ])
+    return NextResponse.json({ items, summary })
+  } catch (error) {
+    console.error("Failed to load review queue", error)
+    return NextResponse.json(
+      { error: "Unable to load the review queue." },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Queues extracted entries for review, grouped by source thread, and records
+ * the extracted threads as handled.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request)
+  if (!session) {
+    return NextResponse.json(
+      { error: "Not authenticated with Google." },
+      { status: 401 }
+    )
+  }
+
+  const body = await readJsonObject<QueueRequestBody>(request)
+  if (!body) {
+    return NextResponse.json(
+      { error: "Request body must be a JSON object." },
+      { status: 400 }
+    )
+  }
+
+  const threads = Array.isArray(body.threads)
+    ? body.threads.filter(
+        (thread): thread is QueueReviewThreadInput =>
+          typeof thread?.threadId === "string" &&
+          Array.isArray(thread.questions)
+      )
+    : []
+
+  const handled = new Map<string, HandledThread>()
+  const fingerprints = [
+    ...(Array.isArray(body.handled) ? body.handled : []),
+    ...threads.map((thread) => ({
+      ...thread.fingerprint,
+      threadId: thread.threadId,
+    })),
+  ]
+  for (const value of fingerprints) {
+    const fingerprint = readThreadFingerprint(value)
+    if (typeof value?.threadId === "string" && fingerprint) {
+      handled.set(value.threadId, { ...fingerprint, threadId: value.threadId })
+    }
+  }
+
+  if (!threads.length && !handled.size) {
+    return NextResponse.json(
+      { error: "No extracted threads provided." },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const queued = await queueReviewItems(
+      session.mailbox,
+      session.profile.email,
+      threads
+    )
+    await recordHandledThreads(session.mailbox, Array.from(handled.values()))
+    return NextResponse.json({
+      queued: queued.length,
+      summary: await summarizeReviewQueue(session.mailbox),
+    })
+  } catch (error) {
+    console.error("Failed to queue entries for review", error)
+    return NextResponse.json(
+      { error: "Unable to queue entries for review." },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,11 @@
 import "@/styles/globals.css"
 import { Metadata } from "next"
+import { cookies } from "next/headers"
 
 import { siteConfig } from "@/config/site"
 import { fontSans } from "@/lib/fonts"
+import { GOOGLE_OAUTH_SESSION_COOKIE } from "@/lib/google-auth"
+import { getSessionFromCookieValue } from "@/lib/session"
 import { cn } from "@/lib/utils"
 import { SiteHeader } from "@/components/site-header"
 import { TailwindIndicator } from "@/components/tailwind-indicator"
@@ -29,7 +32,14 @@ interface RootLayoutProps {
   children: React.ReactNode
 }
 
-export default function RootLayout({ children }: RootLayoutProps) {
+export default async function RootLayout({ children }: RootLayoutProps) {
+  const session = await getSessionFromCookieValue(
+    cookies().get(GOOGLE_OAUTH_SESSION_COOKIE)?.value
+  ).catch((error) => {
+    console.error("Failed to load session for header", error)
+    return null
+  })
+
   return (
     <>
       <html lang="en" suppressHydrationWarning>
@@ -42,7 +52,10 @@ export default function RootLayout({ children }: RootLayoutProps) {
         >
           <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
             <div className="relative flex min-h-screen flex-col">
-              <SiteHeader />
+              <SiteHeader
+                accounts={session?.accounts ?? []}
+                activeMailbox={session?.mailbox ?? null}
+              />
               <div className="flex-1">{children}</div>
             </div>
             <TailwindIndicator />
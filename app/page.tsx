@@ -2,15 +2,24 @@ import { cookies } from "next/headers"
 
 import {
   GOOGLE_OAUTH_SESSION_COOKIE,
-  decodeOAuthSessionCookie,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
   fetchRecentGmailThreads,
+  isReconnectRequiredError,
   type GmailAccountProfile,
   type GmailThreadSummary,
   type GoogleUserProfile,
 } from "@/lib/google-auth"
+import { QA_CATEGORIES } from "@/lib/openai"
+import { createSessionAuth, getSessionFromCookieValue } from "@/lib/session"
+import { AskInboxPanel } from "@/components/ask-inbox-panel"
 import { ConnectGoogleButton } from "@/components/connect-google-button"
+import { DuplicateReviewPanel } from "@/components/duplicate-review-panel"
 import { GmailThreadList } from "@/components/gmail-thread-list"
 import { InitialIngestPanel } from "@/components/initial-ingest-panel"
+import { KnowledgeBasePanel } from "@/components/knowledge-base-panel"
+import { QAImportPanel } from "@/components/qa-import-panel"
+import { QASearchPanel } from "@/components/qa-search-panel"
+import { ReviewQueuePanel } from "@/components/review-queue-panel"
 import { SyncThreadsPanel } from "@/components/sync-threads-panel"
 
 const INITIAL_INGEST_MAX_THREADS = Number(
@@ -28,24 +37,26 @@ interface IndexPageProps {
 export default async function IndexPage({ searchParams = {} }: IndexPageProps) {
   const cookieStore = cookies()
   const sessionCookie = cookieStore.get(GOOGLE_OAUTH_SESSION_COOKIE)
-  const session = sessionCookie?.value
-    ? decodeOAuthSessionCookie(sessionCookie.value)
-    : null
+  const session = await getSessionFromCookieValue(sessionCookie?.value)
 
   const profile: GoogleUserProfile | null = session?.profile ?? null
   const gmail: GmailAccountProfile | null = session?.gmail ?? null
+  const mailboxes = session?.accounts.map((account) => account.mailbox) ?? []
   const status = mapGoogleQueryToStatus(searchParams)
 
   let recentThreads: GmailThreadSummary[] = []
   let threadsError: string | null = null
+  let reconnectRequired = false
 
   if (session?.tokens) {
     try {
-      recentThreads = await fetchRecentGmailThreads(session.tokens, {
+      const auth = createSessionAuth(session)
+      recentThreads = await fetchRecentGmailThreads(auth, {
         maxResults: 10,
       })
     } catch (error) {
       console.error("Failed to fetch recent Gmail threads", error)
+      reconnectRequired = isReconnectRequiredError(error)
       threadsError =
         "We could not load your Gmail threads. Refresh the page to try again."
     }
@@ -53,12 +64,29 @@ export default async function IndexPage({ searchParams = {} }: IndexPageProps) {
 
   return (
     <main className="container flex flex-col gap-12 pb-12 pt-8">
+      {reconnectRequired ? (
+        <section className="flex flex-col gap-4 rounded-xl border border-destructive/40 bg-card p-6 shadow-sm sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm text-destructive">
+            {GOOGLE_RECONNECT_REQUIRED_MESSAGE}
+          </p>
+          <ConnectGoogleButton />
+        </section>
+      ) : null}
       {profile ? (
         <section className="grid gap-6">
           <InitialIngestPanel
             gmailThreadCount={gmail?.threadsTotal}
             initialIngestMaxThreads={NORMALIZED_INITIAL_INGEST_MAX_THREADS}
           />
+          <ReviewQueuePanel />
+          <QASearchPanel mailboxes={mailboxes} />
+          <KnowledgeBasePanel
+            mailboxes={mailboxes}
+            categories={QA_CATEGORIES}
+          />
+          <QAImportPanel />
+          <DuplicateReviewPanel />
+          <AskInboxPanel mailboxes={mailboxes} />
         </section>
       ) : null}
     </main>
@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Plus } from "lucide-react"
+
+import type { SessionAccountSummary } from "@/lib/session"
+import { Button } from "@/components/ui/button"
+
+interface AccountSwitcherProps {
+  accounts: SessionAccountSummary[]
+  activeMailbox: string | null
+}
+
+export function AccountSwitcher({
+  accounts,
+  activeMailbox,
+}: AccountSwitcherProps) {
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!accounts.length || !activeMailbox) {
+    return (
+      <Button asChild size="sm">
+        <a href="/api/auth/google">Connect Google Mail</a>
+      </Button>
+    )
+  }
+
+  const handleSwitch = async (mailbox: string) => {
+    if (mailbox === activeMailbox) {
+      return
+    }
+
+    setIsPending(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/google/switch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ mailbox }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Unable to switch mailbox.")
+      }
+
+      window.location.reload()
+    } catch (switchError) {
+      console.error("Failed to switch mailbox", switchError)
+      setError(
+        switchError instanceof Error
+          ? switchError.message
+          : "Unable to switch mailbox."
+      )
+      setIsPending(false)
+    }
+  }
+
+  const handleDisconnect = async () => {
+    setIsPending(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/google/disconnect", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ mailbox: activeMailbox }),
+      })
+
+      if (!response.ok) {
+        throw new Error("Failed to disconnect from Google")
+      }
+
+      window.location.href = "/?google=disconnected"
+    } catch (disconnectError) {
+      console.error(disconnectError)
+      setError("We could not disconnect this mailbox. Please try again.")
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {isPending ? (
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      ) : null}
+      <label htmlFor="account-switcher" className="sr-only">
+        Active mailbox
+      </label>
+      <select
+        id="account-switcher"
+        value={activeMailbox}
+        onChange={(event) => handleSwitch(event.target.value)}
+        disabled={isPending}
+        className="h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {accounts.map((account) => (
+          <option key={account.mailbox} value={account.mailbox}>
+            {account.name
+              ? `${account.name} (${account.mailbox})`
+              : account.mailbox}
+          </option>
+        ))}
+      </select>
+      <Button asChild size="sm" variant="outline">
+        <a href="/api/auth/google">
+          <Plus className="mr-1 size-4" />
+          Add mailbox
+        </a>
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={handleDisconnect}
+        disabled={isPending}
+      >
+        Disconnect
+      </Button>
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+    </div>
+  )
+}
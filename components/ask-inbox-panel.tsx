@@ -0,0 +1,156 @@
+"use client"
+
+import { useState } from "react"
+import { ExternalLink, Loader2 } from "lucide-react"
+
+import type { GroundedAnswer } from "@/lib/openai"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { MailboxFilter } from "@/components/mailbox-filter"
+
+interface AskResponse extends GroundedAnswer {
+  question: string
+}
+
+interface AskInboxPanelProps {
+  mailboxes?: string[]
+}
+
+export function AskInboxPanel({ mailboxes = [] }: AskInboxPanelProps) {
+  const [question, setQuestion] = useState("")
+  const [mailbox, setMailbox] = useState("")
+  const [isAsking, setIsAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<AskResponse | null>(null)
+
+  const handleAsk = async () => {
+    const trimmed = question.trim()
+    if (!trimmed) {
+      setError("Enter a question to ask your inbox.")
+      return
+    }
+
+    setIsAsking(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/ask", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          question: trimmed,
+          mailbox: mailbox || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to answer this question.")
+      }
+
+      const data = (await response.json()) as AskResponse
+      setResult(data)
+    } catch (askError) {
+      console.error("Ask inbox request failed", askError)
+      setResult(null)
+      setError(
+        askError instanceof Error
+          ? askError.message
+          : "Failed to answer this question."
+      )
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-foreground">Ask my inbox</h2>
+        <p className="text-sm text-muted-foreground">
+          Get an answer grounded in replies your team has already sent, with
+          links to the threads it came from.
+        </p>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        <Textarea
+          value={question}
+          onChange={(event) => setQuestion(event.target.value)}
+          placeholder="e.g. What's our refund window for annual plans?"
+          rows={3}
+          disabled={isAsking}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={handleAsk} disabled={isAsking}>
+            {isAsking ? (
+              <span className="inline-flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" />
+                Answering…
+              </span>
+            ) : (
+              "Ask"
+            )}
+          </Button>
+          <MailboxFilter
+            id="ask-inbox-mailbox"
+            mailboxes={mailboxes}
+            value={mailbox}
+            onChange={setMailbox}
+            disabled={isAsking}
+          />
+        </div>
+      </div>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+
+      {result ? (
+        <div className="mt-6 space-y-4 rounded-lg border border-border bg-background/60 p-4">
+          <p
+            className={`whitespace-pre-wrap text-sm ${
+              result.refused ? "text-muted-foreground" : "text-foreground"
+            }`}
+          >
+            {result.answer}
+          </p>
+          {result.citations.length ? (
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase text-muted-foreground">
+                Sources
+              </p>
+              <ol className="space-y-2">
+                {result.citations.map((citation, index) => (
+                  <li
+                    key={citation.pointId}
+                    className="flex items-start justify-between gap-4 text-sm"
+                  >
+                    <span className="text-muted-foreground">
+                      [{index + 1}] {citation.question}
+                    </span>
+                    {citation.threadUrl ? (
+                      <a
+                        href={citation.threadUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex shrink-0 items-center gap-1 text-xs font-medium text-primary hover:underline"
+                      >
+                        Thread {citation.threadId}
+                        <ExternalLink className="size-3" />
+                      </a>
+                    ) : (
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        Imported
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
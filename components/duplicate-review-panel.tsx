@@ -0,0 +1,314 @@
+"use client"
+
+import { useState } from "react"
+import { ExternalLink, GitMerge, Loader2 } from "lucide-react"
+
+import type { MergeProposal } from "@/lib/qa-merge"
+import { Button } from "@/components/ui/button"
+import { QAProvenance } from "@/components/qa-provenance"
+
+interface ProposalsResponse {
+  proposals: MergeProposal[]
+  scanned: number
+}
+
+interface ProposalSelection {
+  canonicalId: string
+  excludedIds: string[]
+}
+
+export function DuplicateReviewPanel() {
+  const [result, setResult] = useState<ProposalsResponse | null>(null)
+  const [selections, setSelections] = useState<
+    Record<string, ProposalSelection>
+  >({})
+  const [isScanning, setIsScanning] = useState(false)
+  const [pendingProposalId, setPendingProposalId] = useState<string | null>(
+    null
+  )
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleScan = async () => {
+    setIsScanning(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch("/api/qdrant/merges")
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to find duplicate entries.")
+      }
+
+      const data = (await response.json()) as ProposalsResponse
+      setResult(data)
+      setSelections(
+        Object.fromEntries(
+          data.proposals.map((proposal) => [
+            proposal.id,
+            { canonicalId: proposal.canonicalId, excludedIds: [] },
+          ])
+        )
+      )
+    } catch (scanError) {
+      console.error("Duplicate scan failed", scanError)
+      setError(
+        scanError instanceof Error
+          ? scanError.message
+          : "Failed to find duplicate entries."
+      )
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const updateSelection = (
+    proposalId: string,
+    update: Partial<ProposalSelection>
+  ) => {
+    setSelections((prev) => ({
+      ...prev,
+      [proposalId]: { ...prev[proposalId], ...update },
+    }))
+  }
+
+  const toggleExcluded = (proposal: MergeProposal, pointId: string) => {
+    const selection = selections[proposal.id]
+    const excludedIds = selection.excludedIds.includes(pointId)
+      ? selection.excludedIds.filter((id) => id !== pointId)
+      : [...selection.excludedIds, pointId]
+
+    // The kept entry cannot be split off; move it to the next included one.
+    const canonicalId = excludedIds.includes(selection.canonicalId)
+      ? proposal.points.find((point) => !excludedIds.includes(point.id))?.id ??
+        selection.canonicalId
+      : selection.canonicalId
+
+    updateSelection(proposal.id, { excludedIds, canonicalId })
+  }
+
+  const resolveProposal = async (
+    proposal: MergeProposal,
+    action: "merge" | "split"
+  ) => {
+    const selection = selections[proposal.id]
+    const includedIds = proposal.points
+      .map((point) => point.id)
+      .filter((id) => !selection.excludedIds.includes(id))
+
+    setPendingProposalId(proposal.id)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(
+        action === "merge" ? "/api/qdrant/merges" : "/api/qdrant/merges/split",
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            action === "merge"
+              ? {
+                  pointIds: includedIds,
+                  canonicalId: selection.canonicalId,
+                  excludedPointIds: selection.excludedIds,
+                }
+              : { pointIds: proposal.points.map((point) => point.id) }
+          ),
+        }
+      )
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? `Failed to ${action} these entries.`)
+      }
+
+      const data = await response.json()
+      setMessage(
+        action === "merge"
+          ? `Merged ${data.merged} duplicate(s); the kept entry now cites ${data.sourceThreadIds.length} thread(s).`
+          : `Kept ${data.split} entries separately.`
+      )
+      setResult((prev) =>
+        prev
+          ? {
+              ...prev,
+              proposals: prev.proposals.filter(
+                (item) => item.id !== proposal.id
+              ),
+            }
+          : prev
+      )
+    } catch (resolveError) {
+      console.error("Failed to resolve duplicate proposal", resolveError)
+      setError(
+        resolveError instanceof Error
+          ? resolveError.message
+          : `Failed to ${action} these entries.`
+      )
+    } finally {
+      setPendingProposalId(null)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-foreground">
+            Review duplicate answers
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Questions asked in many threads are proposed for merging into one
+            entry that keeps the best answer and cites every source thread.
+          </p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={handleScan}
+          disabled={isScanning || pendingProposalId !== null}
+        >
+          {isScanning ? (
+            <span className="inline-flex items-center gap-2">
+              <Loader2 className="size-4 animate-spin" />
+              Scanning…
+            </span>
+          ) : (
+            "Find duplicates"
+          )}
+        </Button>
+      </div>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+      {message ? (
+        <p className="mt-3 text-sm text-muted-foreground">{message}</p>
+      ) : null}
+
+      {result ? (
+        <div className="mt-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {result.proposals.length
+              ? `${result.proposals.length} proposed merge(s) among ${result.scanned} stored entries.`
+              : `No duplicates found among ${result.scanned} stored entries.`}
+          </p>
+          {result.proposals.map((proposal) => {
+            const selection = selections[proposal.id]
+            const includedCount =
+              proposal.points.length - selection.excludedIds.length
+            const isPending = pendingProposalId === proposal.id
+
+            return (
+              <article
+                key={proposal.id}
+                className="rounded-lg border border-border bg-background/60 p-4"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-foreground">
+                    {proposal.points.length} similar entries
+                  </p>
+                  <span className="rounded-full bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                    {(proposal.similarity * 100).toFixed(0)}% similar
+                  </span>
+                </div>
+
+                <ul className="mt-3 space-y-3">
+                  {proposal.points.map((point) => {
+                    const isExcluded = selection.excludedIds.includes(point.id)
+
+                    return (
+                      <li
+                        key={point.id}
+                        className={`rounded-md border border-border p-3 ${
+                          isExcluded ? "opacity-60" : ""
+                        }`}
+                      >
+                        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={!isExcluded}
+                              onChange={() =>
+                                toggleExcluded(proposal, point.id)
+                              }
+                              disabled={isPending}
+                            />
+                            Include in merge
+                          </label>
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name={`canonical-${proposal.id}`}
+                              checked={selection.canonicalId === point.id}
+                              onChange={() =>
+                                updateSelection(proposal.id, {
+                                  canonicalId: point.id,
+                                })
+                              }
+                              disabled={isPending || isExcluded}
+                            />
+                            Keep this answer
+                          </label>
+                        </div>
+                        <p className="mt-2 text-sm text-foreground">
+                          {point.question}
+                        </p>
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {point.answer}
+                        </p>
+                        <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+                          <QAProvenance entry={point} />
+                          {!point.threadUrl ? (
+                            <span className="text-xs text-muted-foreground">
+                              Imported
+                            </span>
+                          ) : (
+                            <a
+                              href={point.threadUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+                            >
+                              {point.sourceThreadIds &&
+                              point.sourceThreadIds.length > 1
+                                ? `View source thread (1 of ${point.sourceThreadIds.length})`
+                                : "View source thread"}
+                              <ExternalLink className="size-3" />
+                            </a>
+                          )}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                <div className="mt-4 flex flex-wrap gap-2">
+                  <Button
+                    onClick={() => resolveProposal(proposal, "merge")}
+                    disabled={isPending || includedCount < 2}
+                  >
+                    {isPending ? (
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                    ) : (
+                      <GitMerge className="mr-2 size-4" />
+                    )}
+                    Merge {includedCount} entries
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => resolveProposal(proposal, "split")}
+                    disabled={isPending}
+                  >
+                    Not duplicates
+                  </Button>
+                </div>
+              </article>
+            )
+          })}
+        </div>
+      ) : null}
+    </div>
+  )
+}
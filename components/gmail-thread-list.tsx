@@ -1,9 +1,10 @@
 "use client"
 
 import { useEffect, useMemo, useState } from "react"
-import { Loader2 } from "lucide-react"
+import { Loader2, Paperclip } from "lucide-react"
 
 import {
+  type GmailAttachment,
   type GmailThreadDetail,
   type GmailThreadSummary,
 } from "@/lib/google-auth"
@@ -128,9 +129,17 @@ export function GmailThreadList({ threads, error }: GmailThreadListProps) {
                   </span>
                 </p>
                 <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
-                  <span>
+                  <span className="inline-flex shrink-0 items-center gap-2">
                     {thread.messageCount}{" "}
                     {thread.messageCount === 1 ? "message" : "messages"}
+                    {thread.hasExternalParticipants ? (
+                      <span
+                        className="rounded-full bg-muted px-2 py-0.5 font-medium text-foreground"
+                        title={formatExternalParticipants(thread)}
+                      >
+                        External
+                      </span>
+                    ) : null}
                   </span>
                   {thread.snippet ? (
                     <span className="line-clamp-1">{thread.snippet}</span>
@@ -186,6 +195,30 @@ export function GmailThreadList({ threads, error }: GmailThreadListProps) {
                   <div className="mt-3 whitespace-pre-wrap text-sm leading-relaxed text-foreground">
                     {message.bodyText || "No message body available."}
                   </div>
+                  {message.attachments?.length ? (
+                    <ul className="mt-3 flex flex-wrap gap-2">
+                      {message.attachments.map((attachment, index) => (
+                        <li key={attachment.attachmentId ?? index}>
+                          {attachment.attachmentId ? (
+                            <a
+                              href={buildAttachmentUrl(attachment)}
+                              className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-1 text-xs font-medium text-primary hover:underline"
+                            >
+                              <Paperclip className="size-3" />
+                              {attachment.filename} (
+                              {formatFileSize(attachment.size)})
+                            </a>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                              <Paperclip className="size-3" />
+                              {attachment.filename} (
+                              {formatFileSize(attachment.size)})
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
                 </article>
               ))}
             </div>
@@ -216,3 +249,32 @@ function formatThreadDate(rawDate: string): string {
     minute: "2-digit",
   })
 }
+
+function buildAttachmentUrl(attachment: GmailAttachment) {
+  const params = new URLSearchParams()
+  if (attachment.partId) {
+    params.set("partId", attachment.partId)
+  }
+  return `/api/gmail/messages/${encodeURIComponent(
+    attachment.messageId
+  )}/attachments/${encodeURIComponent(
+    attachment.attachmentId ?? ""
+  )}?${params.toString()}`
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatExternalParticipants(thread: GmailThreadSummary) {
+  return thread.participants
+    .filter((participant) => !participant.internal)
+    .map((participant) => participant.email)
+    .join(", ")
+}
@@ -2,26 +2,28 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { Loader2, Trash2 } from "lucide-react"
 
+import type { GmailLabel } from "@/lib/google-auth"
+import type { GmailIngestScope, ThreadFingerprint } from "@/lib/ingest-state"
+import type { IngestJobSummary, IngestJobThread } from "@/lib/jobs"
+import type { ExtractionTruncationReport, ThreadQAEntry } from "@/lib/openai"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { QAProvenance } from "@/components/qa-provenance"
 
 interface InitialIngestPanelProps {
   gmailThreadCount?: number
   initialIngestMaxThreads?: number | null
 }
 
-const PREVIEW_CONCURRENCY = Math.max(
-  1,
-  Number(process.env.NEXT_PUBLIC_INITIAL_PREVIEW_CONCURRENCY ?? "5")
-)
-
 interface PreviewThread {
   threadId: string
   subject: string
   createdAt?: string | null
   messageCount: number
-  questions: { question: string; answer: string }[]
+  fingerprint?: ThreadFingerprint
+  truncation?: ExtractionTruncationReport
+  questions: ThreadQAEntry[]
 }
 
 interface PreviewResult {
@@ -29,9 +31,21 @@ interface PreviewResult {
   threadsWithQuestions: number
   totalQuestions: number
   maxThreads: number
+  scope: GmailIngestScope | null
   threads: PreviewThread[]
 }
 
+interface BackfillSummary {
+  start: string
+  end: string
+  windowDays: number
+  windowCount: number
+  completedWindows: number
+  currentWindow: { start: string; end: string } | null
+  createdAt: string
+  completedAt: string | null
+}
+
 interface IngestStateSummary {
   processedThreads: number
   historyId: string | null
@@ -41,6 +55,8 @@ interface IngestStateSummary {
   lastUpdatedAt: string | null
   rules: string
   previewMaxThreads: number | null
+  scope: GmailIngestScope
+  backfill: BackfillSummary | null
 }
 
 export function InitialIngestPanel({
@@ -56,8 +72,9 @@ export function InitialIngestPanel({
   const [pointCount, setPointCount] = useState<number | null>(null)
   const [isFetchingStats, setIsFetchingStats] = useState(true)
   const [isGenerating, setIsGenerating] = useState(false)
-  const [isIngesting, setIsIngesting] = useState(false)
+  const [isQueueing, setIsQueueing] = useState(false)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const [reconnectRequired, setReconnectRequired] = useState(false)
   const [statusVariant, setStatusVariant] = useState<"info" | "error" | "success">(
     "info"
   )
@@ -75,11 +92,33 @@ export function InitialIngestPanel({
   )
   const [isPreviewLimitEditing, setIsPreviewLimitEditing] = useState(false)
   const [isSavingPreviewLimit, setIsSavingPreviewLimit] = useState(false)
+  const [labels, setLabels] = useState<GmailLabel[]>([])
+  const [scopeDraft, setScopeDraft] = useState({ query: "", labelId: "INBOX" })
+  const [isScopeEditing, setIsScopeEditing] = useState(false)
+  const [isSavingScope, setIsSavingScope] = useState(false)
+  const [backfillDraft, setBackfillDraft] = useState({
+    start: "",
+    end: "",
+    windowDays: "30",
+  })
+  const [isUpdatingBackfill, setIsUpdatingBackfill] = useState(false)
   const [progressTotal, setProgressTotal] = useState(0)
   const [progressCurrent, setProgressCurrent] = useState(0)
-  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const [activeJob, setActiveJob] = useState<IngestJobSummary | null>(null)
+  const jobStreamRef = useRef<EventSource | null>(null)
 
   const latestPreviewThreadIdsRef = useRef<string[]>([])
+  // Re-extracted threads that no longer yield any entries; their stale
+  // stored entries are removed when the preview is queued.
+  const emptiedThreadsRef = useRef<
+    Array<ThreadFingerprint & { threadId: string }>
+  >([])
+  // Every re-extracted thread of the preview, recorded as handled when the
+  // preview is queued so the next run skips it until its content changes.
+  const handledThreadsRef = useRef<
+    Array<ThreadFingerprint & { threadId: string }>
+  >([])
+  const pendingHistoryIdRef = useRef<string | null>(null)
   const refreshStats = useCallback(async (suppressLoading = false) => {
     if (!suppressLoading) {
       setIsFetchingStats(true)
@@ -123,6 +162,7 @@ export function InitialIngestPanel({
       lastPreviewAt?: string | null
       rules?: string | null
       previewMaxThreads?: number | null
+      scope?: GmailIngestScope
     }): Promise<IngestStateSummary | null> => {
       try {
         const response = await fetch("/api/ingest/state", {
@@ -152,6 +192,19 @@ export function InitialIngestPanel({
     []
   )
 
+  const loadLabels = useCallback(async () => {
+    try {
+      const response = await fetch("/api/gmail/labels")
+      if (!response.ok) {
+        throw new Error("Failed to load Gmail labels")
+      }
+      const data = await response.json()
+      setLabels(data.labels ?? [])
+    } catch (error) {
+      console.error("Unable to load Gmail labels", error)
+    }
+  }, [])
+
   useEffect(() => {
     refreshStats().catch(() => {
       /* ignored */
@@ -159,7 +212,10 @@ export function InitialIngestPanel({
     loadIngestState().catch(() => {
       /* ignored */
     })
-  }, [refreshStats, loadIngestState])
+    loadLabels().catch(() => {
+      /* ignored */
+    })
+  }, [refreshStats, loadIngestState, loadLabels])
 
   useEffect(() => {
     if (
@@ -208,13 +264,20 @@ export function InitialIngestPanel({
     previewLimitValue,
   ])
 
-  const stopPolling = () => {
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
-      pollingRef.current = null
-    }
+  const savedScope: GmailIngestScope = ingestState?.scope ?? {
+    query: "",
+    labelIds: ["INBOX"],
   }
 
+  useEffect(() => {
+    if (!isScopeEditing) {
+      setScopeDraft({
+        query: ingestState?.scope?.query ?? "",
+        labelId: ingestState?.scope ? ingestState.scope.labelIds[0] ?? "" : "INBOX",
+      })
+    }
+  }, [ingestState?.scope, isScopeEditing])
+
   const handleStartEditingRules = () => {
     setIsRulesEditing(true)
     setRulesDraft(rulesValue)
@@ -300,6 +363,102 @@ export function InitialIngestPanel({
     }
   }
 
+  const handleCancelScope = () => {
+    setIsScopeEditing(false)
+  }
+
+  const handleSaveScope = async () => {
+    const scope: GmailIngestScope = {
+      query: scopeDraft.query.trim(),
+      labelIds: scopeDraft.labelId ? [scopeDraft.labelId] : [],
+    }
+
+    setIsSavingScope(true)
+    try {
+      await syncIngestState({ scope })
+      setIsScopeEditing(false)
+      setStatusVariant("success")
+      setStatusMessage(`Ingestion scope saved (${formatScope(scope, labels)}).`)
+    } catch (error) {
+      console.error("Failed to save ingestion scope", error)
+      setStatusVariant("error")
+      setStatusMessage(
+        error instanceof Error ? error.message : "Failed to save ingestion scope."
+      )
+    } finally {
+      setIsSavingScope(false)
+    }
+  }
+
+  const handleStartBackfill = async () => {
+    if (!backfillDraft.start) {
+      setStatusVariant("error")
+      setStatusMessage("Choose a start date for the backfill.")
+      return
+    }
+
+    setIsUpdatingBackfill(true)
+    try {
+      const response = await fetch("/api/ingest/backfill", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          start: backfillDraft.start,
+          end: backfillDraft.end || undefined,
+          windowDays: Number.parseInt(backfillDraft.windowDays, 10) || undefined,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to start backfill.")
+      }
+
+      const summary = data.state as IngestStateSummary
+      setIngestState(summary)
+      setStatusVariant("success")
+      setStatusMessage(
+        `Backfill started: ${summary.backfill?.windowCount ?? 0} window(s). Generate a preview to work through them.`
+      )
+    } catch (error) {
+      console.error("Failed to start backfill", error)
+      setStatusVariant("error")
+      setStatusMessage(
+        error instanceof Error ? error.message : "Failed to start backfill."
+      )
+    } finally {
+      setIsUpdatingBackfill(false)
+    }
+  }
+
+  const handleCancelBackfill = async () => {
+    setIsUpdatingBackfill(true)
+    try {
+      const response = await fetch("/api/ingest/backfill", {
+        method: "DELETE",
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to cancel backfill.")
+      }
+
+      setIngestState(data.state as IngestStateSummary)
+      setStatusVariant("info")
+      setStatusMessage("Backfill cleared.")
+    } catch (error) {
+      console.error("Failed to cancel backfill", error)
+      setStatusVariant("error")
+      setStatusMessage(
+        error instanceof Error ? error.message : "Failed to cancel backfill."
+      )
+    } finally {
+      setIsUpdatingBackfill(false)
+    }
+  }
+
   const selectedThreads = useMemo(() => {
     if (!preview) return 0
     return preview.threads.filter((thread) => thread.questions.length > 0).length
@@ -310,6 +469,236 @@ export function InitialIngestPanel({
     return preview.threads.reduce((acc, thread) => acc + thread.questions.length, 0)
   }, [preview])
 
+  const closeJobStream = useCallback(() => {
+    if (jobStreamRef.current) {
+      jobStreamRef.current.close()
+      jobStreamRef.current = null
+    }
+  }, [])
+
+  useEffect(() => closeJobStream, [closeJobStream])
+
+  const loadJobPreview = useCallback(async (summary: IngestJobSummary) => {
+    const response = await fetch(`/api/jobs/${encodeURIComponent(summary.id)}`)
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error ?? "Failed to load ingest job.")
+    }
+
+    const data = await response.json()
+    const threads: IngestJobThread[] = data.job?.threads ?? []
+    const extracted = threads.filter((thread) => thread.status === "extracted")
+
+    const previewThreads: PreviewThread[] = extracted
+      .map((thread) => ({
+        threadId: thread.threadId,
+        subject: thread.subject ?? "Untitled thread",
+        createdAt: thread.createdAt ?? null,
+        messageCount: thread.messageCount ?? thread.questions?.length ?? 0,
+        fingerprint: thread.fingerprint,
+        truncation: thread.truncation,
+        questions: (thread.questions ?? []).filter((qa) =>
+          Boolean(qa?.question && qa?.answer)
+        ),
+      }))
+      .filter((thread) => thread.questions.length > 0)
+
+    // Failed threads stay unprocessed so the next preview picks them up again,
+    // which also means the history cursor must not move past them.
+    latestPreviewThreadIdsRef.current = extracted.map(
+      (thread) => thread.threadId
+    )
+    const previewThreadIds = new Set(
+      previewThreads.map((thread) => thread.threadId)
+    )
+    handledThreadsRef.current = extracted.flatMap((thread) =>
+      thread.fingerprint && !thread.unchanged
+        ? [{ threadId: thread.threadId, ...thread.fingerprint }]
+        : []
+    )
+    emptiedThreadsRef.current = handledThreadsRef.current.filter(
+      (thread) => !previewThreadIds.has(thread.threadId)
+    )
+    pendingHistoryIdRef.current = summary.failed ? null : summary.historyId
+
+    const result: PreviewResult = {
+      processedThreads: extracted.length,
+      threadsWithQuestions: previewThreads.length,
+      totalQuestions: previewThreads.reduce(
+        (acc, thread) => acc + thread.questions.length,
+        0
+      ),
+      maxThreads: summary.maxThreads ?? summary.total,
+      scope: summary.scope,
+      threads: previewThreads,
+    }
+
+    setPreview(result)
+    return result
+  }, [])
+
+  const handleJobFinished = useCallback(
+    async (summary: IngestJobSummary, recordPreview: boolean) => {
+      if (summary.status === "cancelled") {
+        setStatusVariant("info")
+        setStatusMessage("Preview job cancelled.")
+        return
+      }
+
+      try {
+        const result = await loadJobPreview(summary)
+
+        if (recordPreview) {
+          await syncIngestState({ lastPreviewAt: new Date().toISOString() })
+        }
+
+        const failedSuffix = summary.failed
+          ? ` ${summary.failed.toLocaleString()} thread(s) failed and can be retried.`
+          : ""
+
+        if (result.threadsWithQuestions === 0) {
+          setStatusVariant(summary.failed ? "error" : "info")
+          setStatusMessage(
+            `No questions detected in the scanned threads.${failedSuffix}`
+          )
+        } else {
+          setStatusVariant("success")
+          setStatusMessage(
+            `Processed ${result.processedThreads.toLocaleString()} threads and extracted ${result.totalQuestions.toLocaleString()} questions.${failedSuffix}`
+          )
+        }
+      } catch (error) {
+        console.error("Failed to load preview from job", error)
+        setStatusVariant("error")
+        setStatusMessage(
+          error instanceof Error ? error.message : "Preview generation failed."
+        )
+      }
+    },
+    [loadJobPreview, syncIngestState]
+  )
+
+  const applyJobProgress = useCallback((summary: IngestJobSummary) => {
+    setActiveJob(summary)
+    setProgressTotal(summary.total)
+    setProgressCurrent(summary.extracted + summary.failed)
+
+    if (summary.status === "paused") {
+      setStatusVariant(summary.error ? "error" : "info")
+      setStatusMessage(summary.error ?? "Preview job paused.")
+      if (summary.errorCode === "reconnect_required") {
+        setReconnectRequired(true)
+      }
+    } else if (summary.status === "running") {
+      setStatusVariant("info")
+      setStatusMessage(
+        `Processing threads ${summary.extracted + summary.failed}/${
+          summary.total
+        }…`
+      )
+    }
+  }, [])
+
+  const watchJob = useCallback(
+    (summary: IngestJobSummary, resumed = false) => {
+      closeJobStream()
+      applyJobProgress(summary)
+
+      if (summary.status === "completed" || summary.status === "cancelled") {
+        handleJobFinished(summary, !resumed).catch(() => {
+          /* handled */
+        })
+        return
+      }
+
+      const source = new EventSource(
+        `/api/jobs/${encodeURIComponent(summary.id)}/stream`
+      )
+      jobStreamRef.current = source
+
+      source.addEventListener("progress", (event) => {
+        const next = JSON.parse((event as MessageEvent<string>).data)
+        applyJobProgress(next)
+
+        if (next.status === "completed" || next.status === "cancelled") {
+          closeJobStream()
+          handleJobFinished(next, true).catch(() => {
+            /* handled */
+          })
+        }
+      })
+
+      source.onerror = () => {
+        // EventSource reconnects on its own while the job is still running.
+        if (source.readyState === EventSource.CLOSED) {
+          closeJobStream()
+        }
+      }
+    },
+    [applyJobProgress, closeJobStream, handleJobFinished]
+  )
+
+  useEffect(() => {
+    const resumeLatestJob = async () => {
+      const response = await fetch("/api/jobs")
+      if (!response.ok) {
+        return
+      }
+      const data = await response.json()
+      const latest: IngestJobSummary | undefined = data.jobs?.[0]
+      if (latest) {
+        watchJob(latest, true)
+      }
+    }
+
+    resumeLatestJob().catch((error) => {
+      console.error("Unable to resume ingest job", error)
+    })
+  }, [watchJob])
+
+  const handleJobAction = async (action: "pause" | "resume" | "cancel" | "retry") => {
+    if (!activeJob) return
+
+    try {
+      const response = await fetch(
+        `/api/jobs/${encodeURIComponent(activeJob.id)}/${action}`,
+        { method: "POST" }
+      )
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Unable to update ingest job.")
+      }
+
+      const data = await response.json()
+      if (action === "retry" || action === "resume") {
+        setPreview(null)
+        setReconnectRequired(false)
+      }
+      watchJob(data.job)
+    } catch (error) {
+      console.error("Failed to update ingest job", action, error)
+      setStatusVariant("error")
+      setStatusMessage(
+        error instanceof Error ? error.message : "Unable to update ingest job."
+      )
+    }
+  }
+
+  const archiveActiveJob = async () => {
+    if (!activeJob) return
+
+    closeJobStream()
+    try {
+      await fetch(`/api/jobs/${encodeURIComponent(activeJob.id)}/archive`, {
+        method: "POST",
+      })
+    } catch (error) {
+      console.error("Failed to archive ingest job", error)
+    }
+    setActiveJob(null)
+  }
+
   const handleGeneratePreview = async () => {
     setIsGenerating(true)
     setStatusVariant("info")
@@ -317,15 +706,19 @@ export function InitialIngestPanel({
     setPreview(null)
     setProgressTotal(0)
     setProgressCurrent(0)
+    pendingHistoryIdRef.current = null
+    await archiveActiveJob()
     const instructionsForPreview = rulesValue.trim()
     const limitForPreview =
       typeof previewLimitValue === "number" && previewLimitValue > 0
         ? previewLimitValue
         : initialPreviewLimit
-    const listRequestPayload =
-      limitForPreview && Number.isFinite(limitForPreview)
+    const listRequestPayload = {
+      ...(limitForPreview && Number.isFinite(limitForPreview)
         ? { maxThreads: limitForPreview }
-        : {}
+        : {}),
+      ...(isBackfillActive ? { mode: "backfill" } : {}),
+    }
 
     try {
       const listResponse = await fetch("/api/gmail/threads/list", {
@@ -338,137 +731,75 @@ export function InitialIngestPanel({
 
       if (!listResponse.ok) {
         const data = await listResponse.json().catch(() => ({}))
+        if (data.code === "reconnect_required") {
+          setReconnectRequired(true)
+        }
         throw new Error(data.error ?? "Failed to list Gmail threads.")
       }
 
       const listData = await listResponse.json()
       const threadIds: string[] = listData.threadIds ?? []
+      const isDelta = listData.mode === "delta"
+      const backfillWindow = listData.window ?? null
       latestPreviewThreadIdsRef.current = threadIds
+      emptiedThreadsRef.current = []
+      handledThreadsRef.current = []
+      pendingHistoryIdRef.current = listData.historyId ?? null
 
       if (!threadIds.length) {
-        setStatusVariant("info")
-        setStatusMessage("No Gmail threads remaining to ingest.")
+        setStatusVariant(listData.mode === "backfill" ? "success" : "info")
+        setStatusMessage(
+          listData.mode === "backfill"
+            ? "Backfill complete: every window has been ingested."
+            : isDelta
+            ? "No new or updated Gmail threads since the last sync."
+            : "No Gmail threads remaining to ingest."
+        )
+        if (listData.mode === "backfill") {
+          await loadIngestState()
+        }
         await syncIngestState({
           lastPreviewAt: new Date().toISOString(),
           totalThreadsDetected: gmailThreadCount ?? null,
+          historyId: pendingHistoryIdRef.current,
         })
+        pendingHistoryIdRef.current = null
         return
       }
 
-      setProgressTotal(threadIds.length)
-      setProgressCurrent(0)
-      setStatusMessage(`Processing threads 0/${threadIds.length}…`)
-
-      const results: Array<{ order: number; thread: PreviewThread }> = []
-      let processedThreadsLocal = 0
-      let threadsWithQuestionsLocal = 0
-      let totalQuestionsLocal = 0
-      const processedThreadIdsLocal: string[] = []
-      let currentIndex = 0
-
-      const worker = async () => {
-        while (true) {
-          const idx = currentIndex++
-          if (idx >= threadIds.length) {
-            break
-          }
-          const threadId = threadIds[idx]
-
-          try {
-            const response = await fetch(
-              `/api/gmail/thread/${encodeURIComponent(threadId)}/qa`,
-              {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify(
-                  instructionsForPreview
-                    ? { instructions: instructionsForPreview }
-                    : {}
-                ),
-              }
-            )
-
-            if (!response.ok) {
-              continue
-            }
-
-            const threadData = await response.json()
-            const questions = (threadData.questions ?? []).filter(
-              (qa: { question?: string; answer?: string }) =>
-                Boolean(qa?.question && qa?.answer)
-            )
-
-            if (!questions.length) {
-              continue
-            }
-
-            threadsWithQuestionsLocal += 1
-            totalQuestionsLocal += questions.length
-
-            results.push({
-              order: idx,
-              thread: {
-                threadId,
-                subject: threadData.subject ?? "Untitled thread",
-                createdAt: threadData.createdAt ?? null,
-                messageCount: threadData.messageCount ?? questions.length,
-                questions,
-              },
-            })
-          } catch (error) {
-            console.error("Failed to preview thread", threadId, error)
-          } finally {
-            processedThreadsLocal += 1
-            processedThreadIdsLocal.push(threadId)
-            setProgressCurrent((prev) => {
-              const next = prev + 1
-              setStatusMessage(`Processing threads ${next}/${threadIds.length}…`)
-              return next
-            })
-          }
-        }
-      }
-
-      const workers = Array.from(
-        { length: Math.min(PREVIEW_CONCURRENCY, threadIds.length) },
-        () => worker()
+      setStatusMessage(
+        backfillWindow
+          ? `Queueing ${threadIds.length} of ${backfillWindow.remaining} threads from ${backfillWindow.start} – ${backfillWindow.end} (window ${backfillWindow.index + 1}/${backfillWindow.count})…`
+          : isDelta
+          ? `Queueing ${threadIds.length} new or updated threads…`
+          : `Queueing ${threadIds.length} threads…`
       )
-
-      await Promise.all(workers)
-
-      const processedThreadIds = Array.from(new Set(processedThreadIdsLocal))
-      latestPreviewThreadIdsRef.current = processedThreadIds
-
-      const sortedThreads = results
-        .sort((a, b) => a.order - b.order)
-        .map((entry) => entry.thread)
-
-      const summary: PreviewResult = {
-        processedThreads: processedThreadsLocal,
-        threadsWithQuestions: threadsWithQuestionsLocal,
-        totalQuestions: totalQuestionsLocal,
-        maxThreads: listData.maxThreads ?? threadIds.length,
-        threads: sortedThreads,
+      if (backfillWindow) {
+        await loadIngestState()
       }
 
-      setPreview(summary)
-
-      await syncIngestState({
-        lastPreviewAt: new Date().toISOString(),
-        totalThreadsDetected: gmailThreadCount ?? null,
+      const jobResponse = await fetch("/api/jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          threadIds,
+          instructions: instructionsForPreview || undefined,
+          mode: listData.mode,
+          historyId: listData.historyId ?? null,
+          maxThreads: listData.maxThreads ?? threadIds.length,
+          scope: listData.scope,
+        }),
       })
 
-      if (threadsWithQuestionsLocal === 0) {
-        setStatusVariant("info")
-        setStatusMessage("No questions detected in the scanned threads.")
-      } else {
-        setStatusVariant("success")
-        setStatusMessage(
-          `Processed ${processedThreadsLocal.toLocaleString()} threads and extracted ${totalQuestionsLocal.toLocaleString()} questions.`
-        )
+      if (!jobResponse.ok) {
+        const data = await jobResponse.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to start preview job.")
       }
+
+      const jobData = await jobResponse.json()
+      watchJob(jobData.job)
     } catch (error) {
       console.error("Preview generation failed", error)
       setStatusVariant("error")
@@ -480,88 +811,108 @@ export function InitialIngestPanel({
     }
   }
 
-  const handleIngestSelected = async () => {
+  const handleQueueSelected = async () => {
     if (!preview) {
       setStatusVariant("error")
-      setStatusMessage("Generate a preview before ingesting.")
+      setStatusMessage("Generate a preview before queueing it for review.")
       return
     }
 
-    const ingestItems = preview.threads.flatMap((thread) =>
-      thread.questions.map((qa) => ({
-        threadId: thread.threadId,
-        question: qa.question,
-        answer: qa.answer,
-        createdAt: thread.createdAt ?? null,
-      }))
-    )
-
-    if (!ingestItems.length) {
+    const reviewThreads = preview.threads.map((thread) => ({
+      threadId: thread.threadId,
+      subject: thread.subject,
+      createdAt: thread.createdAt ?? null,
+      fingerprint: thread.fingerprint,
+      questions: thread.questions,
+    }))
+
+    // Re-extracted threads left without entries have nothing to review; their
+    // stale entries are removed from the knowledge base directly. Threads the
+    // reviewer removed from the preview keep their entries and ingest records.
+    const emptiedThreads = emptiedThreadsRef.current
+    const handledThreads = handledThreadsRef.current
+
+    if (!reviewThreads.length && !handledThreads.length) {
       setStatusVariant("error")
-      setStatusMessage("Select at least one question before ingesting.")
+      setStatusMessage("Select at least one question before queueing.")
       return
     }
 
-    const uniqueThreadIds = Array.from(
-      new Set(preview.threads.map((thread) => thread.threadId))
-    )
     const processedThreadIds = Array.from(
       new Set(
         latestPreviewThreadIdsRef.current.length
           ? latestPreviewThreadIdsRef.current
-          : uniqueThreadIds
+          : preview.threads.map((thread) => thread.threadId)
       )
     )
 
-    setIsIngesting(true)
+    setIsQueueing(true)
     setStatusVariant("info")
-    setStatusMessage("Ingesting selected pairs…")
-
-    if (!pollingRef.current) {
-      pollingRef.current = setInterval(() => {
-        refreshStats(true).catch(() => {
-          /* ignored */
-        })
-      }, 2000)
-    }
+    setStatusMessage("Queueing selected pairs for review…")
 
     try {
-      const response = await fetch("/api/qdrant/upsert", {
+      const response = await fetch("/api/review", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ items: ingestItems }),
+        body: JSON.stringify({
+          threads: reviewThreads,
+          handled: handledThreads,
+        }),
       })
 
       if (!response.ok) {
         const data = await response.json().catch(() => ({}))
-        throw new Error(data.error ?? "Failed to ingest into Qdrant.")
+        throw new Error(data.error ?? "Failed to queue pairs for review.")
       }
 
       const data = await response.json()
+      const queued: number = data.queued ?? 0
+
+      if (emptiedThreads.length) {
+        const response = await fetch("/api/qdrant/upsert", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ threads: emptiedThreads }),
+        })
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error ?? "Failed to remove stale entries.")
+        }
+        await refreshStats()
+      }
+
       setStatusVariant("success")
       setStatusMessage(
-        `Ingested ${data.upserted} question & answer pairs into collection "${data.collection}".`
+        `Queued ${queued} question & answer pairs for review. Approve them in the review queue to ingest them.`
       )
-      await refreshStats()
       await syncIngestState({
         processedThreadIds,
         lastFullIngestAt: new Date().toISOString(),
         totalThreadsDetected: gmailThreadCount ?? null,
+        historyId: pendingHistoryIdRef.current,
       })
+      pendingHistoryIdRef.current = null
+      emptiedThreadsRef.current = []
+      handledThreadsRef.current = []
+      await archiveActiveJob()
       setPreview(null)
       setProgressCurrent(0)
       setProgressTotal(0)
     } catch (error) {
-      console.error("Failed to ingest into Qdrant", error)
+      console.error("Failed to queue pairs for review", error)
       setStatusVariant("error")
       setStatusMessage(
-        error instanceof Error ? error.message : "Failed to ingest into Qdrant."
+        error instanceof Error
+          ? error.message
+          : "Failed to queue pairs for review."
       )
     } finally {
-      stopPolling()
-      setIsIngesting(false)
+      setIsQueueing(false)
     }
   }
 
@@ -590,7 +941,11 @@ export function InitialIngestPanel({
     })
   }
 
+  const backfill = ingestState?.backfill ?? null
+  const isBackfillActive = Boolean(backfill && !backfill.completedAt)
   const hasExistingData = !!pointCount && pointCount > 0
+  const isJobActive =
+    activeJob?.status === "running" || activeJob?.status === "paused"
 
   const processedThreadsCount = ingestState?.processedThreads ?? 0
   const totalThreadsDetected =
@@ -611,7 +966,7 @@ export function InitialIngestPanel({
             Initial inbox ingest
           </h2>
           <p className="text-sm text-muted-foreground">
-            Prepare a full-question preview, curate results, then ingest into Qdrant.
+            Prepare a full-question preview, curate results, then send them to the review queue.
           </p>
         </div>
         <span
@@ -685,6 +1040,174 @@ export function InitialIngestPanel({
         </div>
       </div>
 
+      <div className="mt-4">
+        <label
+          htmlFor="initial-ingest-scope-query"
+          className="text-sm font-medium text-foreground"
+        >
+          Ingestion scope
+        </label>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Limit ingestion to a label and a Gmail search expression, e.g. <code>from:@customer.com after:2024/01/01 -category:promotions</code>.
+        </p>
+        <div className="mt-2 flex flex-col gap-3 sm:flex-row sm:items-center">
+          <label htmlFor="initial-ingest-scope-label" className="sr-only">
+            Label
+          </label>
+          <select
+            id="initial-ingest-scope-label"
+            value={scopeDraft.labelId}
+            onChange={(event) =>
+              setScopeDraft((draft) => ({ ...draft, labelId: event.target.value }))
+            }
+            disabled={!isScopeEditing || isSavingScope}
+            className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">All mail</option>
+            {scopeDraft.labelId &&
+            !labels.some((label) => label.id === scopeDraft.labelId) ? (
+              <option value={scopeDraft.labelId}>
+                {formatLabelName(scopeDraft.labelId, labels)}
+              </option>
+            ) : null}
+            {labels.map((label) => (
+              <option key={label.id} value={label.id}>
+                {formatLabelName(label.id, labels)}
+              </option>
+            ))}
+          </select>
+          <Input
+            id="initial-ingest-scope-query"
+            value={scopeDraft.query}
+            onChange={(event) =>
+              setScopeDraft((draft) => ({ ...draft, query: event.target.value }))
+            }
+            disabled={!isScopeEditing || isSavingScope}
+            placeholder="Gmail search, e.g. from:@customer.com"
+          />
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {isScopeEditing ? (
+            <>
+              <Button
+                size="sm"
+                onClick={handleSaveScope}
+                disabled={isSavingScope}
+              >
+                {isSavingScope ? (
+                  <span className="inline-flex items-center gap-2">
+                    <Loader2 className="size-4 animate-spin" />
+                    Saving
+                  </span>
+                ) : (
+                  "Save scope"
+                )}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleCancelScope}
+                disabled={isSavingScope}
+              >
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsScopeEditing(true)}
+            >
+              Edit scope
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label
+          htmlFor="initial-ingest-backfill-start"
+          className="text-sm font-medium text-foreground"
+        >
+          Backfill
+        </label>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Ingest a date range window by window, oldest first. The end date is exclusive and defaults to today; for everything from 2022, use 2022-01-01 to 2023-01-01. Progress is saved, so a backfill can be resumed in a later session.
+        </p>
+        {backfill ? (
+          <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-foreground">
+              {backfill.start} – {backfill.end}:{" "}
+              {backfill.completedWindows}/{backfill.windowCount} windows done
+              {backfill.completedAt
+                ? " (complete)"
+                : backfill.currentWindow
+                ? `, next ${backfill.currentWindow.start} – ${backfill.currentWindow.end}`
+                : null}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleCancelBackfill}
+              disabled={isUpdatingBackfill || isJobActive}
+            >
+              {backfill.completedAt ? "Clear" : "Cancel backfill"}
+            </Button>
+          </div>
+        ) : (
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <Input
+              id="initial-ingest-backfill-start"
+              type="date"
+              aria-label="Backfill start"
+              value={backfillDraft.start}
+              onChange={(event) =>
+                setBackfillDraft((draft) => ({ ...draft, start: event.target.value }))
+              }
+              disabled={isUpdatingBackfill}
+              className="w-40"
+            />
+            <Input
+              type="date"
+              aria-label="Backfill end (exclusive)"
+              value={backfillDraft.end}
+              onChange={(event) =>
+                setBackfillDraft((draft) => ({ ...draft, end: event.target.value }))
+              }
+              disabled={isUpdatingBackfill}
+              className="w-40"
+            />
+            <Input
+              type="number"
+              min={1}
+              aria-label="Window size in days"
+              value={backfillDraft.windowDays}
+              onChange={(event) =>
+                setBackfillDraft((draft) => ({ ...draft, windowDays: event.target.value }))
+              }
+              disabled={isUpdatingBackfill}
+              className="w-24"
+            />
+            <span className="text-xs text-muted-foreground">days per window</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleStartBackfill}
+              disabled={isUpdatingBackfill || !backfillDraft.start}
+            >
+              {isUpdatingBackfill ? (
+                <span className="inline-flex items-center gap-2">
+                  <Loader2 className="size-4 animate-spin" />
+                  Starting
+                </span>
+              ) : (
+                "Start backfill"
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
       <div className="mt-4">
         <label
           htmlFor="initial-ingest-rules"
@@ -775,13 +1298,16 @@ export function InitialIngestPanel({
 
       <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
         <div className="text-xs text-muted-foreground">
+          {isBackfillActive && backfill?.currentWindow
+            ? `Preview works through the backfill, starting with ${backfill.currentWindow.start} – ${backfill.currentWindow.end}. `
+            : null}
           {effectivePreviewLimit
-            ? `Preview scans up to ${effectivePreviewLimit.toLocaleString()} threads.`
-            : "Preview scans your entire inbox."}
+            ? `Preview scans up to ${effectivePreviewLimit.toLocaleString()} threads in ${formatScope(savedScope, labels)}.`
+            : `Preview scans ${formatScope(savedScope, labels)}.`}
         </div>
         <div className="flex flex-wrap items-center gap-3">
-          <Button onClick={handleGeneratePreview} disabled={isGenerating || isIngesting || isRulesEditing || isSavingRules || isPreviewLimitEditing || isSavingPreviewLimit}>
-            {isGenerating ? (
+          <Button onClick={handleGeneratePreview} disabled={isGenerating || isJobActive || isQueueing || isRulesEditing || isSavingRules || isPreviewLimitEditing || isSavingPreviewLimit || isScopeEditing || isSavingScope}>
+            {isGenerating || activeJob?.status === "running" ? (
               <span className="inline-flex items-center gap-2">
                 <Loader2 className="size-4 animate-spin" />
                 Generating preview…
@@ -792,16 +1318,16 @@ export function InitialIngestPanel({
           </Button>
           <Button
             variant="secondary"
-            onClick={handleIngestSelected}
-            disabled={isGenerating || isIngesting || selectedQuestions === 0 || isRulesEditing || isSavingRules || isPreviewLimitEditing || isSavingPreviewLimit}
+            onClick={handleQueueSelected}
+            disabled={isGenerating || isJobActive || isQueueing || selectedQuestions === 0 || isRulesEditing || isSavingRules || isPreviewLimitEditing || isSavingPreviewLimit || isScopeEditing || isSavingScope}
           >
-            {isIngesting ? (
+            {isQueueing ? (
               <span className="inline-flex items-center gap-2">
                 <Loader2 className="size-4 animate-spin" />
-                Ingesting…
+                Queueing…
               </span>
             ) : (
-              `Ingest selected (${selectedQuestions})`
+              `Send to review (${selectedQuestions})`
             )}
           </Button>
         </div>
@@ -821,14 +1347,46 @@ export function InitialIngestPanel({
         </p>
       ) : null}
 
-      {isGenerating && progressTotal > 0 ? (
+      {reconnectRequired ? (
+        <Button asChild size="sm" variant="outline" className="mt-3">
+          <a href="/api/auth/google">Reconnect Google account</a>
+        </Button>
+      ) : null}
+
+      {isJobActive && progressTotal > 0 ? (
         <p className="text-xs text-muted-foreground">
           Preview progress: {Math.min(progressCurrent, progressTotal)} /
           {" "}
           {progressTotal}
+          {activeJob?.failed ? ` (${activeJob.failed} failed)` : null}
         </p>
       ) : null}
 
+      {activeJob && (isJobActive || activeJob.failed > 0) ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {activeJob.status === "running" ? (
+            <Button size="sm" variant="outline" onClick={() => handleJobAction("pause")}>
+              Pause
+            </Button>
+          ) : null}
+          {activeJob.status === "paused" ? (
+            <Button size="sm" variant="outline" onClick={() => handleJobAction("resume")}>
+              Resume
+            </Button>
+          ) : null}
+          {isJobActive ? (
+            <Button size="sm" variant="ghost" onClick={() => handleJobAction("cancel")}>
+              Cancel job
+            </Button>
+          ) : null}
+          {activeJob.status === "completed" && activeJob.failed > 0 ? (
+            <Button size="sm" variant="outline" onClick={() => handleJobAction("retry")} disabled={isQueueing}>
+              Retry failed ({activeJob.failed})
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+
       {preview ? (
         <div className="mt-6 space-y-4">
           <div className="flex flex-col gap-1 text-sm text-muted-foreground sm:flex-row sm:items-center sm:justify-between">
@@ -839,6 +1397,11 @@ export function InitialIngestPanel({
               {selectedThreads.toLocaleString()} threads selected - {selectedQuestions.toLocaleString()} questions selected
             </span>
           </div>
+          {preview.scope ? (
+            <p className="text-xs text-muted-foreground">
+              Scope: {formatScope(preview.scope, labels)}
+            </p>
+          ) : null}
           <div
             className="space-y-4 overflow-y-auto rounded-lg border border-border bg-background/60 p-4"
             style={{ maxHeight: "28rem" }}
@@ -862,6 +1425,11 @@ export function InitialIngestPanel({
                       <p className="text-xs text-muted-foreground">
                         {thread.questions.length} question(s)
                       </p>
+                      {formatTruncation(thread.truncation) ? (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                          {formatTruncation(thread.truncation)}
+                        </p>
+                      ) : null}
                     </div>
                     <Button
                       variant="ghost"
@@ -895,6 +1463,7 @@ export function InitialIngestPanel({
                                 {qa.answer}
                               </p>
                             </div>
+                            <QAProvenance entry={qa} />
                           </div>
                           <Button
                             variant="ghost"
@@ -921,3 +1490,40 @@ export function InitialIngestPanel({
     </div>
   )
 }
+
+function formatLabelName(labelId: string, labels: GmailLabel[]) {
+  const label = labels.find((item) => item.id === labelId)
+  if (!label) {
+    return labelId
+  }
+  if (label.type === "user") {
+    return label.name
+  }
+  // System labels come back as INBOX, CATEGORY_UPDATES…
+  const name = label.name.replace(/^CATEGORY_/, "").toLowerCase()
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+function formatScope(scope: GmailIngestScope, labels: GmailLabel[]) {
+  const labelPart = scope.labelIds.length
+    ? scope.labelIds.map((id) => formatLabelName(id, labels)).join(" + ")
+    : "all mail"
+  return scope.query ? `${labelPart} matching "${scope.query}"` : labelPart
+}
+
+/** Notes when a long thread was split into windows or messages were cut. */
+function formatTruncation(truncation?: ExtractionTruncationReport) {
+  if (!truncation) {
+    return null
+  }
+  const parts: string[] = []
+  if (truncation.windows > 1) {
+    parts.push(`Split into ${truncation.windows} windows`)
+  }
+  if (truncation.truncatedMessageIds.length) {
+    parts.push(
+      `${truncation.truncatedMessageIds.length} message(s) truncated to ${truncation.messageTokenLimit} tokens`
+    )
+  }
+  return parts.length ? parts.join(" · ") : null
+}
@@ -0,0 +1,596 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Download, Loader2, Pencil, Trash2 } from "lucide-react"
+
+import type { GmailThreadDetail } from "@/lib/google-auth"
+import type { BrowsedQAPoint } from "@/lib/qa-points"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { MailboxFilter } from "@/components/mailbox-filter"
+import { QAProvenance } from "@/components/qa-provenance"
+
+interface KnowledgeBasePanelProps {
+  mailboxes?: string[]
+  categories?: readonly string[]
+}
+
+interface BrowseFilters {
+  mailbox: string
+  threadId: string
+  category: string
+  from: string
+  to: string
+}
+
+interface BrowseResponse {
+  points: BrowsedQAPoint[]
+  nextOffset: string | null
+}
+
+interface EditDraft {
+  pointId: string
+  question: string
+  answer: string
+}
+
+const EXPORT_FORMATS = [
+  { format: "jsonl", label: "JSONL" },
+  { format: "csv", label: "CSV" },
+  { format: "markdown", label: "Markdown FAQ" },
+]
+
+const EMPTY_FILTERS: BrowseFilters = {
+  mailbox: "",
+  threadId: "",
+  category: "",
+  from: "",
+  to: "",
+}
+
+export function KnowledgeBasePanel({
+  mailboxes = [],
+  categories = [],
+}: KnowledgeBasePanelProps) {
+  const [filters, setFilters] = useState<BrowseFilters>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] =
+    useState<BrowseFilters>(EMPTY_FILTERS)
+  // Offsets of the pages before the current one, for going back.
+  const [offsets, setOffsets] = useState<string[]>([])
+  const [offset, setOffset] = useState<string | null>(null)
+  const [result, setResult] = useState<BrowseResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<EditDraft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [sourcePoint, setSourcePoint] = useState<BrowsedQAPoint | null>(null)
+  const [sourceThread, setSourceThread] = useState<GmailThreadDetail | null>(
+    null
+  )
+  const [sourceError, setSourceError] = useState<string | null>(null)
+
+  const loadPage = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const params = buildFilterParams(appliedFilters)
+    if (offset) {
+      params.set("offset", offset)
+    }
+
+    try {
+      const response = await fetch(`/api/qdrant/points?${params.toString()}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to load knowledge base entries.")
+      }
+      setResult((await response.json()) as BrowseResponse)
+    } catch (loadError) {
+      console.error("Failed to browse knowledge base", loadError)
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Failed to load knowledge base entries."
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [appliedFilters, offset])
+
+  useEffect(() => {
+    loadPage().catch(() => {
+      /* handled */
+    })
+  }, [loadPage])
+
+  useEffect(() => {
+    if (!sourcePoint?.threadUrl) {
+      return
+    }
+
+    const controller = new AbortController()
+    setSourceThread(null)
+    setSourceError(null)
+
+    fetch(sourcePoint.threadUrl, {
+      credentials: "include",
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}))
+          throw new Error(data.error ?? "Unable to load thread")
+        }
+        return response.json()
+      })
+      .then((data: GmailThreadDetail) => setSourceThread(data))
+      .catch((fetchError: unknown) => {
+        if (
+          fetchError instanceof DOMException &&
+          fetchError.name === "AbortError"
+        ) {
+          return
+        }
+        console.error(fetchError)
+        setSourceError(
+          fetchError instanceof Error
+            ? fetchError.message
+            : "Unable to load thread"
+        )
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [sourcePoint])
+
+  const handleApplyFilters = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setAppliedFilters(filters)
+    setOffsets([])
+    setOffset(null)
+  }
+
+  const handleNextPage = () => {
+    if (!result?.nextOffset) return
+    setOffsets((prev) => [...prev, offset ?? ""])
+    setOffset(result.nextOffset)
+  }
+
+  const handlePreviousPage = () => {
+    setOffset(offsets[offsets.length - 1] || null)
+    setOffsets((prev) => prev.slice(0, -1))
+  }
+
+  const runMutation = async (
+    key: string,
+    url: string,
+    init: RequestInit,
+    fallbackError: string
+  ) => {
+    setPendingKey(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(url, init)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? fallbackError)
+      }
+      const data = await response.json()
+      await loadPage()
+      return data
+    } catch (mutationError) {
+      console.error(fallbackError, mutationError)
+      setError(
+        mutationError instanceof Error ? mutationError.message : fallbackError
+      )
+      return null
+    } finally {
+      setPendingKey(null)
+    }
+  }
+
+  const handleSaveEdit = async (point: BrowsedQAPoint) => {
+    if (!editDraft) return
+
+    const data = await runMutation(
+      point.id,
+      buildPointUrl(point),
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          question: editDraft.question,
+          answer: editDraft.answer,
+        }),
+      },
+      "Failed to update the entry."
+    )
+    if (data) {
+      setEditDraft(null)
+      setMessage("Entry updated and re-embedded.")
+    }
+  }
+
+  const handleDeletePoint = async (point: BrowsedQAPoint) => {
+    if (!window.confirm("Delete this entry from the knowledge base?")) {
+      return
+    }
+
+    const data = await runMutation(
+      point.id,
+      buildPointUrl(point),
+      { method: "DELETE" },
+      "Failed to delete the entry."
+    )
+    if (data) {
+      setMessage("Entry deleted.")
+    }
+  }
+
+  const handleDeleteThread = async (point: BrowsedQAPoint) => {
+    if (
+      !window.confirm(
+        "Delete every entry extracted from this thread from the knowledge base?"
+      )
+    ) {
+      return
+    }
+
+    const params = new URLSearchParams({ threadId: point.threadId })
+    if (point.mailbox) {
+      params.set("mailbox", point.mailbox)
+    }
+
+    const data = await runMutation(
+      point.id,
+      `/api/qdrant/points?${params.toString()}`,
+      { method: "DELETE" },
+      "Failed to delete thread entries."
+    )
+    if (data) {
+      setMessage(`Deleted ${data.deleted} entries of the thread.`)
+    }
+  }
+
+  const updateFilter = (key: keyof BrowseFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const isBusy = isLoading || pendingKey !== null
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-foreground">
+            Browse knowledge base
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Page through stored Q&amp;A entries, correct them in place or remove
+            the ones that should not be answered from.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Download className="size-3" />
+          Export filtered entries:
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={buildExportUrl(appliedFilters, format)}
+              className="font-medium text-primary hover:underline"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleApplyFilters}
+        className="mt-4 flex flex-col gap-3 sm:flex-row sm:flex-wrap sm:items-center"
+      >
+        <MailboxFilter
+          id="kb-mailbox"
+          mailboxes={mailboxes}
+          value={filters.mailbox}
+          onChange={(value) => updateFilter("mailbox", value)}
+          disabled={isBusy}
+        />
+        <Input
+          value={filters.threadId}
+          onChange={(event) => updateFilter("threadId", event.target.value)}
+          placeholder="Thread ID"
+          className="sm:w-48"
+          disabled={isBusy}
+        />
+        <label htmlFor="kb-category" className="sr-only">
+          Category
+        </label>
+        <select
+          id="kb-category"
+          value={filters.category}
+          onChange={(event) => updateFilter("category", event.target.value)}
+          disabled={isBusy}
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm capitalize text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          <option value="">All categories</option>
+          {categories.map((category) => (
+            <option key={category} value={category}>
+              {category}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Answered from
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(event) => updateFilter("from", event.target.value)}
+            className="w-auto"
+            disabled={isBusy}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          to
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(event) => updateFilter("to", event.target.value)}
+            className="w-auto"
+            disabled={isBusy}
+          />
+        </label>
+        <Button type="submit" variant="secondary" disabled={isBusy}>
+          Apply filters
+        </Button>
+      </form>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+      {message ? (
+        <p className="mt-3 text-sm text-muted-foreground">{message}</p>
+      ) : null}
+
+      <div className="mt-6 space-y-3">
+        {result && !result.points.length ? (
+          <p className="text-sm text-muted-foreground">
+            No stored entries match these filters.
+          </p>
+        ) : null}
+        {!result && isLoading ? (
+          <p className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Loading entries…
+          </p>
+        ) : null}
+
+        {result?.points.map((point) => {
+          const isEditing = editDraft?.pointId === point.id
+          const isPending = pendingKey === point.id
+
+          return (
+            <article
+              key={point.id}
+              className="rounded-lg border border-border bg-background/60 p-4"
+            >
+              {isEditing ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editDraft.question}
+                    onChange={(event) =>
+                      setEditDraft({
+                        ...editDraft,
+                        question: event.target.value,
+                      })
+                    }
+                    rows={2}
+                    disabled={isPending}
+                  />
+                  <Textarea
+                    value={editDraft.answer}
+                    onChange={(event) =>
+                      setEditDraft({ ...editDraft, answer: event.target.value })
+                    }
+                    rows={4}
+                    disabled={isPending}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSaveEdit(point)}
+                      disabled={
+                        isBusy ||
+                        !editDraft.question.trim() ||
+                        !editDraft.answer.trim()
+                      }
+                    >
+                      {isPending ? (
+                        <Loader2 className="mr-2 size-4 animate-spin" />
+                      ) : null}
+                      Save
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEditDraft(null)}
+                      disabled={isPending}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm font-medium text-foreground">
+                    {point.question}
+                  </p>
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    {point.answer}
+                  </p>
+                </>
+              )}
+
+              <div className="mt-3">
+                <QAProvenance entry={point} />
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Thread {point.threadId}
+                {point.mailbox ? ` • ${point.mailbox}` : ""}
+                {point.source === "import" ? " • imported" : ""}
+              </p>
+
+              {!isEditing ? (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {point.threadUrl ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSourcePoint(point)}
+                    >
+                      View source thread
+                    </Button>
+                  ) : null}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setEditDraft({
+                        pointId: point.id,
+                        question: point.question,
+                        answer: point.answer,
+                      })
+                    }
+                    disabled={isBusy}
+                  >
+                    <Pencil className="mr-2 size-3" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDeletePoint(point)}
+                    disabled={isBusy}
+                  >
+                    <Trash2 className="mr-2 size-3" />
+                    Delete
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDeleteThread(point)}
+                    disabled={isBusy}
+                  >
+                    Delete thread entries
+                  </Button>
+                </div>
+              ) : null}
+            </article>
+          )
+        })}
+      </div>
+
+      {result && (offsets.length || result.nextOffset) ? (
+        <div className="mt-4 flex items-center justify-between">
+          <Button
+            variant="outline"
+            onClick={handlePreviousPage}
+            disabled={isBusy || !offsets.length}
+          >
+            Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Page {offsets.length + 1}
+          </span>
+          <Button
+            variant="outline"
+            onClick={handleNextPage}
+            disabled={isBusy || !result.nextOffset}
+          >
+            Next
+          </Button>
+        </div>
+      ) : null}
+
+      <Dialog
+        open={sourcePoint !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSourcePoint(null)
+          }
+        }}
+      >
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {sourceThread?.subject ?? "Source thread"}
+            </DialogTitle>
+            <DialogDescription>
+              The conversation this entry was extracted from.
+            </DialogDescription>
+          </DialogHeader>
+          {sourceError ? (
+            <p className="py-6 text-sm text-destructive">{sourceError}</p>
+          ) : sourceThread ? (
+            <div className="space-y-4">
+              {sourceThread.messages.map((message) => (
+                <article
+                  key={message.id}
+                  className="rounded-lg border border-border bg-muted/30 p-4"
+                >
+                  <p className="text-xs text-muted-foreground">
+                    {message.from}
+                    {message.date ? ` • ${message.date}` : ""}
+                  </p>
+                  <div className="mt-2 whitespace-pre-wrap text-sm leading-relaxed text-foreground">
+                    {message.bodyText || "No message body available."}
+                  </div>
+                </article>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+              <Loader2 className="size-4 animate-spin" />
+              Loading thread...
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function buildPointUrl(point: BrowsedQAPoint) {
+  const url = `/api/qdrant/points/${encodeURIComponent(point.id)}`
+  return point.mailbox
+    ? `${url}?mailbox=${encodeURIComponent(point.mailbox)}`
+    : url
+}
+
+function buildFilterParams(filters: BrowseFilters) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) {
+      params.set(key, value.trim())
+    }
+  }
+  return params
+}
+
+function buildExportUrl(filters: BrowseFilters, format: string) {
+  const params = buildFilterParams(filters)
+  params.set("format", format)
+  return `/api/export?${params.toString()}`
+}
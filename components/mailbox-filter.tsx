@@ -0,0 +1,43 @@
+"use client"
+
+interface MailboxFilterProps {
+  id: string
+  mailboxes: string[]
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+export function MailboxFilter({
+  id,
+  mailboxes,
+  value,
+  onChange,
+  disabled,
+}: MailboxFilterProps) {
+  if (mailboxes.length < 2) {
+    return null
+  }
+
+  return (
+    <>
+      <label htmlFor={id} className="sr-only">
+        Mailbox
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={disabled}
+        className="h-10 rounded-md border border-input bg-background px-3 text-sm text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <option value="">All mailboxes</option>
+        {mailboxes.map((mailbox) => (
+          <option key={mailbox} value={mailbox}>
+            {mailbox}
+          </option>
+        ))}
+      </select>
+    </>
+  )
+}
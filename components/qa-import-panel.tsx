@@ -0,0 +1,140 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Loader2, Upload } from "lucide-react"
+
+import type { QAImportResult } from "@/lib/qa-import"
+import { Button } from "@/components/ui/button"
+
+const MAX_LISTED_ERRORS = 50
+
+export function QAImportPanel() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [result, setResult] = useState<QAImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleImport = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!file) {
+      setError("Choose a JSONL or CSV file to import.")
+      return
+    }
+
+    setIsImporting(true)
+    setError(null)
+    setResult(null)
+
+    try {
+      const form = new FormData()
+      form.append("file", file)
+
+      const response = await fetch("/api/import", {
+        method: "POST",
+        body: form,
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (Array.isArray(data.errors)) {
+        setResult(data as QAImportResult)
+      }
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to import the file.")
+      }
+
+      setFile(null)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    } catch (importError) {
+      console.error("Import failed", importError)
+      setError(
+        importError instanceof Error
+          ? importError.message
+          : "Failed to import the file."
+      )
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-foreground">
+          Import Q&amp;A pairs
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Add curated answers from a JSONL or CSV file with{" "}
+          <code>question</code> and <code>answer</code> fields, or re-import an
+          earlier export. Importing the same rows again updates them instead of
+          adding duplicates; rows whose <code>threadId</code> names a Gmail
+          thread are rejected.
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleImport}
+        className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center"
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".jsonl,.ndjson,.csv"
+          onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+          disabled={isImporting}
+          className="text-sm text-muted-foreground file:mr-3 file:rounded-md file:border file:border-input file:bg-background file:px-3 file:py-2 file:text-sm file:text-foreground"
+        />
+        <Button type="submit" disabled={isImporting || !file}>
+          {isImporting ? (
+            <span className="inline-flex items-center gap-2">
+              <Loader2 className="size-4 animate-spin" />
+              Importing…
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-2">
+              <Upload className="size-4" />
+              Import
+            </span>
+          )}
+        </Button>
+      </form>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+
+      {result ? (
+        <div className="mt-4 space-y-2">
+          {result.imported ? (
+            <p className="text-sm text-emerald-600 dark:text-emerald-400">
+              Imported {result.imported} pairs
+              {result.collection
+                ? ` into collection "${result.collection}"`
+                : ""}
+              .
+            </p>
+          ) : null}
+          {result.errors.length ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/5 p-3">
+              <p className="text-sm font-medium text-destructive">
+                {result.errors.length} row(s) skipped
+              </p>
+              <ul className="mt-2 space-y-1 text-xs text-destructive">
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((rowError) => (
+                  <li key={`${rowError.row}-${rowError.error}`}>
+                    Line {rowError.row}: {rowError.error}
+                  </li>
+                ))}
+              </ul>
+              {result.errors.length > MAX_LISTED_ERRORS ? (
+                <p className="mt-1 text-xs text-destructive">
+                  and {result.errors.length - MAX_LISTED_ERRORS} more.
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  )
+}
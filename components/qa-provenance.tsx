@@ -0,0 +1,48 @@
+import type { ThreadQAEntry } from "@/lib/openai"
+
+interface QAProvenanceProps {
+  entry: ThreadQAEntry
+}
+
+/**
+ * One-line summary of who asked and answered an extracted question, when, and
+ * how confident the model was. Renders nothing for entries without metadata.
+ */
+export function QAProvenance({ entry }: QAProvenanceProps) {
+  const parts = [
+    entry.askedBy ? `Asked by ${entry.askedBy}` : null,
+    entry.answeredBy ? `Answered by ${entry.answeredBy}` : null,
+    entry.answeredAt ? formatDate(entry.answeredAt) : null,
+    typeof entry.confidence === "number"
+      ? `${Math.round(entry.confidence * 100)}% confidence`
+      : null,
+  ].filter(Boolean)
+
+  if (!parts.length && !entry.category) {
+    return null
+  }
+
+  return (
+    <p className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      {entry.category ? (
+        <span className="rounded-full bg-muted px-2 py-0.5 font-medium capitalize">
+          {entry.category}
+        </span>
+      ) : null}
+      {parts.join(" • ")}
+    </p>
+  )
+}
+
+function formatDate(value: string) {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    return value
+  }
+
+  return date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
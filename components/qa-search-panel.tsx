@@ -0,0 +1,196 @@
+"use client"
+
+import { useState } from "react"
+import { ExternalLink, Loader2, Search } from "lucide-react"
+
+import type { QASearchHit } from "@/lib/qdrant"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { MailboxFilter } from "@/components/mailbox-filter"
+import { QAProvenance } from "@/components/qa-provenance"
+
+interface SearchResponse {
+  query: string
+  collection: string
+  total: number
+  hits: QASearchHit[]
+}
+
+interface QASearchPanelProps {
+  mailboxes?: string[]
+}
+
+export function QASearchPanel({ mailboxes = [] }: QASearchPanelProps) {
+  const [query, setQuery] = useState("")
+  const [mailbox, setMailbox] = useState("")
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<SearchResponse | null>(null)
+
+  const handleSearch = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    const trimmed = query.trim()
+    if (!trimmed) {
+      setError("Enter a question to search the knowledge base.")
+      return
+    }
+
+    setIsSearching(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/qdrant/search", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          query: trimmed,
+          mailbox: mailbox || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to search the knowledge base.")
+      }
+
+      const data = (await response.json()) as SearchResponse
+      setResult(data)
+    } catch (searchError) {
+      console.error("Knowledge base search failed", searchError)
+      setResult(null)
+      setError(
+        searchError instanceof Error
+          ? searchError.message
+          : "Failed to search the knowledge base."
+      )
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold text-foreground">
+          Search knowledge base
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Find previously ingested answers by meaning, not just keywords.
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSearch}
+        className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center"
+      >
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="e.g. What is the refund window for annual plans?"
+          disabled={isSearching}
+        />
+        <MailboxFilter
+          id="qa-search-mailbox"
+          mailboxes={mailboxes}
+          value={mailbox}
+          onChange={setMailbox}
+          disabled={isSearching}
+        />
+        <Button type="submit" disabled={isSearching}>
+          {isSearching ? (
+            <span className="inline-flex items-center gap-2">
+              <Loader2 className="size-4 animate-spin" />
+              Searching…
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-2">
+              <Search className="size-4" />
+              Search
+            </span>
+          )}
+        </Button>
+      </form>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+
+      {result ? (
+        <div className="mt-6 space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {result.total
+              ? `${result.total} matching answer(s) in "${result.collection}".`
+              : "No stored answers matched this query."}
+          </p>
+          {result.hits.map((hit) => (
+            <article
+              key={hit.id}
+              className="rounded-lg border border-border bg-background/60 p-4"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2">
+                  <div>
+                    <p className="text-xs font-medium uppercase text-muted-foreground">
+                      Question
+                    </p>
+                    <p className="text-sm text-foreground">{hit.question}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium uppercase text-muted-foreground">
+                      Answer
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {hit.answer}
+                    </p>
+                  </div>
+                  <QAProvenance entry={hit} />
+                </div>
+                <span className="shrink-0 rounded-full bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                  {(hit.score * 100).toFixed(0)}%
+                </span>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  {hit.createdAt
+                    ? `Thread created ${formatTimestamp(hit.createdAt)}`
+                    : "Creation date unavailable"}
+                  {hit.mailbox ? ` • ${hit.mailbox}` : null}
+                  {hit.sourceThreadIds && hit.sourceThreadIds.length > 1
+                    ? ` • asked in ${hit.sourceThreadIds.length} threads`
+                    : null}
+                </span>
+                {!hit.threadUrl ? (
+                  <span>Imported</span>
+                ) : (
+                  <a
+                    href={hit.threadUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
+                  >
+                    View source thread
+                    <ExternalLink className="size-3" />
+                  </a>
+                )}
+              </div>
+            </article>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  )
+}
+
+function formatTimestamp(value: string) {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    return value
+  }
+
+  return date.toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
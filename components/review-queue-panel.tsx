@@ -0,0 +1,563 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Check, Loader2, Pencil, RotateCcw, X } from "lucide-react"
+
+import type {
+  ReviewAction,
+  ReviewAuditEntry,
+  ReviewItem,
+  ReviewQueueSummary,
+} from "@/lib/review-queue"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { QAProvenance } from "@/components/qa-provenance"
+
+interface ReviewQueueResponse {
+  items: ReviewItem[]
+  summary: ReviewQueueSummary
+}
+
+interface ReviewThreadGroup {
+  threadId: string
+  subject: string
+  items: ReviewItem[]
+}
+
+interface EditDraft {
+  itemId: string
+  question: string
+  answer: string
+}
+
+interface RejectDraft {
+  itemId: string
+  reason: string
+}
+
+const OPEN_STATUSES = "pending,approved"
+const ALL_STATUSES = "pending,approved,rejected,ingested"
+
+export function ReviewQueuePanel() {
+  const [items, setItems] = useState<ReviewItem[]>([])
+  const [summary, setSummary] = useState<ReviewQueueSummary | null>(null)
+  const [showResolved, setShowResolved] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isIngesting, setIsIngesting] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<EditDraft | null>(null)
+  const [rejectDraft, setRejectDraft] = useState<RejectDraft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(
+        `/api/review?status=${showResolved ? ALL_STATUSES : OPEN_STATUSES}`
+      )
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to load the review queue.")
+      }
+      const data = (await response.json()) as ReviewQueueResponse
+      setItems(data.items)
+      setSummary(data.summary)
+      setError(null)
+    } catch (loadError) {
+      console.error("Failed to load review queue", loadError)
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Failed to load the review queue."
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }, [showResolved])
+
+  useEffect(() => {
+    loadQueue().catch(() => {
+      /* handled */
+    })
+  }, [loadQueue])
+
+  const groups = useMemo(() => {
+    const byThread = new Map<string, ReviewThreadGroup>()
+    for (const item of items) {
+      const group = byThread.get(item.threadId) ?? {
+        threadId: item.threadId,
+        subject: item.subject,
+        items: [],
+      }
+      group.items.push(item)
+      byThread.set(item.threadId, group)
+    }
+    return Array.from(byThread.values())
+  }, [items])
+
+  const runRequest = async (
+    key: string,
+    request: () => Promise<Response>,
+    fallbackError: string
+  ) => {
+    setBusyKey(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await request()
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? fallbackError)
+      }
+      const data = await response.json()
+      await loadQueue()
+      return data
+    } catch (requestError) {
+      console.error(fallbackError, requestError)
+      setError(
+        requestError instanceof Error ? requestError.message : fallbackError
+      )
+      return null
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const applyAction = async (
+    action: ReviewAction,
+    selection: { itemIds?: string[]; threadIds?: string[]; reason?: string },
+    key: string
+  ) => {
+    const data = await runRequest(
+      key,
+      () =>
+        fetch(`/api/review/${action}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(selection),
+        }),
+      "Unable to update the review queue."
+    )
+    if (data && action === "reject") {
+      setRejectDraft(null)
+    }
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editDraft) return
+
+    const data = await runRequest(
+      editDraft.itemId,
+      () =>
+        fetch(`/api/review/items/${encodeURIComponent(editDraft.itemId)}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            question: editDraft.question,
+            answer: editDraft.answer,
+          }),
+        }),
+      "Unable to edit the review entry."
+    )
+    if (data) {
+      setEditDraft(null)
+    }
+  }
+
+  const handleIngestApproved = async () => {
+    setIsIngesting(true)
+    const data = await runRequest(
+      "ingest",
+      () =>
+        fetch("/api/qdrant/upsert", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ approved: true }),
+        }),
+      "Failed to ingest approved entries."
+    )
+    if (data) {
+      setMessage(
+        `Ingested ${data.upserted} approved pairs into collection "${data.collection}".`
+      )
+    }
+    setIsIngesting(false)
+  }
+
+  const isBusy = busyKey !== null
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold text-foreground">
+            Review queue
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Extracted pairs wait here until a reviewer approves them. Only
+            approved pairs are ingested into the knowledge base.
+          </p>
+          {summary ? (
+            <p className="text-xs text-muted-foreground">
+              {summary.pending} pending • {summary.approved} approved •{" "}
+              {summary.rejected} rejected • {summary.ingested} ingested
+            </p>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(event) => setShowResolved(event.target.checked)}
+            />
+            Show rejected and ingested
+          </label>
+          <Button
+            variant="outline"
+            onClick={() => loadQueue()}
+            disabled={isLoading || isBusy}
+          >
+            Refresh
+          </Button>
+          <Button
+            onClick={handleIngestApproved}
+            disabled={isBusy || !summary?.approved}
+          >
+            {isIngesting ? (
+              <span className="inline-flex items-center gap-2">
+                <Loader2 className="size-4 animate-spin" />
+                Ingesting…
+              </span>
+            ) : (
+              `Ingest approved (${summary?.approved ?? 0})`
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {error ? <p className="mt-3 text-sm text-destructive">{error}</p> : null}
+      {message ? (
+        <p className="mt-3 text-sm text-emerald-600 dark:text-emerald-400">
+          {message}
+        </p>
+      ) : null}
+
+      <div className="mt-6 space-y-4">
+        {!groups.length ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading
+              ? "Loading review queue…"
+              : "Nothing is waiting for review."}
+          </p>
+        ) : null}
+
+        {groups.map((group) => {
+          const pendingCount = group.items.filter(
+            (item) => item.status === "pending"
+          ).length
+
+          return (
+            <section
+              key={group.threadId}
+              className="rounded-lg border border-border bg-background/60 p-4"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">
+                  {group.subject}
+                </p>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() =>
+                    applyAction(
+                      "approve",
+                      { threadIds: [group.threadId] },
+                      group.threadId
+                    )
+                  }
+                  disabled={isBusy || pendingCount === 0}
+                >
+                  {busyKey === group.threadId ? (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  ) : (
+                    <Check className="mr-2 size-4" />
+                  )}
+                  Approve thread ({pendingCount})
+                </Button>
+              </div>
+
+              <ul className="mt-3 space-y-3">
+                {group.items.map((item) => {
+                  const isEditing = editDraft?.itemId === item.id
+                  const isRejecting = rejectDraft?.itemId === item.id
+                  const isOpen =
+                    item.status === "pending" || item.status === "approved"
+
+                  return (
+                    <li
+                      key={item.id}
+                      className="rounded-md border border-border p-3"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${formatStatusClassName(
+                            item.status
+                          )}`}
+                        >
+                          {item.status}
+                        </span>
+                        {isOpen && !isEditing && !isRejecting ? (
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() =>
+                                setEditDraft({
+                                  itemId: item.id,
+                                  question: item.question,
+                                  answer: item.answer,
+                                })
+                              }
+                              disabled={isBusy}
+                            >
+                              <Pencil className="mr-2 size-3" />
+                              Edit
+                            </Button>
+                            {item.status === "pending" ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  applyAction(
+                                    "approve",
+                                    { itemIds: [item.id] },
+                                    item.id
+                                  )
+                                }
+                                disabled={isBusy}
+                              >
+                                <Check className="mr-2 size-3" />
+                                Approve
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  applyAction(
+                                    "reopen",
+                                    { itemIds: [item.id] },
+                                    item.id
+                                  )
+                                }
+                                disabled={isBusy}
+                              >
+                                <RotateCcw className="mr-2 size-3" />
+                                Back to pending
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() =>
+                                setRejectDraft({ itemId: item.id, reason: "" })
+                              }
+                              disabled={isBusy}
+                            >
+                              <X className="mr-2 size-3" />
+                              Reject
+                            </Button>
+                          </div>
+                        ) : null}
+                        {item.status === "rejected" ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              applyAction(
+                                "reopen",
+                                { itemIds: [item.id] },
+                                item.id
+                              )
+                            }
+                            disabled={isBusy}
+                          >
+                            <RotateCcw className="mr-2 size-3" />
+                            Reopen
+                          </Button>
+                        ) : null}
+                      </div>
+
+                      {isEditing ? (
+                        <div className="mt-3 space-y-2">
+                          <Textarea
+                            value={editDraft.question}
+                            onChange={(event) =>
+                              setEditDraft({
+                                ...editDraft,
+                                question: event.target.value,
+                              })
+                            }
+                            rows={2}
+                            disabled={isBusy}
+                          />
+                          <Textarea
+                            value={editDraft.answer}
+                            onChange={(event) =>
+                              setEditDraft({
+                                ...editDraft,
+                                answer: event.target.value,
+                              })
+                            }
+                            rows={4}
+                            disabled={isBusy}
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={handleSaveEdit}
+                              disabled={
+                                isBusy ||
+                                !editDraft.question.trim() ||
+                                !editDraft.answer.trim()
+                              }
+                            >
+                              Save
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditDraft(null)}
+                              disabled={isBusy}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mt-2 space-y-1">
+                          <p className="text-sm text-foreground">
+                            {item.question}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {item.answer}
+                          </p>
+                        </div>
+                      )}
+
+                      {isRejecting ? (
+                        <div className="mt-3 flex flex-col gap-2 sm:flex-row">
+                          <Input
+                            value={rejectDraft.reason}
+                            onChange={(event) =>
+                              setRejectDraft({
+                                ...rejectDraft,
+                                reason: event.target.value,
+                              })
+                            }
+                            placeholder="Reason, e.g. answer is out of date"
+                            disabled={isBusy}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              applyAction(
+                                "reject",
+                                {
+                                  itemIds: [item.id],
+                                  reason: rejectDraft.reason,
+                                },
+                                item.id
+                              )
+                            }
+                            disabled={isBusy || !rejectDraft.reason.trim()}
+                          >
+                            Reject
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRejectDraft(null)}
+                            disabled={isBusy}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : null}
+
+                      {item.rejectionReason && item.status === "rejected" ? (
+                        <p className="mt-2 text-xs text-destructive">
+                          Rejected: {item.rejectionReason}
+                        </p>
+                      ) : null}
+
+                      <div className="mt-2">
+                        <QAProvenance entry={item} />
+                      </div>
+
+                      <details className="mt-2 text-xs text-muted-foreground">
+                        <summary className="cursor-pointer">
+                          History ({item.history.length})
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {item.history.map((entry, index) => (
+                            <li key={index}>{formatAuditEntry(entry)}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function formatStatusClassName(status: ReviewItem["status"]) {
+  switch (status) {
+    case "approved":
+      return "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300"
+    case "rejected":
+      return "bg-destructive/10 text-destructive"
+    case "ingested":
+      return "bg-primary/10 text-primary"
+    default:
+      return "bg-muted text-muted-foreground"
+  }
+}
+
+function formatAuditEntry(entry: ReviewAuditEntry) {
+  const date = new Date(entry.at)
+  const when = Number.isNaN(date.getTime())
+    ? entry.at
+    : date.toLocaleString(undefined, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+
+  const edited = entry.previous
+    ? ` (was: ${Object.entries(entry.previous)
+        .map(([field, value]) => `${field} "${value}"`)
+        .join(", ")})`
+    : ""
+  const reason = entry.reason ? `: ${entry.reason}` : ""
+
+  return `${when} • ${entry.action} by ${entry.actor}${reason}${edited}`
+}
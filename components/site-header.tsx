@@ -1,13 +1,24 @@
 import { siteConfig } from "@/config/site"
+import type { SessionAccountSummary } from "@/lib/session"
+import { AccountSwitcher } from "@/components/account-switcher"
 import { MainNav } from "@/components/main-nav"
 import { ThemeToggle } from "@/components/theme-toggle"
 
-export function SiteHeader() {
+interface SiteHeaderProps {
+  accounts?: SessionAccountSummary[]
+  activeMailbox?: string | null
+}
+
+export function SiteHeader({
+  accounts = [],
+  activeMailbox = null,
+}: SiteHeaderProps) {
   return (
     <header className="sticky top-0 z-40 w-full border-b bg-background">
       <div className="container flex h-16 items-center justify-between">
         <MainNav items={siteConfig.mainNav} />
         <div className="flex items-center gap-2">
+          <AccountSwitcher accounts={accounts} activeMailbox={activeMailbox} />
           <ThemeToggle />
         </div>
       </div>
@@ -3,7 +3,9 @@
 import { useEffect, useMemo, useState } from "react"
 
 import type { GmailThreadSummary } from "@/lib/google-auth"
+import type { ThreadFingerprint } from "@/lib/ingest-state"
 import type { ThreadQAEntry } from "@/lib/openai"
+import { readServerSentEvents } from "@/lib/sse"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 
@@ -19,6 +21,7 @@ interface SyncResponse {
     subject: string
     createdAt?: string | null
     questions: ThreadQAEntry[]
+    fingerprint?: ThreadFingerprint
   }>
 }
 
@@ -26,8 +29,12 @@ type ThreadStatus =
   | { status: "idle" }
   | { status: "queued" }
   | { status: "processing" }
-  | { status: "success"; questions: ThreadQAEntry[] }
-  | { status: "error"; error: string }
+  | {
+      status: "success"
+      questions: ThreadQAEntry[]
+      validationErrors?: string[]
+    }
+  | { status: "error"; error: string; code?: string; retryable?: boolean }
 
 function createInitialStatusMap(
   threads: GmailThreadSummary[]
@@ -53,8 +60,11 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
     setThreadStatuses(createInitialStatusMap(threads))
   }, [threads])
 
-  const handleProcess = async () => {
-    if (!threads.length) {
+  const processThreads = async (
+    targets: GmailThreadSummary[],
+    previousResults: SyncResponse["details"] = []
+  ) => {
+    if (!targets.length) {
       setError("No threads available to process.")
       return
     }
@@ -63,97 +73,89 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
     setError(null)
     setResult(null)
     setIngestMessage(null)
-    setThreadStatuses(
-      threads.reduce<Record<string, ThreadStatus>>((acc, thread) => {
-        acc[thread.id] = { status: "queued" }
-        return acc
-      }, {})
-    )
-
-    const processedResults: Array<{
-      threadId: string
-      subject: string
-      createdAt?: string | null
-      questions: ThreadQAEntry[]
-    }> = []
-
-    const concurrencyLimit = Math.max(
-      1,
-      Number(process.env.NEXT_PUBLIC_SYNC_CONCURRENCY ?? "5") || 5
+    setThreadStatuses((prev) =>
+      targets.reduce<Record<string, ThreadStatus>>(
+        (acc, thread) => {
+          acc[thread.id] = { status: "queued" }
+          return acc
+        },
+        { ...prev }
+      )
     )
 
-    let cursor = 0
-
-    const processNextThread = async () => {
-      const currentIndex = cursor
-      cursor += 1
-      const thread = threads[currentIndex]
-      if (!thread) {
-        return
+    const processedResults: SyncResponse["details"] = [...previousResults]
+
+    try {
+      const response = await fetch("/api/gmail/sync/stream", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          threadIds: targets.map((thread) => thread.id),
+          instructions: instructions.trim() || undefined,
+        }),
+      })
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error ?? "Failed to process Gmail threads.")
       }
 
-      setThreadStatuses((prev) => ({
-        ...prev,
-        [thread.id]: { status: "processing" },
-      }))
-
-      try {
-        const response = await fetch(
-          `/api/gmail/thread/${encodeURIComponent(thread.id)}/qa`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              instructions: instructions.trim() || undefined,
-            }),
-          }
-        )
-
-        if (!response.ok) {
-          const data = await response.json().catch(() => ({}))
-          throw new Error(data.error ?? "Failed to process this thread.")
-        }
-
-        const data = (await response.json()) as {
-          threadId: string
-          subject: string
-          createdAt?: string | null
-          questions: ThreadQAEntry[]
-        }
-
-        processedResults.push(data)
-        setThreadStatuses((prev) => ({
-          ...prev,
-          [thread.id]: { status: "success", questions: data.questions },
-        }))
-      } catch (threadError) {
-        console.error("Thread processing failed", thread.id, threadError)
-        setThreadStatuses((prev) => ({
-          ...prev,
-          [thread.id]: {
-            status: "error",
-            error:
-              threadError instanceof Error
-                ? threadError.message
-                : "Failed to process this thread.",
-          },
-        }))
-      } finally {
-        if (cursor < threads.length) {
-          await processNextThread()
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data)
+
+        switch (event.event) {
+          case "started":
+            setThreadStatuses((prev) => ({
+              ...prev,
+              [data.threadId]: { status: "processing" },
+            }))
+            break
+          case "extracted":
+            processedResults.push(data)
+            setThreadStatuses((prev) => ({
+              ...prev,
+              [data.threadId]: {
+                status: "success",
+                questions: data.questions,
+                validationErrors: data.validationErrors,
+              },
+            }))
+            break
+          case "failed":
+            console.error("Thread processing failed", data.threadId, data.error)
+            setThreadStatuses((prev) => ({
+              ...prev,
+              [data.threadId]: {
+                status: "error",
+                error: data.error ?? "Failed to process this thread.",
+                code: data.code,
+                retryable: data.retryable,
+              },
+            }))
+            break
         }
       }
+    } catch (streamError) {
+      console.error("Batch extraction failed", streamError)
+      setError(
+        streamError instanceof Error
+          ? streamError.message
+          : "Failed to process Gmail threads."
+      )
+      setThreadStatuses((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([threadId, status]) => [
+            threadId,
+            status.status === "queued" || status.status === "processing"
+              ? { status: "idle" }
+              : status,
+          ])
+        )
+      )
     }
 
-    const workers = Array.from(
-      { length: Math.min(concurrencyLimit, threads.length) },
-      () => processNextThread()
-    )
-
-    await Promise.all(workers)
-
     const consolidated = processedResults.flatMap((detail) => detail.questions)
 
     setResult({
@@ -165,6 +167,15 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
     setIsProcessing(false)
   }
 
+  const handleProcess = () => processThreads(threads)
+
+  const failedThreads = threads.filter(
+    (thread) => threadStatuses[thread.id]?.status === "error"
+  )
+
+  const handleRetryFailed = () =>
+    processThreads(failedThreads, result?.details ?? [])
+
   const statusOrder = useMemo(() => {
     return threads.map((thread) => ({
       thread,
@@ -219,6 +230,12 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
           <p className="text-sm text-muted-foreground">
             Extracted {result.consolidated.length} question &amp; answer pairs.
           </p>
+          {failedThreads.length ? (
+            <p className="text-sm text-destructive">
+              {failedThreads.length} thread(s) failed. Retry them without
+              re-running the rest.
+            </p>
+          ) : null}
           <pre className="max-h-48 overflow-y-auto rounded bg-background p-3 text-xs text-foreground">
             {JSON.stringify(result.consolidated, null, 2)}
           </pre>
@@ -226,9 +243,16 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
       ) : null}
 
       <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-        <Button onClick={handleProcess} disabled={isProcessing}>
-          {isProcessing ? "Processing..." : "Process recent threads"}
-        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={handleProcess} disabled={isProcessing}>
+            {isProcessing ? "Processing..." : "Process recent threads"}
+          </Button>
+          {failedThreads.length && !isProcessing ? (
+            <Button variant="outline" onClick={handleRetryFailed}>
+              Retry failed ({failedThreads.length})
+            </Button>
+          ) : null}
+        </div>
         {ingestAvailable ? (
           <Button
             variant="secondary"
@@ -240,47 +264,46 @@ export function SyncThreadsPanel({ threads }: SyncThreadsPanelProps) {
               setIngestMessage(null)
 
               try {
-                const ingestItems = result.details.flatMap((detail) =>
-                  detail.questions.map((qa) => ({
-                    threadId: detail.threadId,
-                    question: qa.question,
-                    answer: qa.answer,
-                    createdAt: detail.createdAt ?? null,
-                  }))
-                )
-
-                const response = await fetch("/api/qdrant/upsert", {
+                const response = await fetch("/api/review", {
                   method: "POST",
                   headers: {
                     "Content-Type": "application/json",
                   },
-                  body: JSON.stringify({ items: ingestItems }),
+                  body: JSON.stringify({
+                    threads: result.details.map((detail) => ({
+                      threadId: detail.threadId,
+                      subject: detail.subject,
+                      createdAt: detail.createdAt ?? null,
+                      fingerprint: detail.fingerprint,
+                      questions: detail.questions,
+                    })),
+                  }),
                 })
 
                 if (!response.ok) {
                   const data = await response.json().catch(() => ({}))
                   throw new Error(
-                    data.error ?? "Failed to upsert into Qdrant."
+                    data.error ?? "Failed to queue results for review."
                   )
                 }
 
                 const data = await response.json()
                 setIngestMessage(
-                  `Ingested ${data.upserted} items into collection "${data.collection}".`
+                  `Queued ${data.queued} items for review. Approved items are ingested from the review queue.`
                 )
               } catch (ingestError) {
-                console.error("Failed to ingest into Qdrant", ingestError)
+                console.error("Failed to queue results for review", ingestError)
                 setIngestMessage(
                   ingestError instanceof Error
                     ? ingestError.message
-                    : "Failed to ingest into Qdrant."
+                    : "Failed to queue results for review."
                 )
               } finally {
                 setIsIngesting(false)
               }
             }}
           >
-            {isIngesting ? "Ingesting..." : "Ingest shown results"}
+            {isIngesting ? "Queueing..." : "Send shown results to review"}
           </Button>
         ) : null}
         <span className="text-xs text-muted-foreground">
@@ -361,6 +384,14 @@ function ThreadStatusBadge({ status }: { status: ThreadStatus }) {
           {status.questions.length
             ? `${status.questions.length} Q&A`
             : "No questions"}
+          {status.validationErrors?.length ? (
+            <span
+              className="text-amber-600 dark:text-amber-400"
+              title={status.validationErrors.join("\n")}
+            >
+              ({status.validationErrors.length} invalid dropped)
+            </span>
+          ) : null}
         </span>
       )
     case "error":
@@ -0,0 +1,193 @@
+import { inflateRawSync } from "zlib"
+
+import { decodeHtmlEntities, htmlToText } from "@/lib/mime-text"
+
+const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+
+const TEXT_EXTENSIONS = new Set(["txt", "csv", "md", "log"])
+
+// ZIP record signatures, see APPNOTE.TXT section 4.3.
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+
+// Limits for archives crafted to expand far beyond their own size. Office
+// documents stay well below both.
+const ZIP_MAX_ENTRIES = 10_000
+const ZIP_MAX_ENTRY_BYTES = 64 * 1024 * 1024
+
+export type AttachmentTextKind = "pdf" | "docx" | "text" | "html"
+
+/**
+ * Returns which extractor handles an attachment, or null when its text cannot
+ * be read. Mail clients often send `application/octet-stream`, so the file
+ * extension is checked as well as the MIME type.
+ */
+export function getAttachmentTextKind(
+  mimeType: string,
+  filename: string
+): AttachmentTextKind | null {
+  const type = mimeType.toLowerCase()
+  const extension = filename.toLowerCase().split(".").pop() ?? ""
+
+  if (type === "application/pdf" || extension === "pdf") {
+    return "pdf"
+  }
+  if (type === DOCX_MIME_TYPE || extension === "docx") {
+    return "docx"
+  }
+  if (type === "text/html" || extension === "html" || extension === "htm") {
+    return "html"
+  }
+  if (type.startsWith("text/") || TEXT_EXTENSIONS.has(extension)) {
+    return "text"
+  }
+  return null
+}
+
+/**
+ * Extracts the readable text of a PDF, DOCX or plain-text attachment.
+ * Returns null for unsupported types; malformed files throw.
+ */
+export async function extractAttachmentText(
+  data: Buffer,
+  mimeType: string,
+  filename: string
+): Promise<string | null> {
+  const kind = getAttachmentTextKind(mimeType, filename)
+
+  switch (kind) {
+    case "pdf":
+      return normalizeText(await extractPdfText(data))
+    case "docx":
+      return normalizeText(extractDocxText(data))
+    case "html":
+      return htmlToText(new TextDecoder("utf-8").decode(data))
+    case "text":
+      return normalizeText(new TextDecoder("utf-8").decode(data))
+    default:
+      return null
+  }
+}
+
+async function extractPdfText(data: Buffer) {
+  // Loaded on demand so routes that never see a PDF do not pay for pdf.js.
+  const { extractText, getDocumentProxy } = await import("unpdf")
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+  const { text } = await extractText(pdf, { mergePages: true })
+  return text
+}
+
+function extractDocxText(data: Buffer) {
+  const xml = readZipEntry(data, "word/document.xml")
+  if (!xml) {
+    throw new Error("DOCX attachment has no word/document.xml")
+  }
+
+  const text = xml
+    .toString("utf-8")
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(br|cr)\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<[^>]+>/g, "")
+
+  return decodeHtmlEntities(text)
+}
+
+/**
+ * Reads one file out of a ZIP archive using its central directory. Only the
+ * stored and deflate methods are supported, which covers Office documents.
+ * Archives with more than `ZIP_MAX_ENTRIES` entries, or an entry that inflates
+ * past `ZIP_MAX_ENTRY_BYTES`, throw.
+ */
+function readZipEntry(archive: Buffer, name: string): Buffer | null {
+  const endOffset = findEndOfCentralDirectory(archive)
+  if (endOffset < 0) {
+    throw new Error("Attachment is not a valid ZIP archive")
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10)
+  if (entryCount > ZIP_MAX_ENTRIES) {
+    throw new Error(`ZIP archive has too many entries (${entryCount})`)
+  }
+  let offset = archive.readUInt32LE(endOffset + 16)
+
+  for (let index = 0; index < entryCount; index++) {
+    if (archive.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      break
+    }
+
+    const method = archive.readUInt16LE(offset + 10)
+    const compressedSize = archive.readUInt32LE(offset + 20)
+    const uncompressedSize = archive.readUInt32LE(offset + 24)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const localOffset = archive.readUInt32LE(offset + 42)
+    const entryName = archive.toString(
+      "utf-8",
+      offset + 46,
+      offset + 46 + nameLength
+    )
+
+    if (entryName === name) {
+      if (uncompressedSize > ZIP_MAX_ENTRY_BYTES) {
+        throw new Error(`ZIP entry ${name} is too large`)
+      }
+      if (archive.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP entry ${name}`)
+      }
+      const dataOffset =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28)
+      const compressed = archive.subarray(
+        dataOffset,
+        dataOffset + compressedSize
+      )
+
+      if (method === 0) {
+        return compressed
+      }
+      if (method === 8) {
+        // The declared size can lie, so the inflated output is capped too.
+        try {
+          return inflateRawSync(compressed, {
+            maxOutputLength: ZIP_MAX_ENTRY_BYTES,
+          })
+        } catch (error: any) {
+          if (error?.code === "ERR_BUFFER_TOO_LARGE") {
+            throw new Error(`ZIP entry ${name} is too large`)
+          }
+          throw error
+        }
+      }
+      throw new Error(`Unsupported ZIP compression method ${method}`)
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return null
+}
+
+function findEndOfCentralDirectory(archive: Buffer) {
+  // The record is 22 bytes plus a comment of at most 64 KiB.
+  const lowest = Math.max(0, archive.length - 22 - 0xffff)
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  return -1
+}
+
+function normalizeText(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
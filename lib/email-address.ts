@@ -0,0 +1,272 @@
+import { decodeText } from "@/lib/mime-text"
+
+export interface EmailAddress {
+  /** Decoded display name, or null when the header only carries an address. */
+  name: string | null
+  /** Lower-cased addr-spec. */
+  email: string
+}
+
+export interface ThreadParticipant extends EmailAddress {
+  domain: string
+  /** Domain is the mailbox's own or listed in `INTERNAL_EMAIL_DOMAINS`. */
+  internal: boolean
+}
+
+// One or more RFC 2047 encoded words, with the whitespace between them.
+const ENCODED_WORD_RUN =
+  /=\?[^?\s]+\?[bq]\?[^?\s]*\?=(?:\s*=\?[^?\s]+\?[bq]\?[^?\s]*\?=)*/gi
+const ENCODED_WORD = /=\?([^?\s]+)\?([bq])\?([^?\s]*)\?=/gi
+
+// Characters that force a display name to be quoted, RFC 5322 section 3.2.3.
+const NAME_SPECIALS = /[()<>[\]:;@\\,."]/
+
+/**
+ * Parses an address header (`From`, `To`, `Cc`, `Bcc`, `Reply-To`) as defined
+ * by RFC 5322: quoted display names may contain commas, comments are used as
+ * the name of a bare address, group syntax (`team: a@x.com, b@x.com;`) is
+ * flattened and RFC 2047 encoded words in names are decoded.
+ */
+export function parseAddressList(value?: string | null): EmailAddress[] {
+  if (!value) {
+    return []
+  }
+
+  return splitAddressList(value)
+    .map((entry) => parseMailbox(entry))
+    .filter((address): address is EmailAddress => address !== null)
+}
+
+/**
+ * Decodes RFC 2047 encoded words (`=?utf-8?B?...?=`, `=?iso-8859-1?Q?...?=`).
+ * Whitespace between adjacent encoded words is dropped, and their bytes are
+ * joined before decoding so a character split across two words survives.
+ */
+export function decodeEncodedWords(value: string): string {
+  return value.replace(ENCODED_WORD_RUN, (run) => {
+    let text = ""
+    let chunks: Buffer[] = []
+    let charset: string | undefined
+
+    for (const word of Array.from(run.matchAll(ENCODED_WORD))) {
+      // RFC 2231 allows a language suffix: `utf-8*en`.
+      const wordCharset = word[1].split("*")[0].toLowerCase()
+      if (charset !== undefined && wordCharset !== charset) {
+        text += decodeText(Buffer.concat(chunks), charset)
+        chunks = []
+      }
+      charset = wordCharset
+      chunks.push(
+        word[2].toLowerCase() === "b"
+          ? Buffer.from(word[3], "base64")
+          : decodeQEncoding(word[3])
+      )
+    }
+
+    return text + decodeText(Buffer.concat(chunks), charset)
+  })
+}
+
+export function formatAddress({ name, email }: EmailAddress): string {
+  if (!name) {
+    return email
+  }
+  const displayName = NAME_SPECIALS.test(name)
+    ? `"${name.replace(/(["\\])/g, "\\$1")}"`
+    : name
+  return `${displayName} <${email}>`
+}
+
+export function getEmailDomain(email: string): string {
+  const at = email.lastIndexOf("@")
+  return at >= 0 ? email.slice(at + 1).toLowerCase() : ""
+}
+
+/**
+ * Domains treated as internal: the connected mailbox's own domain plus the
+ * comma-separated `INTERNAL_EMAIL_DOMAINS` setting.
+ */
+export function getInternalDomains(mailbox?: string | null): string[] {
+  const domains = new Set(
+    (process.env.INTERNAL_EMAIL_DOMAINS ?? "")
+      .split(",")
+      .map((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+      .filter(Boolean)
+  )
+
+  const mailboxDomain = mailbox ? getEmailDomain(mailbox) : ""
+  if (mailboxDomain) {
+    domains.add(mailboxDomain)
+  }
+
+  return Array.from(domains)
+}
+
+/**
+ * Subdomains count as internal too, so `support.acme.com` matches `acme.com`.
+ */
+export function isInternalDomain(domain: string, internalDomains: string[]) {
+  return internalDomains.some(
+    (internal) => domain === internal || domain.endsWith(`.${internal}`)
+  )
+}
+
+/**
+ * Dedupes addresses by email, keeping the first display name seen, and tags
+ * each participant as internal or external.
+ */
+export function collectParticipants(
+  addresses: EmailAddress[],
+  internalDomains: string[]
+): ThreadParticipant[] {
+  const participants = new Map<string, ThreadParticipant>()
+
+  for (const address of addresses) {
+    const existing = participants.get(address.email)
+    if (existing) {
+      existing.name = existing.name ?? address.name
+      continue
+    }
+
+    const domain = getEmailDomain(address.email)
+    participants.set(address.email, {
+      ...address,
+      domain,
+      internal: isInternalDomain(domain, internalDomains),
+    })
+  }
+
+  return Array.from(participants.values())
+}
+
+/**
+ * Splits a header into mailbox entries at commas outside quoted strings,
+ * comments and angle brackets. Group names (`team:`) and their closing `;`
+ * are dropped so group members become ordinary entries.
+ */
+function splitAddressList(value: string): string[] {
+  const entries: string[] = []
+  let current = ""
+  let quoted = false
+  let angle = false
+  let comment = 0
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]
+
+    if (quoted || comment) {
+      current += char
+      if (char === "\\") {
+        current += value[++index] ?? ""
+      } else if (quoted && char === '"') {
+        quoted = false
+      } else if (comment && char === "(") {
+        comment += 1
+      } else if (comment && char === ")") {
+        comment -= 1
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === "(") {
+      comment = 1
+    } else if (char === "<") {
+      angle = true
+    } else if (char === ">") {
+      angle = false
+    } else if (!angle && (char === "," || char === ";")) {
+      entries.push(current)
+      current = ""
+      continue
+    } else if (!angle && char === ":") {
+      current = ""
+      continue
+    }
+
+    current += char
+  }
+
+  entries.push(current)
+
+  return entries.map((entry) => entry.trim()).filter(Boolean)
+}
+
+function parseMailbox(entry: string): EmailAddress | null {
+  let phrase = ""
+  let angleAddress: string | null = null
+  const comments: string[] = []
+
+  for (let index = 0; index < entry.length; index++) {
+    const char = entry[index]
+
+    if (char === '"') {
+      // Quoted string: keep the content, unescape quoted pairs.
+      for (index += 1; index < entry.length && entry[index] !== '"'; index++) {
+        phrase += entry[index] === "\\" ? entry[++index] ?? "" : entry[index]
+      }
+    } else if (char === "(") {
+      let depth = 1
+      let text = ""
+      for (index += 1; index < entry.length && depth > 0; index++) {
+        const next = entry[index]
+        if (next === "\\") {
+          text += entry[++index] ?? ""
+          continue
+        }
+        depth += next === "(" ? 1 : next === ")" ? -1 : 0
+        if (depth > 0) {
+          text += next
+        }
+      }
+      index -= 1
+      comments.push(text.trim())
+    } else if (char === "<") {
+      const end = entry.indexOf(">", index)
+      angleAddress = entry.slice(index + 1, end < 0 ? undefined : end)
+      index = end < 0 ? entry.length : end
+    } else {
+      phrase += char
+    }
+  }
+
+  // Obsolete source routes (`<@relay.example:jane@x.com>`) are discarded.
+  const email = (angleAddress ?? phrase)
+    .replace(/^@[^:]*:/, "")
+    .replace(/\s+/g, "")
+    .toLowerCase()
+
+  // Without an `@` the entry is a stray word or a display name whose address
+  // is missing, e.g. `John Doe`, not an address.
+  if (!email.includes("@")) {
+    return null
+  }
+
+  const rawName = angleAddress !== null ? phrase : comments.join(" ")
+  const name = decodeEncodedWords(rawName).replace(/\s+/g, " ").trim()
+
+  return {
+    name: name && name.toLowerCase() !== email ? name : null,
+    email,
+  }
+}
+
+function decodeQEncoding(text: string) {
+  const bytes: number[] = []
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char === "_") {
+      bytes.push(0x20)
+    } else if (
+      char === "=" &&
+      /^[0-9a-f]{2}$/i.test(text.slice(index + 1, index + 3))
+    ) {
+      bytes.push(parseInt(text.slice(index + 1, index + 3), 16))
+      index += 2
+    } else {
+      bytes.push(char.charCodeAt(0) & 0xff)
+    }
+  }
+  return Buffer.from(bytes)
+}
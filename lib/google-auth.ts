@@ -4,6 +4,19 @@ import { google } from "googleapis"
 import type { gmail_v1 } from "googleapis"
 import type { Credentials, OAuth2Client } from "google-auth-library"
 
+import { extractAttachmentText, getAttachmentTextKind } from "@/lib/attachments"
+import {
+  collectParticipants,
+  decodeEncodedWords,
+  formatAddress,
+  getInternalDomains,
+  parseAddressList,
+  type EmailAddress,
+  type ThreadParticipant,
+} from "@/lib/email-address"
+import { decodeBodyData, getCharset, htmlToText } from "@/lib/mime-text"
+import { parseReply } from "@/lib/reply-parser"
+
 export const GOOGLE_OAUTH_SCOPES = [
   "https://www.googleapis.com/auth/gmail.readonly",
   "https://www.googleapis.com/auth/userinfo.email",
@@ -30,6 +43,12 @@ export interface GoogleOAuthSessionPayload {
   gmail: GmailAccountProfile
 }
 
+export interface GmailLabel {
+  id: string
+  name: string
+  type: "system" | "user"
+}
+
 export interface GmailThreadSummary {
   id: string
   subject: string
@@ -39,6 +58,16 @@ export interface GmailThreadSummary {
   from: string
   to: string
   messageCount: number
+  /** Everyone on From/To/Cc/Bcc of any message in the thread. */
+  participants: ThreadParticipant[]
+  hasExternalParticipants: boolean
+  /** Moves forward on any change to the thread, including new messages. */
+  historyId?: string
+}
+
+export interface GmailThreadRef {
+  id: string
+  historyId: string | null
 }
 
 export interface GmailMessageDetail {
@@ -49,14 +78,148 @@ export interface GmailMessageDetail {
   date?: string
   snippet?: string
   bodyText: string
+  /** `bodyText` without quoted history, signature and legal footer. */
+  newContent: string
+  addresses: GmailMessageAddresses
+  attachments: GmailAttachment[]
+}
+
+export interface GmailMessageAddresses {
+  from: EmailAddress[]
+  to: EmailAddress[]
+  cc: EmailAddress[]
+  bcc: EmailAddress[]
+  replyTo: EmailAddress[]
+}
+
+export interface GmailAttachment {
+  /** Null for small attachments Gmail returns inline with the message. */
+  attachmentId: string | null
+  messageId: string
+  /**
+   * MIME part ID, stable across requests unlike `attachmentId`, which Gmail
+   * issues anew whenever the message is fetched.
+   */
+  partId: string | null
+  filename: string
+  mimeType: string
+  size: number
+  /**
+   * Extracted text of PDF, DOCX and plain-text attachments. Only set when the
+   * thread was loaded with `includeAttachmentText`.
+   */
+  text?: string | null
+}
+
+export interface FetchGmailThreadDetailOptions {
+  /** Download supported attachments and extract their text. */
+  includeAttachmentText?: boolean
 }
 
 export interface GmailThreadDetail extends GmailThreadSummary {
   messages: GmailMessageDetail[]
 }
 
+/**
+ * Credentials for a Google API call. When googleapis refreshes an expired
+ * access token, `onTokensRefreshed` receives the merged credentials so the
+ * caller can persist them.
+ */
+export interface GoogleAuthContext {
+  tokens: Credentials
+  onTokensRefreshed?: (tokens: Credentials) => Promise<void> | void
+  /** Key for the per-user Gmail quota budget, usually the mailbox address. */
+  quotaKey?: string
+  /** Connected mailbox; its domain counts as internal in participant lists. */
+  mailbox?: string
+}
+
+export interface GmailRequestMetrics {
+  requests: number
+  retries: number
+  rateLimited: number
+  failures: number
+  quotaUnitsUsed: number
+  throttledMs: number
+}
+
+export type GmailHistoryChanges =
+  | {
+      status: "ok"
+      /** Changed threads, each with the history ID of its latest change. */
+      threads: GmailThreadRef[]
+      historyId: string
+    }
+  | { status: "expired" }
+
 export const GOOGLE_OAUTH_STATE_COOKIE = "google_oauth_state"
 export const GOOGLE_OAUTH_SESSION_COOKIE = "google_oauth_session"
+export const GOOGLE_RECONNECT_REQUIRED = "reconnect_required"
+export const GOOGLE_RECONNECT_REQUIRED_MESSAGE =
+  "Google access has expired or was revoked. Reconnect your Google account."
+
+// Quota unit cost per Gmail API method, see
+// https://developers.google.com/gmail/api/reference/quota
+const GMAIL_QUOTA_UNITS = {
+  "users.getProfile": 1,
+  "users.history.list": 2,
+  "users.labels.list": 1,
+  "users.messages.attachments.get": 5,
+  "users.messages.get": 5,
+  "users.threads.get": 10,
+  "users.threads.list": 10,
+} as const
+
+type GmailMethod = keyof typeof GMAIL_QUOTA_UNITS
+
+const GMAIL_MAX_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.GMAIL_MAX_CONCURRENCY ?? "10") || 10
+)
+const GMAIL_QUOTA_UNITS_PER_MINUTE = Math.max(
+  1,
+  Number(process.env.GMAIL_QUOTA_UNITS_PER_MINUTE ?? "12000") || 12000
+)
+const GMAIL_MAX_RETRIES = 5
+const GMAIL_RETRY_BASE_DELAY_MS = 1000
+const GMAIL_RETRY_MAX_DELAY_MS = 60_000
+const GMAIL_QUOTA_WINDOW_MS = 60_000
+// Larger attachments are listed but their text is not extracted; 0 disables
+// attachment text extraction.
+export const GMAIL_ATTACHMENT_TEXT_MAX_BYTES = Math.max(
+  0,
+  Number(process.env.GMAIL_ATTACHMENT_TEXT_MAX_BYTES ?? "5000000") || 0
+)
+
+// System labels offered as an ingest scope; the rest (UNREAD, CHAT, DRAFT…)
+// are hidden from the picker.
+const GMAIL_SCOPE_SYSTEM_LABELS = [
+  "INBOX",
+  "SENT",
+  "IMPORTANT",
+  "STARRED",
+  "CATEGORY_PERSONAL",
+  "CATEGORY_UPDATES",
+  "CATEGORY_FORUMS",
+]
+
+const GMAIL_RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+])
+
+interface GmailLimiterState {
+  active: number
+  queue: Array<() => void>
+  windows: Map<string, { startedAt: number; used: number }>
+  metrics: GmailRequestMetrics
+}
+
+// Shared across route bundles so the concurrency cap and quota budget apply
+// to the whole Node process.
+const globalForGmail = globalThis as unknown as {
+  __inboxerGmailLimiter?: GmailLimiterState
+}
 
 export function assertGoogleEnv(name: string): string {
   const value = process.env[name]
@@ -77,6 +240,216 @@ function createOAuthClient(redirectUri?: string): OAuth2Client {
   return new google.auth.OAuth2(clientId, clientSecret, redirectUri)
 }
 
+function createAuthorizedClient(auth: GoogleAuthContext): OAuth2Client {
+  const oauthClient = createOAuthClient()
+  oauthClient.setCredentials(auth.tokens)
+
+  oauthClient.on("tokens", (refreshed) => {
+    // Refresh responses usually omit the refresh token, so keep what we had.
+    const merged: Credentials = {
+      ...auth.tokens,
+      ...Object.fromEntries(
+        Object.entries(refreshed).filter(
+          ([, value]) => value !== undefined && value !== null
+        )
+      ),
+    }
+    auth.tokens = merged
+
+    if (auth.onTokensRefreshed) {
+      Promise.resolve(auth.onTokensRefreshed(merged)).catch((error) => {
+        console.error("Failed to persist refreshed Google credentials", error)
+      })
+    }
+  })
+
+  return oauthClient
+}
+
+/**
+ * True when Google rejected the stored refresh token (revoked access, expired
+ * consent, password change). The user has to go through OAuth again.
+ */
+export function isReconnectRequiredError(error: any): boolean {
+  const data = error?.response?.data
+  const code = typeof data === "object" && data ? data.error : undefined
+
+  return code === "invalid_grant" || error?.message === "invalid_grant"
+}
+
+/**
+ * True for Gmail's per-user rate limiting, which surfaces as 429 or as 403 with
+ * a `rateLimitExceeded`/`userRateLimitExceeded` reason.
+ */
+export function isGmailRateLimitError(error: any): boolean {
+  const status = Number(error?.response?.status)
+  if (status === 429) {
+    return true
+  }
+
+  const reasons: string[] = (error?.response?.data?.error?.errors ?? []).map(
+    (entry: { reason?: string }) => entry?.reason
+  )
+  return (
+    status === 403 &&
+    reasons.some((reason) => GMAIL_RATE_LIMIT_REASONS.has(reason))
+  )
+}
+
+export function getGmailRequestMetrics(): GmailRequestMetrics {
+  return { ...getGmailLimiter().metrics }
+}
+
+function getGmailLimiter(): GmailLimiterState {
+  if (!globalForGmail.__inboxerGmailLimiter) {
+    globalForGmail.__inboxerGmailLimiter = {
+      active: 0,
+      queue: [],
+      windows: new Map(),
+      metrics: {
+        requests: 0,
+        retries: 0,
+        rateLimited: 0,
+        failures: 0,
+        quotaUnitsUsed: 0,
+        throttledMs: 0,
+      },
+    }
+  }
+  return globalForGmail.__inboxerGmailLimiter
+}
+
+/**
+ * Runs a Gmail API call through the shared limiter: at most
+ * `GMAIL_MAX_CONCURRENCY` requests in flight, a per-user quota-unit budget per
+ * minute, and exponential backoff on rate limits and 5xx responses.
+ */
+async function gmailRequest<T>(
+  auth: GoogleAuthContext,
+  method: GmailMethod,
+  run: () => Promise<T>
+): Promise<T> {
+  const limiter = getGmailLimiter()
+  const units = GMAIL_QUOTA_UNITS[method]
+
+  for (let attempt = 0; ; attempt++) {
+    await reserveGmailQuota(auth.quotaKey ?? "default", units)
+    await acquireGmailSlot()
+    limiter.metrics.requests += 1
+
+    let delay: number
+
+    try {
+      return await run()
+    } catch (error) {
+      const rateLimited = isGmailRateLimitError(error)
+      if (rateLimited) {
+        limiter.metrics.rateLimited += 1
+      }
+
+      if (!isRetryableGmailError(error) || attempt >= GMAIL_MAX_RETRIES) {
+        limiter.metrics.failures += 1
+        throw error
+      }
+
+      delay =
+        getRetryAfterMs(error) ??
+        Math.min(
+          GMAIL_RETRY_BASE_DELAY_MS * 2 ** attempt +
+            Math.floor(Math.random() * GMAIL_RETRY_BASE_DELAY_MS),
+          GMAIL_RETRY_MAX_DELAY_MS
+        )
+      limiter.metrics.retries += 1
+      console.warn(
+        `Gmail ${method} failed (${
+          rateLimited ? "rate limited" : "server error"
+        }), retrying in ${delay}ms`
+      )
+    } finally {
+      releaseGmailSlot()
+    }
+
+    await sleep(delay)
+  }
+}
+
+async function acquireGmailSlot() {
+  const limiter = getGmailLimiter()
+  if (limiter.active < GMAIL_MAX_CONCURRENCY) {
+    limiter.active += 1
+    return
+  }
+  // The releasing request hands its slot over, so `active` stays unchanged.
+  await new Promise<void>((resolve) => limiter.queue.push(resolve))
+}
+
+function releaseGmailSlot() {
+  const limiter = getGmailLimiter()
+  const next = limiter.queue.shift()
+  if (next) {
+    next()
+  } else {
+    limiter.active -= 1
+  }
+}
+
+async function reserveGmailQuota(key: string, units: number) {
+  const limiter = getGmailLimiter()
+
+  while (true) {
+    const now = Date.now()
+    let window = limiter.windows.get(key)
+    if (!window || now - window.startedAt >= GMAIL_QUOTA_WINDOW_MS) {
+      window = { startedAt: now, used: 0 }
+      limiter.windows.set(key, window)
+    }
+
+    if (window.used + units <= GMAIL_QUOTA_UNITS_PER_MINUTE) {
+      window.used += units
+      limiter.metrics.quotaUnitsUsed += units
+      return
+    }
+
+    const wait = GMAIL_QUOTA_WINDOW_MS - (now - window.startedAt)
+    limiter.metrics.throttledMs += wait
+    await sleep(wait)
+  }
+}
+
+function isRetryableGmailError(error: any): boolean {
+  if (isGmailRateLimitError(error)) {
+    return true
+  }
+  const status = Number(error?.response?.status)
+  return status >= 500 && status < 600
+}
+
+function getRetryAfterMs(error: any): number | null {
+  const headers = error?.response?.headers
+  const value: string | null | undefined =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"]
+
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(seconds * 1000, 0), GMAIL_RETRY_MAX_DELAY_MS)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date)
+    ? null
+    : Math.min(Math.max(date - Date.now(), 0), GMAIL_RETRY_MAX_DELAY_MS)
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
 export function createGoogleAuthUrl({
   redirectUri,
   state,
@@ -89,7 +462,8 @@ export function createGoogleAuthUrl({
   return oauthClient.generateAuthUrl({
     access_type: "offline",
     scope: GOOGLE_OAUTH_SCOPES,
-    prompt: "consent",
+    // select_account lets the user pick a different mailbox when adding one.
+    prompt: "consent select_account",
     include_granted_scopes: true,
     state,
   })
@@ -112,9 +486,10 @@ export async function exchangeGoogleCodeForTokens({
   return tokens
 }
 
-export async function fetchGoogleProfile(tokens: Credentials): Promise<GoogleUserProfile> {
-  const oauthClient = createOAuthClient()
-  oauthClient.setCredentials(tokens)
+export async function fetchGoogleProfile(
+  auth: GoogleAuthContext
+): Promise<GoogleUserProfile> {
+  const oauthClient = createAuthorizedClient(auth)
 
   const oauth2 = google.oauth2({
     version: "v2",
@@ -135,13 +510,14 @@ export async function fetchGoogleProfile(tokens: Credentials): Promise<GoogleUse
 }
 
 export async function fetchGmailAccountProfile(
-  tokens: Credentials
+  auth: GoogleAuthContext
 ): Promise<GmailAccountProfile> {
-  const oauthClient = createOAuthClient()
-  oauthClient.setCredentials(tokens)
+  const oauthClient = createAuthorizedClient(auth)
 
   const gmail = google.gmail({ version: "v1", auth: oauthClient })
-  const { data } = await gmail.users.getProfile({ userId: "me" })
+  const { data } = await gmailRequest(auth, "users.getProfile", () =>
+    gmail.users.getProfile({ userId: "me" })
+  )
 
   if (!data.emailAddress) {
     throw new Error("Unable to fetch Gmail profile for this account")
@@ -160,19 +536,23 @@ export function createOAuthStateCookieValue() {
 }
 
 export async function fetchRecentGmailThreads(
-  tokens: Credentials,
+  auth: GoogleAuthContext,
   options: { maxResults?: number } = {}
 ): Promise<GmailThreadSummary[]> {
-  const oauthClient = createOAuthClient()
-  oauthClient.setCredentials(tokens)
+  const oauthClient = createAuthorizedClient(auth)
 
   const gmail = google.gmail({ version: "v1", auth: oauthClient })
-  const threadListResponse = await gmail.users.threads.list({
-    userId: "me",
-    labelIds: ["INBOX"],
-    maxResults: options.maxResults ?? 10,
-    includeSpamTrash: false,
-  })
+  const threadListResponse = await gmailRequest(
+    auth,
+    "users.threads.list",
+    () =>
+      gmail.users.threads.list({
+        userId: "me",
+        labelIds: ["INBOX"],
+        maxResults: options.maxResults ?? 10,
+        includeSpamTrash: false,
+      })
+  )
 
   const threadIds =
     threadListResponse.data.threads?.map((thread) => thread.id).filter(Boolean) ?? []
@@ -181,18 +561,24 @@ export async function fetchRecentGmailThreads(
     return []
   }
 
+  const internalDomains = getInternalDomains(auth.mailbox)
   const threadSummaries = await Promise.all(
     threadIds.map(async (threadId) => {
       try {
-        const thread = await gmail.users.threads.get({
-          userId: "me",
-          id: threadId!,
-          format: "metadata",
-          metadataHeaders: ["From", "To", "Subject", "Date"],
-        })
-
-        return buildThreadSummary(thread.data)
+        const thread = await gmailRequest(auth, "users.threads.get", () =>
+          gmail.users.threads.get({
+            userId: "me",
+            id: threadId!,
+            format: "metadata",
+            metadataHeaders: ["From", "To", "Cc", "Bcc", "Subject", "Date"],
+          })
+        )
+
+        return buildThreadSummary(thread.data, internalDomains)
       } catch (error) {
+        if (isReconnectRequiredError(error)) {
+          throw error
+        }
         console.error("Unable to load Gmail thread", threadId, error)
         return null
       }
@@ -204,12 +590,51 @@ export async function fetchRecentGmailThreads(
   )
 }
 
-export async function fetchAllGmailThreadIds(
-  tokens: Credentials,
-  options: { maxThreads?: number; labelIds?: string[] } = {}
-): Promise<string[]> {
-  const oauthClient = createOAuthClient()
-  oauthClient.setCredentials(tokens)
+/**
+ * Lists the mailbox's labels for the ingest scope picker: system labels that
+ * make sense as a scope first, then user labels by name.
+ */
+export async function fetchGmailLabels(
+  auth: GoogleAuthContext
+): Promise<GmailLabel[]> {
+  const oauthClient = createAuthorizedClient(auth)
+
+  const gmail = google.gmail({ version: "v1", auth: oauthClient })
+  const { data } = await gmailRequest(auth, "users.labels.list", () =>
+    gmail.users.labels.list({ userId: "me" })
+  )
+
+  const labels = (data.labels ?? [])
+    .filter((label) => label.id && label.name)
+    .filter(
+      (label) =>
+        label.type !== "system" || GMAIL_SCOPE_SYSTEM_LABELS.includes(label.id!)
+    )
+    .map((label) => ({
+      id: label.id!,
+      name: label.name!,
+      type: label.type === "system" ? ("system" as const) : ("user" as const),
+    }))
+
+  const rank = (label: GmailLabel) =>
+    label.type === "system"
+      ? GMAIL_SCOPE_SYSTEM_LABELS.indexOf(label.id)
+      : GMAIL_SCOPE_SYSTEM_LABELS.length
+
+  return labels.sort(
+    (a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name)
+  )
+}
+
+/**
+ * Lists thread IDs with each thread's current history ID, which callers
+ * compare against ingestion records to find threads that changed.
+ */
+export async function fetchAllGmailThreadRefs(
+  auth: GoogleAuthContext,
+  options: { maxThreads?: number; labelIds?: string[]; query?: string } = {}
+): Promise<GmailThreadRef[]> {
+  const oauthClient = createAuthorizedClient(auth)
 
   const gmail = google.gmail({ version: "v1", auth: oauthClient })
 
@@ -218,51 +643,122 @@ export async function fetchAllGmailThreadIds(
     Number(process.env.INITIAL_INGEST_MAX_THREADS ?? "200")
   const labelIds = options.labelIds ?? ["INBOX"]
 
-  const ids: string[] = []
+  const refs: GmailThreadRef[] = []
   let pageToken: string | undefined
 
   do {
-    const response = await gmail.users.threads.list({
-      userId: "me",
-      labelIds,
-      pageToken,
-      maxResults: 100,
-      includeSpamTrash: false,
-    })
-
-    const pageIds =
-      response.data.threads?.map((thread) => thread.id).filter(Boolean) ?? []
-    ids.push(...(pageIds as string[]))
+    const response = await gmailRequest(auth, "users.threads.list", () =>
+      gmail.users.threads.list({
+        userId: "me",
+        labelIds,
+        q: options.query || undefined,
+        pageToken,
+        maxResults: 100,
+        includeSpamTrash: false,
+      })
+    )
+
+    for (const thread of response.data.threads ?? []) {
+      if (thread.id) {
+        refs.push({ id: thread.id, historyId: thread.historyId ?? null })
+      }
+    }
 
-    if (ids.length >= maxThreads) {
-      return ids.slice(0, maxThreads)
+    if (refs.length >= maxThreads) {
+      return refs.slice(0, maxThreads)
     }
 
     pageToken = response.data.nextPageToken ?? undefined
   } while (pageToken)
 
-  return ids
+  return refs
+}
+
+export async function fetchGmailHistoryChanges(
+  auth: GoogleAuthContext,
+  startHistoryId: string,
+  options: { labelId?: string | null } = {}
+): Promise<GmailHistoryChanges> {
+  const oauthClient = createAuthorizedClient(auth)
+
+  const gmail = google.gmail({ version: "v1", auth: oauthClient })
+
+  const threads = new Map<string, string>()
+  let latestHistoryId = startHistoryId
+  let pageToken: string | undefined
+
+  try {
+    do {
+      const response = await gmailRequest(auth, "users.history.list", () =>
+        gmail.users.history.list({
+          userId: "me",
+          startHistoryId,
+          // null follows changes to all mail.
+          labelId:
+            options.labelId === null ? undefined : options.labelId ?? "INBOX",
+          historyTypes: ["messageAdded", "labelAdded"],
+          pageToken,
+          maxResults: 500,
+        })
+      )
+
+      for (const record of response.data.history ?? []) {
+        const messages = [
+          ...(record.messagesAdded ?? []),
+          ...(record.labelsAdded ?? []),
+        ]
+        for (const entry of messages) {
+          if (entry.message?.threadId) {
+            // Records are listed in ascending order, so the last one wins.
+            threads.set(
+              entry.message.threadId,
+              record.id ?? response.data.historyId ?? startHistoryId
+            )
+          }
+        }
+      }
+
+      latestHistoryId = response.data.historyId ?? latestHistoryId
+      pageToken = response.data.nextPageToken ?? undefined
+    } while (pageToken)
+  } catch (error: any) {
+    // Gmail answers 404 once the start history ID falls outside its retention
+    // window; callers must fall back to a full listing.
+    const statusCode = error?.response?.status ?? error?.code ?? null
+    if (statusCode === 404 || statusCode === "404") {
+      return { status: "expired" }
+    }
+    throw error
+  }
+
+  return {
+    status: "ok",
+    threads: Array.from(threads, ([id, historyId]) => ({ id, historyId })),
+    historyId: latestHistoryId,
+  }
 }
 
 export async function fetchGmailThreadDetail(
-  tokens: Credentials,
-  threadId: string
+  auth: GoogleAuthContext,
+  threadId: string,
+  { includeAttachmentText = false }: FetchGmailThreadDetailOptions = {}
 ): Promise<GmailThreadDetail> {
-  const oauthClient = createOAuthClient()
-  oauthClient.setCredentials(tokens)
+  const oauthClient = createAuthorizedClient(auth)
 
   const gmail = google.gmail({ version: "v1", auth: oauthClient })
-  const { data } = await gmail.users.threads.get({
-    userId: "me",
-    id: threadId,
-    format: "full",
-  })
+  const { data } = await gmailRequest(auth, "users.threads.get", () =>
+    gmail.users.threads.get({
+      userId: "me",
+      id: threadId,
+      format: "full",
+    })
+  )
 
   if (!data || !data.id) {
     throw new Error("Unable to load Gmail thread details")
   }
 
-  const summary = buildThreadSummary(data)
+  const summary = buildThreadSummary(data, getInternalDomains(auth.mailbox))
 
   if (!summary) {
     throw new Error("Unable to derive summary for Gmail thread")
@@ -272,28 +768,146 @@ export async function fetchGmailThreadDetail(
     buildMessageDetail(message)
   )
 
+  if (includeAttachmentText && GMAIL_ATTACHMENT_TEXT_MAX_BYTES > 0) {
+    const partsByMessage = new Map(
+      (data.messages ?? []).map((message) => [
+        message.id ?? "",
+        flattenMessageParts(message.payload),
+      ])
+    )
+
+    for (const message of messages) {
+      for (const attachment of message.attachments) {
+        attachment.text = await readAttachmentText(
+          auth,
+          attachment,
+          partsByMessage.get(message.id) ?? []
+        )
+      }
+    }
+  }
+
   return {
     ...summary,
     messages,
   }
 }
 
-export function encodeOAuthSessionCookie(payload: GoogleOAuthSessionPayload) {
-  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url")
+/**
+ * Downloads one attachment through `users.messages.attachments.get`. The
+ * payload is base64url encoded by the API and returned decoded.
+ */
+export async function fetchGmailAttachment(
+  auth: GoogleAuthContext,
+  messageId: string,
+  attachmentId: string
+): Promise<Buffer> {
+  const oauthClient = createAuthorizedClient(auth)
+
+  const gmail = google.gmail({ version: "v1", auth: oauthClient })
+  const { data } = await gmailRequest(
+    auth,
+    "users.messages.attachments.get",
+    () =>
+      gmail.users.messages.attachments.get({
+        userId: "me",
+        messageId,
+        id: attachmentId,
+      })
+  )
+
+  if (!data?.data) {
+    throw new Error("Unable to load Gmail attachment")
+  }
+
+  return decodeBase64Url(data.data)
+}
+
+/**
+ * Looks up an attachment's MIME part so its filename and type come from the
+ * message rather than the caller. `partId` is matched first; Gmail issues a new
+ * `attachmentId` whenever the message is fetched, so the returned attachment
+ * carries the current one. Returns null when the message has no such part.
+ */
+export async function fetchGmailAttachmentPart(
+  auth: GoogleAuthContext,
+  messageId: string,
+  { attachmentId, partId }: { attachmentId: string; partId?: string | null }
+): Promise<GmailAttachment | null> {
+  const oauthClient = createAuthorizedClient(auth)
+
+  const gmail = google.gmail({ version: "v1", auth: oauthClient })
+  const { data } = await gmailRequest(auth, "users.messages.get", () =>
+    gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "full",
+    })
+  )
+
+  const attachments = extractAttachments(messageId, data?.payload)
+  return (
+    attachments.find((attachment) =>
+      partId
+        ? attachment.partId === partId
+        : attachment.attachmentId === attachmentId
+    ) ?? null
+  )
 }
 
-export function decodeOAuthSessionCookie(
-  value: string
-): GoogleOAuthSessionPayload | null {
+async function readAttachmentText(
+  auth: GoogleAuthContext,
+  attachment: GmailAttachment,
+  parts: gmail_v1.Schema$MessagePart[]
+): Promise<string | null> {
+  if (
+    !getAttachmentTextKind(attachment.mimeType, attachment.filename) ||
+    attachment.size > GMAIL_ATTACHMENT_TEXT_MAX_BYTES
+  ) {
+    return null
+  }
+
   try {
-    const json = Buffer.from(value, "base64url").toString("utf8")
-    return JSON.parse(json) as GoogleOAuthSessionPayload
+    const inline = parts.find(
+      (part) => part.filename === attachment.filename && part.body?.data
+    )
+    const content = inline?.body?.data
+      ? decodeBase64Url(inline.body.data)
+      : attachment.attachmentId
+      ? await fetchGmailAttachment(
+          auth,
+          attachment.messageId,
+          attachment.attachmentId
+        )
+      : null
+
+    if (!content) {
+      return null
+    }
+
+    return await extractAttachmentText(
+      content,
+      attachment.mimeType,
+      attachment.filename
+    )
   } catch (error) {
+    if (isReconnectRequiredError(error)) {
+      throw error
+    }
+    console.warn(
+      "Failed to extract attachment text",
+      attachment.messageId,
+      attachment.filename,
+      error
+    )
     return null
   }
 }
 
-function buildThreadSummary(thread: gmail_v1.Schema$Thread): GmailThreadSummary | null {
+function buildThreadSummary(
+  thread: gmail_v1.Schema$Thread,
+  internalDomains: string[]
+): GmailThreadSummary | null {
   if (!thread.id) {
     return null
   }
@@ -309,6 +923,9 @@ function buildThreadSummary(thread: gmail_v1.Schema$Thread): GmailThreadSummary
       from: "Unknown sender",
       to: "Unknown recipient",
       messageCount: 0,
+      participants: [],
+      hasExternalParticipants: false,
+      historyId: thread.historyId ?? undefined,
     }
   }
 
@@ -317,11 +934,19 @@ function buildThreadSummary(thread: gmail_v1.Schema$Thread): GmailThreadSummary
   const firstMessage = messages[0]
   const firstHeaders = firstMessage?.payload?.headers ?? []
 
-  const subject = extractHeader(headers, "Subject") || "No subject"
+  const subject = extractSubject(headers)
   const from = formatAddressHeader(extractHeader(headers, "From"))
   const to = formatAddressHeader(extractHeader(headers, "To"))
   const date = extractHeader(headers, "Date") || undefined
   const createdAt = extractHeader(firstHeaders, "Date") || undefined
+  const participants = collectParticipants(
+    messages.flatMap((message) =>
+      ["From", "To", "Cc", "Bcc"].flatMap((name) =>
+        parseAddressList(extractHeader(message.payload?.headers ?? [], name))
+      )
+    ),
+    internalDomains
+  )
 
   return {
     id: thread.id,
@@ -332,26 +957,42 @@ function buildThreadSummary(thread: gmail_v1.Schema$Thread): GmailThreadSummary
     from,
     to,
     messageCount: messages.length,
+    participants,
+    hasExternalParticipants: participants.some(
+      (participant) => !participant.internal
+    ),
+    historyId: thread.historyId ?? undefined,
   }
 }
 
 function buildMessageDetail(message: gmail_v1.Schema$Message): GmailMessageDetail {
   const headers = message.payload?.headers ?? []
-  const subject = extractHeader(headers, "Subject") || "No subject"
+  const subject = extractSubject(headers)
   const from = formatAddressHeader(extractHeader(headers, "From"))
   const to = formatAddressHeader(extractHeader(headers, "To"))
   const date = extractHeader(headers, "Date") || undefined
   const snippet = message.snippet ?? undefined
   const bodyText = extractMessageBody(message.payload)
+  const { newContent } = parseReply(bodyText)
+  const id = message.id ?? cryptoRandomId()
 
   return {
-    id: message.id ?? cryptoRandomId(),
+    id,
     subject,
     from,
     to,
     date,
     snippet,
     bodyText,
+    newContent,
+    addresses: {
+      from: parseAddressList(extractHeader(headers, "From")),
+      to: parseAddressList(extractHeader(headers, "To")),
+      cc: parseAddressList(extractHeader(headers, "Cc")),
+      bcc: parseAddressList(extractHeader(headers, "Bcc")),
+      replyTo: parseAddressList(extractHeader(headers, "Reply-To")),
+    },
+    attachments: extractAttachments(id, message.payload),
   }
 }
 
@@ -365,12 +1006,17 @@ function extractHeader(
   return header?.value ?? undefined
 }
 
+function extractSubject(headers: gmail_v1.Schema$MessagePartHeader[]) {
+  const subject = extractHeader(headers, "Subject")
+  return (subject && decodeEncodedWords(subject).trim()) || "No subject"
+}
+
 function formatAddressHeader(rawValue?: string): string {
   if (!rawValue) {
     return "Unknown"
   }
 
-  const addresses = parseAddressList(rawValue)
+  const addresses = parseAddressList(rawValue).map(formatAddress)
   if (!addresses.length) {
     return "Unknown"
   }
@@ -386,25 +1032,6 @@ function formatAddressHeader(rawValue?: string): string {
   return `${addresses[0]}, ${addresses[1]} +${addresses.length - 2}`
 }
 
-function parseAddressList(rawValue: string): string[] {
-  return rawValue
-    .split(",")
-    .map((entry) => entry.trim())
-    .filter(Boolean)
-    .map((entry) => formatSingleAddress(entry))
-}
-
-function formatSingleAddress(value: string): string {
-  const match = value.match(/^(.*)<(.+?)>$/)
-  if (match) {
-    const name = match[1].trim().replace(/^"(.+)"$/, "$1")
-    const email = match[2].trim()
-    return name ? `${name} <${email}>` : email
-  }
-
-  return value
-}
-
 function extractMessageBody(
   payload?: gmail_v1.Schema$MessagePart | null
 ): string {
@@ -412,24 +1039,25 @@ function extractMessageBody(
     return ""
   }
 
-  const parts = flattenMessageParts(payload)
+  // Attached .txt and .html files are parts too; only the body counts here.
+  const parts = flattenMessageParts(payload).filter((part) => !part.filename)
 
   const plain = parts.find(
     (part) => part.mimeType === "text/plain" && part.body?.data
   )
   if (plain?.body?.data) {
-    return decodeMessageBody(plain.body.data)
+    return decodeMessageBody(plain)
   }
 
   const html = parts.find(
     (part) => part.mimeType === "text/html" && part.body?.data
   )
   if (html?.body?.data) {
-    return stripHtml(decodeMessageBody(html.body.data))
+    return htmlToText(decodeMessageBody(html))
   }
 
   if (payload.body?.data) {
-    return decodeMessageBody(payload.body.data)
+    return decodeMessageBody(payload)
   }
 
   return ""
@@ -448,20 +1076,31 @@ function flattenMessageParts(
   return parts
 }
 
-function decodeMessageBody(data: string): string {
-  const sanitized = data.replace(/-/g, "+").replace(/_/g, "/")
-  try {
-    return Buffer.from(sanitized, "base64").toString("utf8")
-  } catch {
-    return ""
-  }
+function extractAttachments(
+  messageId: string,
+  payload?: gmail_v1.Schema$MessagePart | null
+): GmailAttachment[] {
+  return flattenMessageParts(payload)
+    .filter(
+      (part) => part.filename && (part.body?.attachmentId || part.body?.data)
+    )
+    .map((part) => ({
+      attachmentId: part.body?.attachmentId ?? null,
+      messageId,
+      partId: part.partId ?? null,
+      filename: part.filename ?? "",
+      mimeType: part.mimeType ?? "application/octet-stream",
+      size: part.body?.size ?? 0,
+    }))
+}
+
+function decodeMessageBody(part: gmail_v1.Schema$MessagePart): string {
+  const contentType = extractHeader(part.headers ?? [], "Content-Type")
+  return decodeBodyData(part.body?.data ?? "", getCharset(contentType))
 }
 
-function stripHtml(html: string): string {
-  return html
-    .replace(/<\/?[^>]+(>|$)/g, " ")
-    .replace(/\s+/g, " ")
-    .trim()
+function decodeBase64Url(data: string) {
+  return Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64")
 }
 
 function cryptoRandomId() {
@@ -1,6 +1,74 @@
-import { promises as fs } from "fs"
+import { createHash } from "crypto"
+import { promises as fs, constants as fsConstants } from "fs"
 import path from "path"
 
+import type { GmailThreadDetail } from "@/lib/google-auth"
+
+/**
+ * Which threads ingestion looks at. Listing applies the Gmail search
+ * expression and requires every label, like the Gmail search box does.
+ */
+export interface GmailIngestScope {
+  query: string
+  /** Empty means all mail. */
+  labelIds: string[]
+}
+
+/**
+ * One date range of a backfill. `start` is inclusive and `end` exclusive,
+ * both as YYYY-MM-DD in UTC.
+ */
+export interface GmailBackfillWindow {
+  start: string
+  end: string
+  /** Set once no thread listed in the window is left unprocessed. */
+  completedAt?: string
+}
+
+export interface GmailBackfillState {
+  start: string
+  end: string
+  windowDays: number
+  /** Oldest first. */
+  windows: GmailBackfillWindow[]
+  createdAt: string
+  completedAt?: string
+}
+
+/**
+ * What a thread looked like when it was extracted. A new message changes the
+ * count, last message ID and hash; any other change to the thread (labels,
+ * read state) only moves the history ID.
+ */
+export interface ThreadFingerprint {
+  messageCount: number
+  lastMessageId: string | null
+  /** SHA-1 over the ID and body text of every message. */
+  contentHash: string
+  historyId: string | null
+}
+
+/**
+ * The fingerprint is that of the last version of the thread that was handled:
+ * extracted and queued for review, including versions whose entries were all
+ * removed from the preview. Threads are not extracted again until it changes.
+ */
+export interface GmailThreadIngestRecord extends ThreadFingerprint {
+  /** Qdrant points written for the thread by its last ingest. */
+  pointIds: string[]
+  /**
+   * Content hash of the version `pointIds` were written from, when a later
+   * version was handled without being ingested. Defaults to `contentHash`.
+   */
+  pointsContentHash?: string
+  ingestedAt: string
+  /**
+   * When entries of the thread were last deleted from the knowledge base. The
+   * thread stays handled, so they are not extracted again until it changes.
+   */
+  deletedAt?: string
+}
+
 export interface GmailIngestState {
   historyId?: string
   processedThreadIds: string[]
@@ -10,10 +78,21 @@ export interface GmailIngestState {
   lastUpdatedAt?: string
   rules?: string
   previewMaxThreads?: number | null
+  scope?: GmailIngestScope
+  backfill?: GmailBackfillState | null
+  /** Ingestion records keyed by Gmail thread ID. */
+  threads?: Record<string, GmailThreadIngestRecord>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_INGEST_SCOPE: GmailIngestScope = {
+  query: "",
+  labelIds: ["INBOX"],
 }
 
-const STATE_DIR = path.join(process.cwd(), "data")
-const STATE_PATH = path.join(STATE_DIR, "ingest-state.json")
+const STATE_DIR = path.join(process.cwd(), "data", "ingest-state")
+const LEGACY_STATE_PATH = path.join(process.cwd(), "data", "ingest-state.json")
 
 const defaultState: GmailIngestState = {
   processedThreadIds: [],
@@ -21,13 +100,46 @@ const defaultState: GmailIngestState = {
   previewMaxThreads: null,
 }
 
+// The job worker and route handlers update the same state file; running each
+// read-modify-write for a mailbox one at a time keeps them from overwriting
+// each other. Shared across route bundles like the job runtime.
+const globalForIngestState = globalThis as unknown as {
+  __inboxerIngestStateLocks?: Map<string, Promise<unknown>>
+}
+
+function withStateLock<T>(mailbox: string, run: () => Promise<T>) {
+  const locks = (globalForIngestState.__inboxerIngestStateLocks ??= new Map())
+  const key = mailbox.toLowerCase()
+  const next = (locks.get(key) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(run)
+
+  locks.set(key, next)
+  next
+    .finally(() => {
+      if (locks.get(key) === next) {
+        locks.delete(key)
+      }
+    })
+    .catch(() => undefined)
+
+  return next
+}
+
 async function ensureStateDir() {
   await fs.mkdir(STATE_DIR, { recursive: true })
 }
 
-export async function readIngestState(): Promise<GmailIngestState> {
+function getStatePath(mailbox: string) {
+  const fileName = mailbox.toLowerCase().replace(/[^a-z0-9@._-]/g, "_")
+  return path.join(STATE_DIR, `${fileName}.json`)
+}
+
+export async function readIngestState(
+  mailbox: string
+): Promise<GmailIngestState> {
   try {
-    const raw = await fs.readFile(STATE_PATH, "utf8")
+    const raw = await fs.readFile(getStatePath(mailbox), "utf8")
     const parsed = JSON.parse(raw) as Partial<GmailIngestState>
     return normalizeState(parsed)
   } catch (error: any) {
@@ -38,39 +150,239 @@ export async function readIngestState(): Promise<GmailIngestState> {
   }
 }
 
-export async function writeIngestState(state: GmailIngestState) {
+/**
+ * Single-mailbox installs kept their state in data/ingest-state.json. The
+ * mailbox of a session from that time copies it as its own state so progress
+ * survives; other mailboxes start fresh. The legacy file is left in place and
+ * a mailbox that already has state keeps it.
+ */
+export async function adoptLegacyState(mailbox: string) {
+  try {
+    await ensureStateDir()
+    await fs.copyFile(
+      LEGACY_STATE_PATH,
+      getStatePath(mailbox),
+      fsConstants.COPYFILE_EXCL
+    )
+  } catch (error: any) {
+    if (error?.code === "ENOENT" || error?.code === "EEXIST") {
+      return false
+    }
+    throw error
+  }
+  return true
+}
+
+export async function writeIngestState(
+  mailbox: string,
+  state: GmailIngestState
+) {
   await ensureStateDir()
   const normalized = normalizeState(state)
   normalized.lastUpdatedAt = new Date().toISOString()
-  await fs.writeFile(STATE_PATH, JSON.stringify(normalized, null, 2), "utf8")
+  await fs.writeFile(
+    getStatePath(mailbox),
+    JSON.stringify(normalized, null, 2),
+    "utf8"
+  )
 }
 
-export async function updateIngestState(update: Partial<GmailIngestState>) {
-  const current = await readIngestState()
-  const merged = mergeState(current, update)
-  await writeIngestState(merged)
-  return merged
+export async function updateIngestState(
+  mailbox: string,
+  update: Partial<GmailIngestState>
+) {
+  return withStateLock(mailbox, async () => {
+    const current = await readIngestState(mailbox)
+    const merged = mergeState(current, update)
+    await writeIngestState(mailbox, merged)
+    return merged
+  })
 }
 
-export async function addProcessedThreads(threadIds: string[]) {
+export async function addProcessedThreads(
+  mailbox: string,
+  threadIds: string[]
+) {
   if (!threadIds?.length) {
-    return readIngestState()
+    return readIngestState(mailbox)
   }
-  const state = await readIngestState()
-  const set = new Set(state.processedThreadIds)
-  for (const id of threadIds) {
-    if (id) {
-      set.add(id)
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    const set = new Set(state.processedThreadIds)
+    for (const id of threadIds) {
+      if (id) {
+        set.add(id)
+      }
     }
+    state.processedThreadIds = Array.from(set)
+    state.lastFullIngestAt = new Date().toISOString()
+    await writeIngestState(mailbox, state)
+    return state
+  })
+}
+
+/**
+ * Stores the ingestion record of each thread and marks the threads as
+ * processed.
+ */
+export async function recordThreadIngestion(
+  mailbox: string,
+  records: Record<string, GmailThreadIngestRecord>
+) {
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    state.threads = { ...state.threads, ...records }
+    state.processedThreadIds = Array.from(
+      new Set([...state.processedThreadIds, ...Object.keys(records)])
+    )
+    state.lastFullIngestAt = new Date().toISOString()
+    await writeIngestState(mailbox, state)
+    return state
+  })
+}
+
+/**
+ * Records the version of each thread handled in a preview, whether its
+ * entries were queued for review or removed, and marks the threads as
+ * processed. Points already stored for a thread are kept, together with the
+ * content hash they were written from, so a later ingest still replaces them.
+ */
+export async function recordHandledThreads(
+  mailbox: string,
+  threads: Array<ThreadFingerprint & { threadId: string }>
+) {
+  if (!threads.length) {
+    return readIngestState(mailbox)
   }
-  state.processedThreadIds = Array.from(set)
-  state.lastFullIngestAt = new Date().toISOString()
-  await writeIngestState(state)
-  return state
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    const now = new Date().toISOString()
+    const records = { ...state.threads }
+
+    for (const { threadId, ...fingerprint } of threads) {
+      const existing = records[threadId]
+      const pointsContentHash = existing
+        ? existing.pointsContentHash ?? existing.contentHash
+        : undefined
+      records[threadId] = {
+        ...fingerprint,
+        pointIds: existing?.pointIds ?? [],
+        ...(pointsContentHash && pointsContentHash !== fingerprint.contentHash
+          ? { pointsContentHash }
+          : {}),
+        ingestedAt: existing?.ingestedAt ?? now,
+      }
+    }
+
+    state.threads = records
+    state.processedThreadIds = Array.from(
+      new Set([
+        ...state.processedThreadIds,
+        ...threads.map((thread) => thread.threadId),
+      ])
+    )
+    await writeIngestState(mailbox, state)
+    return state
+  })
+}
+
+/**
+ * Moves a record's history ID forward after the thread was found unchanged,
+ * so it is not listed for re-extraction again.
+ */
+export async function refreshThreadRecord(
+  mailbox: string,
+  threadId: string,
+  historyId: string | null
+) {
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    const record = state.threads?.[threadId]
+    if (!record || !historyId || record.historyId === historyId) {
+      return state
+    }
+    record.historyId = historyId
+    await writeIngestState(mailbox, state)
+    return state
+  })
 }
 
-export function summarizeState(state: GmailIngestState) {
+/**
+ * Removes deleted points from the records of their threads and marks the
+ * records as deleted. Fingerprints are kept and the threads stay processed,
+ * so deleted entries are not extracted and queued again until the thread's
+ * content changes.
+ */
+export async function forgetDeletedPoints(
+  mailbox: string,
+  deleted: Array<{ threadId: string; pointId?: string }>
+) {
+  if (!deleted.length) {
+    return readIngestState(mailbox)
+  }
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    const now = new Date().toISOString()
+    let changed = false
+
+    for (const { threadId, pointId } of deleted) {
+      const record = state.threads?.[threadId]
+      if (!record) {
+        continue
+      }
+      record.pointIds = pointId
+        ? record.pointIds.filter((id) => id !== pointId)
+        : []
+      record.deletedAt = now
+      changed = true
+    }
+
+    if (!changed) {
+      return state
+    }
+    await writeIngestState(mailbox, state)
+    return state
+  })
+}
+
+export function fingerprintThread(
+  thread: GmailThreadDetail
+): ThreadFingerprint {
+  const hash = createHash("sha1")
+  for (const message of thread.messages) {
+    hash.update(`${message.id}\n${message.bodyText}\n`)
+  }
+
   return {
+    messageCount: thread.messages.length,
+    lastMessageId: thread.messages[thread.messages.length - 1]?.id ?? null,
+    contentHash: hash.digest("hex"),
+    historyId: thread.historyId ?? null,
+  }
+}
+
+/**
+ * True when Gmail reports a newer history ID for an ingested thread than the
+ * one recorded, i.e. the thread changed since and should be extracted again.
+ * Threads ingested before records existed have no baseline and are left alone.
+ */
+export function hasThreadChangedSince(
+  record: GmailThreadIngestRecord | undefined,
+  historyId: string | null | undefined
+) {
+  if (!record?.historyId || !historyId) {
+    return false
+  }
+  try {
+    return BigInt(historyId) > BigInt(record.historyId)
+  } catch {
+    return historyId !== record.historyId
+  }
+}
+
+export function summarizeState(mailbox: string, state: GmailIngestState) {
+  return {
+    mailbox,
     processedThreads: state.processedThreadIds.length,
     historyId: state.historyId ?? null,
     totalThreadsDetected: state.totalThreadsDetected ?? null,
@@ -82,9 +394,134 @@ export function summarizeState(state: GmailIngestState) {
       typeof state.previewMaxThreads === "number"
         ? state.previewMaxThreads
         : null,
+    scope: state.scope ?? DEFAULT_INGEST_SCOPE,
+    backfill: state.backfill ? summarizeBackfill(state.backfill) : null,
+    recordedThreads: Object.keys(state.threads ?? {}).length,
+  }
+}
+
+function summarizeBackfill(backfill: GmailBackfillState) {
+  const completedWindows = backfill.windows.filter(
+    (window) => window.completedAt
+  ).length
+  const current = backfill.windows.find((window) => !window.completedAt)
+
+  return {
+    start: backfill.start,
+    end: backfill.end,
+    windowDays: backfill.windowDays,
+    windowCount: backfill.windows.length,
+    completedWindows,
+    currentWindow: current ? { start: current.start, end: current.end } : null,
+    createdAt: backfill.createdAt,
+    completedAt: backfill.completedAt ?? null,
+  }
+}
+
+/**
+ * Splits `[start, end)` into consecutive windows of `windowDays`, oldest
+ * first. Dates are YYYY-MM-DD and read as UTC midnight.
+ */
+export function planBackfillWindows(
+  start: string,
+  end: string,
+  windowDays: number
+): GmailBackfillWindow[] {
+  const windows: GmailBackfillWindow[] = []
+  const endTime = Date.parse(end)
+  let cursor = Date.parse(start)
+
+  while (cursor < endTime) {
+    const next = Math.min(cursor + windowDays * DAY_MS, endTime)
+    windows.push({ start: toDateString(cursor), end: toDateString(next) })
+    cursor = next
+  }
+
+  return windows
+}
+
+/**
+ * Marks a backfill window as done, and the backfill itself once every window
+ * is.
+ */
+export async function completeBackfillWindow(
+  mailbox: string,
+  window: Pick<GmailBackfillWindow, "start" | "end">
+) {
+  return withStateLock(mailbox, async () => {
+    const state = await readIngestState(mailbox)
+    const backfill = state.backfill
+    const target = backfill?.windows.find(
+      (item) => item.start === window.start && item.end === window.end
+    )
+    if (!backfill || !target || target.completedAt) {
+      return state
+    }
+
+    const now = new Date().toISOString()
+    target.completedAt = now
+    if (backfill.windows.every((item) => item.completedAt)) {
+      backfill.completedAt = now
+    }
+
+    await writeIngestState(mailbox, state)
+    return state
+  })
+}
+
+function toDateString(time: number) {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/** Reads a thread fingerprint sent by a client, or null when it is invalid. */
+export function readThreadFingerprint(
+  value: unknown
+): ThreadFingerprint | null {
+  const fingerprint = (value ?? {}) as Partial<ThreadFingerprint>
+  if (
+    typeof fingerprint.contentHash !== "string" ||
+    !fingerprint.contentHash ||
+    typeof fingerprint.messageCount !== "number" ||
+    !Number.isInteger(fingerprint.messageCount)
+  ) {
+    return null
+  }
+  return {
+    messageCount: fingerprint.messageCount,
+    lastMessageId:
+      typeof fingerprint.lastMessageId === "string"
+        ? fingerprint.lastMessageId
+        : null,
+    contentHash: fingerprint.contentHash,
+    historyId:
+      typeof fingerprint.historyId === "string" ? fingerprint.historyId : null,
+  }
+}
+
+export function normalizeIngestScope(value: unknown): GmailIngestScope {
+  const scope = (value ?? {}) as Partial<GmailIngestScope>
+  return {
+    query: typeof scope.query === "string" ? scope.query.trim() : "",
+    labelIds: Array.isArray(scope.labelIds)
+      ? Array.from(
+          new Set(
+            scope.labelIds.filter(
+              (id): id is string => typeof id === "string" && Boolean(id)
+            )
+          )
+        )
+      : [...DEFAULT_INGEST_SCOPE.labelIds],
   }
 }
 
+export function isSameIngestScope(a: GmailIngestScope, b: GmailIngestScope) {
+  return (
+    a.query === b.query &&
+    a.labelIds.length === b.labelIds.length &&
+    a.labelIds.every((id) => b.labelIds.includes(id))
+  )
+}
+
 function normalizeState(
   partial: Partial<GmailIngestState>
 ): GmailIngestState {
@@ -102,6 +539,12 @@ function normalizeState(
         ? partial.rules
         : "",
     previewMaxThreads: normalizePositiveInteger(partial.previewMaxThreads),
+    scope: partial.scope ? normalizeIngestScope(partial.scope) : undefined,
+    backfill: partial.backfill ?? undefined,
+    threads:
+      partial.threads && typeof partial.threads === "object"
+        ? partial.threads
+        : undefined,
   }
 }
 
@@ -111,6 +554,16 @@ function mergeState(
 ): GmailIngestState {
   const merged = { ...current }
 
+  if (update.scope !== undefined) {
+    const scope = normalizeIngestScope(update.scope)
+    // The history cursor only covers threads of the old scope; a full listing
+    // is needed to find older threads that match the new one.
+    if (!isSameIngestScope(scope, current.scope ?? DEFAULT_INGEST_SCOPE)) {
+      merged.historyId = undefined
+    }
+    merged.scope = scope
+  }
+
   if (update.historyId) {
     merged.historyId = update.historyId
   }
@@ -137,6 +590,10 @@ function mergeState(
     merged.processedThreadIds = Array.from(set)
   }
 
+  if (update.backfill !== undefined) {
+    merged.backfill = update.backfill ?? undefined
+  }
+
   if (update.rules !== undefined) {
     merged.rules = update.rules ?? ""
   }
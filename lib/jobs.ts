@@ -0,0 +1,609 @@
+import { randomBytes } from "crypto"
+import { EventEmitter } from "events"
+import { promises as fs } from "fs"
+import path from "path"
+
+import {
+  GOOGLE_RECONNECT_REQUIRED,
+  fetchGmailThreadDetail,
+  isReconnectRequiredError,
+} from "@/lib/google-auth"
+import {
+  fingerprintThread,
+  readIngestState,
+  refreshThreadRecord,
+  type GmailIngestScope,
+  type ThreadFingerprint,
+} from "@/lib/ingest-state"
+import {
+  extractQuestionsAndAnswersFromThread,
+  type ExtractionTruncationReport,
+  type ThreadQAEntry,
+} from "@/lib/openai"
+import { createSessionAuth, getSessionById } from "@/lib/session"
+
+export type IngestJobStatus = "running" | "paused" | "cancelled" | "completed"
+
+export type IngestJobThreadStatus =
+  | "pending"
+  | "processing"
+  | "extracted"
+  | "failed"
+
+export type IngestJobMode = "delta" | "full" | "backfill"
+
+export type IngestJobAction =
+  | "pause"
+  | "resume"
+  | "cancel"
+  | "retry"
+  | "archive"
+
+export interface IngestJobThread {
+  threadId: string
+  status: IngestJobThreadStatus
+  attempts: number
+  nextAttemptAt?: string
+  error?: string
+  subject?: string
+  createdAt?: string | null
+  messageCount?: number
+  questions?: ThreadQAEntry[]
+  validationErrors?: string[]
+  /** How the thread was windowed and which messages were cut to fit. */
+  truncation?: ExtractionTruncationReport
+  fingerprint?: ThreadFingerprint
+  /**
+   * Content matched the thread's ingestion record, so extraction was skipped
+   * and its existing knowledge base entries stay as they are.
+   */
+  unchanged?: boolean
+  updatedAt?: string
+}
+
+export interface IngestJob {
+  id: string
+  sessionId: string
+  mailbox: string
+  status: IngestJobStatus
+  instructions?: string
+  mode?: IngestJobMode
+  historyId?: string | null
+  maxThreads?: number
+  /** Ingest scope the thread list was built from. */
+  scope?: GmailIngestScope
+  error?: string
+  errorCode?: string
+  threads: IngestJobThread[]
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+  archivedAt?: string
+  /**
+   * Number of extracted entries, set once the threads' extraction results are
+   * dropped from the stored job.
+   */
+  questionCount?: number
+}
+
+export interface IngestJobSummary {
+  id: string
+  mailbox: string
+  status: IngestJobStatus
+  mode: IngestJobMode | null
+  historyId: string | null
+  maxThreads: number | null
+  scope: GmailIngestScope | null
+  error: string | null
+  errorCode: string | null
+  total: number
+  pending: number
+  processing: number
+  extracted: number
+  failed: number
+  questions: number
+  createdAt: string
+  updatedAt: string
+  finishedAt: string | null
+  archivedAt: string | null
+}
+
+export interface CreateIngestJobInput {
+  sessionId: string
+  mailbox: string
+  threadIds: string[]
+  instructions?: string
+  mode?: IngestJobMode
+  historyId?: string | null
+  maxThreads?: number
+  scope?: GmailIngestScope
+}
+
+const JOBS_DIR = path.join(process.cwd(), "data")
+const JOBS_PATH = path.join(JOBS_DIR, "jobs.json")
+
+const JOB_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.INGEST_JOB_CONCURRENCY ?? "5") || 5
+)
+const MAX_THREAD_ATTEMPTS = 3
+const RETRY_BASE_DELAY_MS = 5000
+const WORKER_IDLE_DELAY_MS = 500
+// Extraction results are only needed until the preview is queued or discarded,
+// which archives the job. Finished jobs beyond the most recent ones drop them
+// as well so data/jobs.json does not grow with every preview.
+const MAX_FINISHED_JOBS_WITH_RESULTS = 5
+
+interface JobRuntime {
+  jobs: IngestJob[] | null
+  loading: Promise<IngestJob[]> | null
+  writeChain: Promise<void>
+  emitter: EventEmitter
+  inFlight: Set<string>
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+// Route handlers can be bundled into separate module instances, so the worker
+// state lives on globalThis to guarantee a single loop per Node process.
+const globalForJobs = globalThis as unknown as {
+  __inboxerJobRuntime?: JobRuntime
+}
+
+function getRuntime(): JobRuntime {
+  if (!globalForJobs.__inboxerJobRuntime) {
+    const emitter = new EventEmitter()
+    emitter.setMaxListeners(0)
+    globalForJobs.__inboxerJobRuntime = {
+      jobs: null,
+      loading: null,
+      writeChain: Promise.resolve(),
+      emitter,
+      inFlight: new Set(),
+      timer: null,
+    }
+  }
+  return globalForJobs.__inboxerJobRuntime
+}
+
+async function loadJobs(): Promise<IngestJob[]> {
+  const runtime = getRuntime()
+  if (runtime.jobs) {
+    return runtime.jobs
+  }
+
+  if (!runtime.loading) {
+    runtime.loading = readJobsFile().then((jobs) => {
+      // Threads that were mid-flight when the process stopped are retried.
+      for (const job of jobs) {
+        for (const thread of job.threads) {
+          if (thread.status === "processing") {
+            thread.status = "pending"
+          }
+        }
+      }
+      runtime.jobs = jobs
+      return jobs
+    })
+  }
+
+  return runtime.loading
+}
+
+async function readJobsFile(): Promise<IngestJob[]> {
+  try {
+    const raw = await fs.readFile(JOBS_PATH, "utf8")
+    const parsed = JSON.parse(raw) as { jobs?: IngestJob[] }
+    return Array.isArray(parsed.jobs) ? parsed.jobs : []
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+function persistJobs() {
+  const runtime = getRuntime()
+  dropFinishedJobResults(runtime.jobs ?? [])
+  const snapshot = JSON.stringify({ jobs: runtime.jobs ?? [] }, null, 2)
+
+  runtime.writeChain = runtime.writeChain
+    .then(async () => {
+      await fs.mkdir(JOBS_DIR, { recursive: true })
+      await fs.writeFile(JOBS_PATH, snapshot, "utf8")
+    })
+    .catch((error) => {
+      console.error("Failed to persist ingest jobs", error)
+    })
+
+  return runtime.writeChain
+}
+
+function dropFinishedJobResults(jobs: IngestJob[]) {
+  const finished = jobs
+    .filter((job) => isIngestJobFinished(job))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  let kept = 0
+  for (const job of finished) {
+    if (!job.archivedAt && kept < MAX_FINISHED_JOBS_WITH_RESULTS) {
+      kept += 1
+      continue
+    }
+    if (job.questionCount !== undefined) {
+      continue
+    }
+
+    job.questionCount = countJobQuestions(job)
+    for (const thread of job.threads) {
+      delete thread.questions
+      delete thread.validationErrors
+      delete thread.truncation
+    }
+  }
+}
+
+function countJobQuestions(job: IngestJob) {
+  return (
+    job.questionCount ??
+    job.threads.reduce(
+      (acc, thread) => acc + (thread.questions?.length ?? 0),
+      0
+    )
+  )
+}
+
+function touchJob(job: IngestJob) {
+  job.updatedAt = new Date().toISOString()
+  persistJobs()
+  getRuntime().emitter.emit(job.id, job)
+}
+
+export async function createIngestJob(
+  input: CreateIngestJobInput
+): Promise<IngestJob> {
+  const jobs = await loadJobs()
+  const now = new Date().toISOString()
+  const threadIds = Array.from(new Set(input.threadIds.filter(Boolean)))
+
+  const job: IngestJob = {
+    id: randomBytes(8).toString("hex"),
+    sessionId: input.sessionId,
+    mailbox: input.mailbox,
+    status: threadIds.length ? "running" : "completed",
+    instructions: input.instructions,
+    mode: input.mode,
+    historyId: input.historyId ?? null,
+    maxThreads: input.maxThreads,
+    scope: input.scope,
+    threads: threadIds.map((threadId) => ({
+      threadId,
+      status: "pending",
+      attempts: 0,
+    })),
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: threadIds.length ? undefined : now,
+  }
+
+  jobs.push(job)
+  touchJob(job)
+  ensureJobWorker()
+
+  return job
+}
+
+export async function listIngestJobs(sessionId: string, mailbox: string) {
+  const jobs = await loadJobs()
+  return jobs
+    .filter((job) => job.sessionId === sessionId && job.mailbox === mailbox)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getIngestJob(
+  jobId: string,
+  sessionId: string
+): Promise<IngestJob | null> {
+  const jobs = await loadJobs()
+  const job = jobs.find((item) => item.id === jobId)
+  return job && job.sessionId === sessionId ? job : null
+}
+
+export async function applyIngestJobAction(
+  job: IngestJob,
+  action: IngestJobAction
+): Promise<IngestJob> {
+  switch (action) {
+    case "pause":
+      if (job.status === "running") {
+        job.status = "paused"
+      }
+      break
+    case "resume":
+      if (job.status === "paused") {
+        job.status = "running"
+        job.error = undefined
+        job.errorCode = undefined
+      }
+      break
+    case "cancel":
+      if (job.status === "running" || job.status === "paused") {
+        job.status = "cancelled"
+        job.finishedAt = new Date().toISOString()
+      }
+      break
+    case "retry":
+      // A job whose results were dropped cannot produce a full preview again.
+      if (job.status === "cancelled" || job.questionCount !== undefined) {
+        break
+      }
+      for (const thread of job.threads) {
+        if (thread.status === "failed") {
+          thread.status = "pending"
+          thread.attempts = 0
+          thread.error = undefined
+          thread.nextAttemptAt = undefined
+        }
+      }
+      if (job.threads.some((thread) => thread.status === "pending")) {
+        job.status = "running"
+        job.error = undefined
+        job.errorCode = undefined
+        job.finishedAt = undefined
+      }
+      break
+    case "archive":
+      job.archivedAt = new Date().toISOString()
+      break
+  }
+
+  touchJob(job)
+  ensureJobWorker()
+  return job
+}
+
+/**
+ * Calls `listener` with the latest job state whenever it changes. Returns a
+ * function that removes the listener.
+ */
+export function subscribeToIngestJob(
+  jobId: string,
+  listener: (job: IngestJob) => void
+) {
+  const { emitter } = getRuntime()
+  emitter.on(jobId, listener)
+  return () => {
+    emitter.off(jobId, listener)
+  }
+}
+
+export function isIngestJobFinished(job: IngestJob) {
+  return job.status === "completed" || job.status === "cancelled"
+}
+
+export function summarizeIngestJob(job: IngestJob): IngestJobSummary {
+  const count = (status: IngestJobThreadStatus) =>
+    job.threads.filter((thread) => thread.status === status).length
+
+  return {
+    id: job.id,
+    mailbox: job.mailbox,
+    status: job.status,
+    mode: job.mode ?? null,
+    historyId: job.historyId ?? null,
+    maxThreads: job.maxThreads ?? null,
+    scope: job.scope ?? null,
+    error: job.error ?? null,
+    errorCode: job.errorCode ?? null,
+    total: job.threads.length,
+    pending: count("pending"),
+    processing: count("processing"),
+    extracted: count("extracted"),
+    failed: count("failed"),
+    questions: countJobQuestions(job),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    finishedAt: job.finishedAt ?? null,
+    archivedAt: job.archivedAt ?? null,
+  }
+}
+
+export function serializeIngestJob(job: IngestJob) {
+  return {
+    ...summarizeIngestJob(job),
+    instructions: job.instructions ?? "",
+    threads: job.threads,
+  }
+}
+
+/**
+ * Starts the worker loop if it is not already scheduled. The loop stops by
+ * itself once no running job has work left, and is restarted by the next
+ * job mutation.
+ */
+export function ensureJobWorker() {
+  const runtime = getRuntime()
+  if (runtime.timer) {
+    return
+  }
+  runtime.timer = setTimeout(() => {
+    runWorkerTick().catch((error) => {
+      console.error("Ingest job worker tick failed", error)
+    })
+  }, 0)
+}
+
+async function runWorkerTick() {
+  const runtime = getRuntime()
+  const jobs = await loadJobs()
+  const now = Date.now()
+  let hasOutstandingWork = false
+
+  for (const job of jobs) {
+    if (job.status !== "running") {
+      continue
+    }
+
+    for (const thread of job.threads) {
+      if (thread.status === "processing") {
+        hasOutstandingWork = true
+        continue
+      }
+      if (thread.status !== "pending") {
+        continue
+      }
+
+      hasOutstandingWork = true
+
+      if (runtime.inFlight.size >= JOB_CONCURRENCY) {
+        break
+      }
+      if (thread.nextAttemptAt && Date.parse(thread.nextAttemptAt) > now) {
+        continue
+      }
+
+      const key = `${job.id}:${thread.threadId}`
+      if (runtime.inFlight.has(key)) {
+        continue
+      }
+
+      runtime.inFlight.add(key)
+      processThread(job, thread).finally(() => {
+        runtime.inFlight.delete(key)
+        ensureJobWorker()
+      })
+    }
+
+    if (completeJobIfDone(job)) {
+      touchJob(job)
+    }
+  }
+
+  runtime.timer = null
+  if (hasOutstandingWork || runtime.inFlight.size) {
+    runtime.timer = setTimeout(() => {
+      runWorkerTick().catch((error) => {
+        console.error("Ingest job worker tick failed", error)
+      })
+    }, WORKER_IDLE_DELAY_MS)
+  }
+}
+
+async function processThread(job: IngestJob, thread: IngestJobThread) {
+  thread.status = "processing"
+  thread.attempts += 1
+  thread.updatedAt = new Date().toISOString()
+  touchJob(job)
+
+  try {
+    const session = await getSessionById(job.sessionId, job.mailbox)
+    if (!session || session.mailbox !== job.mailbox) {
+      thread.status = "pending"
+      thread.attempts -= 1
+      pauseJob(
+        job,
+        "The Google session for this job has ended. Reconnect and resume.",
+        GOOGLE_RECONNECT_REQUIRED
+      )
+      return
+    }
+
+    const detail = await fetchGmailThreadDetail(
+      createSessionAuth(session),
+      thread.threadId,
+      { includeAttachmentText: true }
+    )
+    const fingerprint = fingerprintThread(detail)
+    const state = await readIngestState(job.mailbox)
+    const unchanged =
+      state.threads?.[thread.threadId]?.contentHash === fingerprint.contentHash
+
+    thread.subject = detail.subject
+    thread.createdAt = detail.createdAt ?? null
+    thread.messageCount = detail.messageCount
+    thread.fingerprint = fingerprint
+
+    if (unchanged) {
+      // Labels or read state changed, not the conversation.
+      await refreshThreadRecord(
+        job.mailbox,
+        thread.threadId,
+        fingerprint.historyId
+      )
+      thread.unchanged = true
+      thread.questions = []
+      thread.validationErrors = undefined
+      thread.truncation = undefined
+    } else {
+      const extraction = await extractQuestionsAndAnswersFromThread(detail, {
+        instructions: job.instructions,
+      })
+      thread.unchanged = undefined
+      thread.questions = extraction.questions
+      thread.validationErrors = extraction.validationErrors.length
+        ? extraction.validationErrors
+        : undefined
+      thread.truncation = extraction.truncation
+    }
+
+    thread.status = "extracted"
+    thread.error = undefined
+    thread.nextAttemptAt = undefined
+  } catch (error) {
+    console.error("Ingest job thread failed", job.id, thread.threadId, error)
+
+    if (isReconnectRequiredError(error)) {
+      thread.status = "pending"
+      thread.attempts -= 1
+      pauseJob(
+        job,
+        "Google access has expired. Reconnect and resume the job.",
+        GOOGLE_RECONNECT_REQUIRED
+      )
+      return
+    }
+
+    thread.error =
+      (error as Error)?.message ??
+      "Failed to extract questions for this thread."
+
+    if (thread.attempts < MAX_THREAD_ATTEMPTS) {
+      thread.status = "pending"
+      thread.nextAttemptAt = new Date(
+        Date.now() + RETRY_BASE_DELAY_MS * 2 ** (thread.attempts - 1)
+      ).toISOString()
+    } else {
+      thread.status = "failed"
+    }
+  } finally {
+    thread.updatedAt = new Date().toISOString()
+    completeJobIfDone(job)
+    touchJob(job)
+  }
+}
+
+function pauseJob(job: IngestJob, reason: string, code?: string) {
+  if (job.status === "running") {
+    job.status = "paused"
+  }
+  job.error = reason
+  job.errorCode = code
+}
+
+function completeJobIfDone(job: IngestJob): boolean {
+  if (job.status !== "running") {
+    return false
+  }
+
+  const outstanding = job.threads.some(
+    (thread) => thread.status === "pending" || thread.status === "processing"
+  )
+
+  if (outstanding) {
+    return false
+  }
+
+  job.status = "completed"
+  job.finishedAt = new Date().toISOString()
+  return true
+}
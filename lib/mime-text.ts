@@ -0,0 +1,393 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ensp: " ",
+  emsp: " ",
+  thinsp: " ",
+  zwnj: "",
+  zwj: "",
+  shy: "",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  deg: "°",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  sect: "§",
+  para: "¶",
+  times: "×",
+  divide: "÷",
+}
+
+const WINDOWS_1252_ALIASES = new Set([
+  "us-ascii",
+  "ascii",
+  "iso-8859-1",
+  "iso8859-1",
+  "latin1",
+  "cp1252",
+])
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "center",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "main",
+  "nav",
+  "section",
+])
+
+const PARAGRAPH_TAGS = new Set([
+  "blockquote",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "ul",
+])
+
+// Elements whose content is never shown to the reader.
+const HIDDEN_ELEMENTS =
+  /<(script|style|head|title|noscript|template)\b[\s\S]*?<\/\1\s*>/gi
+
+const TAG_PATTERN =
+  /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g
+
+/**
+ * Converts an HTML email body to readable plain text: entities are decoded,
+ * block elements become line breaks, list items get bullets, table rows are
+ * flattened to `cell | cell` lines, link targets are kept next to their text
+ * and `<blockquote>` content is prefixed with `> ` like a plain-text reply.
+ */
+export function htmlToText(html: string): string {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(HIDDEN_ELEMENTS, "")
+
+  const writer = new TextWriter()
+  const lists: Array<{ ordered: boolean; index: number }> = []
+  let anchor: { href: string; text: string } | null = null
+  let cellIndex = 0
+  let inCell = false
+  let lastIndex = 0
+
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const text = decodeHtmlEntities(source.slice(lastIndex, match.index))
+    writer.write(text)
+    if (anchor) {
+      anchor.text += text
+    }
+    lastIndex = (match.index ?? 0) + match[0].length
+
+    const closing = match[1] === "/"
+    const tag = match[2].toLowerCase()
+    const attributes = match[3]
+
+    if (tag === "br") {
+      writer.newline()
+    } else if (tag === "hr") {
+      writer.paragraph()
+      writer.write("---")
+      writer.paragraph()
+    } else if (tag === "a") {
+      if (!closing) {
+        const href = readAttribute(attributes, "href")
+        anchor = href ? { href: decodeHtmlEntities(href), text: "" } : null
+      } else if (anchor) {
+        const suffix = formatLinkTarget(anchor.href, anchor.text)
+        if (suffix) {
+          writer.write(suffix)
+        }
+        anchor = null
+      }
+    } else if (tag === "img" && !closing) {
+      const alt = readAttribute(attributes, "alt")
+      if (alt?.trim()) {
+        writer.write(`[${decodeHtmlEntities(alt.trim())}]`)
+      }
+    } else if (tag === "ul" || tag === "ol") {
+      if (closing) {
+        lists.pop()
+      } else {
+        lists.push({ ordered: tag === "ol", index: 0 })
+      }
+      writer.paragraph()
+    } else if (tag === "li" && !closing) {
+      const list = lists[lists.length - 1]
+      writer.break()
+      writer.write(
+        `${"  ".repeat(Math.max(lists.length - 1, 0))}${
+          list?.ordered ? `${++list.index}.` : "-"
+        } `
+      )
+    } else if (tag === "tr") {
+      cellIndex = 0
+      inCell = false
+      writer.break()
+    } else if (tag === "td" || tag === "th") {
+      inCell = !closing
+      if (!closing && cellIndex > 0) {
+        writer.write(" | ")
+      }
+      if (!closing) {
+        cellIndex += 1
+      }
+    } else if (tag === "blockquote") {
+      writer.paragraph()
+      writer.quoteDepth += closing ? -1 : 1
+      writer.quoteDepth = Math.max(writer.quoteDepth, 0)
+    } else if (tag === "pre") {
+      writer.paragraph()
+      writer.preformatted += closing ? -1 : 1
+      writer.preformatted = Math.max(writer.preformatted, 0)
+    } else if (inCell && (PARAGRAPH_TAGS.has(tag) || BLOCK_TAGS.has(tag))) {
+      // Outlook wraps every cell's text in a paragraph; keep the row on one
+      // line.
+      writer.write(" ")
+    } else if (PARAGRAPH_TAGS.has(tag)) {
+      writer.paragraph()
+    } else if (BLOCK_TAGS.has(tag)) {
+      writer.break()
+    }
+  }
+
+  writer.write(decodeHtmlEntities(source.slice(lastIndex)))
+
+  return writer.toString()
+}
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);?/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const codePoint =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10)
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint === 0xa0 ? 0x20 : codePoint)
+          : entity
+      }
+      const value = NAMED_ENTITIES[name.toLowerCase()]
+      return value ?? entity
+    }
+  )
+}
+
+/**
+ * Reads the `charset` parameter of a `Content-Type` header value.
+ */
+export function getCharset(contentType?: string | null): string | undefined {
+  const match = contentType?.match(/charset\s*=\s*"?([^";\s]+)"?/i)
+  return match ? match[1].toLowerCase() : undefined
+}
+
+/**
+ * Decodes Gmail's base64url body data using the part's declared charset.
+ * Unknown or missing charsets fall back to UTF-8; `us-ascii` and
+ * `iso-8859-1` are decoded as Windows-1252, which is what mail clients
+ * actually send under those labels.
+ */
+export function decodeBodyData(data: string, charset?: string): string {
+  const sanitized = data.replace(/-/g, "+").replace(/_/g, "/")
+
+  let bytes: Buffer
+  try {
+    bytes = Buffer.from(sanitized, "base64")
+  } catch {
+    return ""
+  }
+
+  return decodeText(bytes, charset)
+}
+
+/**
+ * Decodes bytes in the given MIME charset, with the same fallbacks as
+ * `decodeBodyData`.
+ */
+export function decodeText(bytes: Buffer, charset?: string): string {
+  const label = normalizeCharset(charset)
+  if (label === "windows-1252") {
+    return decodeWindows1252(bytes)
+  }
+
+  try {
+    return new TextDecoder(label).decode(bytes)
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes)
+  }
+}
+
+function normalizeCharset(charset?: string) {
+  const label = charset?.trim().toLowerCase()
+  if (!label) {
+    return "utf-8"
+  }
+  if (WINDOWS_1252_ALIASES.has(label)) {
+    return "windows-1252"
+  }
+  return label
+}
+
+// Node's TextDecoder decodes windows-1252 as Latin-1, which turns the
+// 0x80-0x9F range (curly quotes, dashes, €) into control characters.
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x192, 0x201e, 0x2026, 0x2020, 0x2021, 0x2c6, 0x2030,
+  0x160, 0x2039, 0x152, 0x8d, 0x17d, 0x8f, 0x90, 0x2018, 0x2019, 0x201c, 0x201d,
+  0x2022, 0x2013, 0x2014, 0x2dc, 0x2122, 0x161, 0x203a, 0x153, 0x9d, 0x17e,
+  0x178,
+]
+
+function decodeWindows1252(bytes: Buffer) {
+  let text = ""
+  for (const byte of Array.from(bytes)) {
+    text += String.fromCharCode(
+      byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte
+    )
+  }
+  return text
+}
+
+function readAttribute(attributes: string, name: string) {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+  )
+  return match ? match[1] ?? match[2] ?? match[3] : undefined
+}
+
+function formatLinkTarget(href: string, text: string) {
+  const target = href.trim()
+  if (!/^(https?:|mailto:)/i.test(target)) {
+    return ""
+  }
+
+  const label = text.trim()
+  const bare = target.replace(/^mailto:/i, "")
+  if (!label || label === target || label === bare) {
+    return label ? "" : target
+  }
+  return ` (${bare})`
+}
+
+class TextWriter {
+  quoteDepth = 0
+  preformatted = 0
+  private lines: string[] = []
+  private current = ""
+  private currentQuote = 0
+  private pendingSpace = false
+
+  write(text: string) {
+    if (!text) {
+      return
+    }
+
+    if (this.preformatted) {
+      const [first, ...rest] = text.split(/\r?\n/)
+      this.append(first)
+      for (const line of rest) {
+        this.newline()
+        this.append(line)
+      }
+      return
+    }
+
+    const collapsed = text.replace(/\s+/g, " ")
+    if (collapsed === " ") {
+      this.pendingSpace = this.current.length > 0
+      return
+    }
+
+    if (collapsed.startsWith(" ") && this.current) {
+      this.pendingSpace = true
+    }
+    this.append(collapsed.trim())
+    this.pendingSpace = collapsed.endsWith(" ")
+  }
+
+  /** Ends the current line, unless nothing has been written to it yet. */
+  break() {
+    if (this.current) {
+      this.newline()
+    }
+  }
+
+  newline() {
+    this.lines.push(this.prefix() + this.current.trimEnd())
+    this.current = ""
+    this.pendingSpace = false
+    this.currentQuote = this.quoteDepth
+  }
+
+  /** Ends the current line and leaves one blank line before the next block. */
+  paragraph() {
+    this.break()
+    if (this.lines.length && this.lines[this.lines.length - 1] !== "") {
+      this.lines.push("")
+    }
+    this.currentQuote = this.quoteDepth
+  }
+
+  toString() {
+    const lines = this.current
+      ? [...this.lines, this.prefix() + this.current.trimEnd()]
+      : this.lines
+
+    return lines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  }
+
+  private append(text: string) {
+    if (!text) {
+      return
+    }
+    if (!this.current) {
+      this.currentQuote = this.quoteDepth
+    } else if (this.pendingSpace) {
+      this.current += " "
+    }
+    this.current += text
+    this.pendingSpace = false
+  }
+
+  private prefix() {
+    return this.currentQuote ? "> ".repeat(this.currentQuote) : ""
+  }
+}
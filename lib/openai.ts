@@ -1,6 +1,13 @@
 import OpenAI from "openai"
 
+import { formatAddress, type EmailAddress } from "@/lib/email-address"
 import type { GmailMessageDetail, GmailThreadDetail } from "@/lib/google-auth"
+import type { QASearchHit } from "@/lib/qdrant"
+import {
+  estimateTokens,
+  planThreadWindows,
+  truncateToTokens,
+} from "@/lib/thread-windows"
 
 export function getOpenAIClient() {
   const apiKey = process.env.OPENAI_API_KEY
@@ -18,54 +25,331 @@ interface ExtractQuestionsOptions {
   model?: string
 }
 
+export const QA_CATEGORIES = [
+  "billing",
+  "technical",
+  "account",
+  "product",
+  "policy",
+  "scheduling",
+  "other",
+] as const
+
+export type QACategory = (typeof QA_CATEGORIES)[number]
+
+/**
+ * A question and its answer as extracted from a thread. The provenance fields
+ * are optional because records ingested before they existed do not carry them.
+ */
 export interface ThreadQAEntry {
   question: string
   answer: string
+  /** Gmail message ID the question was asked in. */
+  questionMessageId?: string | null
+  /** Gmail message ID that answers the question. */
+  answerMessageId?: string | null
+  /** Address of the sender who asked. */
+  askedBy?: string | null
+  /** Address of the sender who answered. */
+  answeredBy?: string | null
+  /** ISO timestamp of the answering message. */
+  answeredAt?: string | null
+  /** Model's confidence in the answer, between 0 and 1. */
+  confidence?: number | null
+  category?: QACategory | null
+}
+
+export interface ExtractionTruncationReport {
+  /** Number of prompt windows the thread was split into. */
+  windows: number
+  windowTokenBudget: number
+  messageTokenLimit: number
+  /** Messages shared between neighbouring windows. */
+  overlapMessages: number
+  estimatedTokens: number
+  /** Messages whose body and attachment text was cut to `messageTokenLimit`. */
+  truncatedMessageIds: string[]
+}
+
+export interface ThreadExtraction {
+  questions: ThreadQAEntry[]
+  /** Problems found in the model output. Invalid entries are dropped. */
+  validationErrors: string[]
+  /** True when the first response was malformed and a repair was attempted. */
+  repaired: boolean
+  truncation: ExtractionTruncationReport
+}
+
+interface ExtractionWindowInput {
+  thread: GmailThreadDetail
+  messages: GmailMessageDetail[]
+  formatted: string[]
+  instructions?: string
+  part: { index: number; total: number } | null
+}
+
+type ExtractionParseResult =
+  | {
+      status: "ok"
+      extraction: Pick<ThreadExtraction, "questions" | "validationErrors">
+    }
+  | { status: "invalid"; errors: string[] }
+
+export interface GroundedAnswerCitation {
+  pointId: string
+  threadId: string
+  question: string
+  score: number
+  /** Null when the source is an imported entry. */
+  threadUrl: string | null
+}
+
+export interface GroundedAnswer {
+  answer: string
+  refused: boolean
+  citations: GroundedAnswerCitation[]
+}
+
+interface AnswerQuestionOptions {
+  model?: string
 }
 
 const DEFAULT_RESPONSE_MODEL = process.env.OPENAI_RESPONSE_MODEL ?? "gpt-5-nano"
 const DEFAULT_EMBEDDING_MODEL =
   process.env.OPENAI_EMBEDDING_MODEL ?? "text-embedding-3-small"
 
+const EXTRACTION_WINDOW_TOKENS = Math.max(
+  1000,
+  Number(process.env.OPENAI_EXTRACTION_WINDOW_TOKENS ?? "12000") || 12000
+)
+const EXTRACTION_MESSAGE_TOKENS = Math.max(
+  250,
+  Number(process.env.OPENAI_EXTRACTION_MESSAGE_TOKENS ?? "3000") || 3000
+)
+const EXTRACTION_WINDOW_OVERLAP_MESSAGES = 2
+
+const QA_EXTRACTION_FORMAT = {
+  type: "json_schema" as const,
+  name: "thread_questions",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      questions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            question: { type: "string" },
+            answer: { type: "string" },
+            questionMessageId: { type: ["string", "null"] },
+            answerMessageId: { type: ["string", "null"] },
+            confidence: { type: "number" },
+            category: { type: "string", enum: [...QA_CATEGORIES] },
+          },
+          required: [
+            "question",
+            "answer",
+            "questionMessageId",
+            "answerMessageId",
+            "confidence",
+            "category",
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["questions"],
+    additionalProperties: false,
+  },
+}
+
+const GROUNDED_ANSWER_FORMAT = {
+  type: "json_schema" as const,
+  name: "grounded_answer",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      answer: { type: "string" },
+      sources: { type: "array", items: { type: "integer" } },
+    },
+    required: ["answer", "sources"],
+    additionalProperties: false,
+  },
+}
+
 export async function extractQuestionsAndAnswersFromThread(
   thread: GmailThreadDetail,
   { instructions, model = DEFAULT_RESPONSE_MODEL }: ExtractQuestionsOptions = {}
-): Promise<ThreadQAEntry[]> {
+): Promise<ThreadExtraction> {
   const client = getOpenAIClient()
 
-  const prompt = buildPromptForThread(thread, instructions)
+  const formatted = thread.messages.map((message) =>
+    formatMessageForPrompt(message)
+  )
+  const windows = planThreadWindows(
+    formatted.map((message) => estimateTokens(message.text)),
+    EXTRACTION_WINDOW_TOKENS,
+    EXTRACTION_WINDOW_OVERLAP_MESSAGES
+  )
+
+  const truncation: ExtractionTruncationReport = {
+    windows: windows.length,
+    windowTokenBudget: EXTRACTION_WINDOW_TOKENS,
+    messageTokenLimit: EXTRACTION_MESSAGE_TOKENS,
+    overlapMessages:
+      windows.length > 1 ? EXTRACTION_WINDOW_OVERLAP_MESSAGES : 0,
+    estimatedTokens: windows.reduce(
+      (acc, window) => acc + window.estimatedTokens,
+      0
+    ),
+    truncatedMessageIds: thread.messages
+      .filter((_, index) => formatted[index].truncated)
+      .map((message) => message.id),
+  }
+
+  // Windows run one after another so a long thread does not burst past the
+  // OpenAI rate limit on its own.
+  const results: Array<Omit<ThreadExtraction, "truncation">> = []
+  for (let index = 0; index < windows.length; index++) {
+    const window = windows[index]
+    results.push(
+      await extractFromWindow(client, model, {
+        thread,
+        messages: thread.messages.slice(window.start, window.end),
+        formatted: formatted
+          .slice(window.start, window.end)
+          .map((message) => message.text),
+        instructions,
+        part: windows.length > 1 ? { index, total: windows.length } : null,
+      })
+    )
+  }
+
+  return {
+    questions: mergeWindowQuestions(results.map((result) => result.questions)),
+    validationErrors: results.flatMap((result) => result.validationErrors),
+    repaired: results.some((result) => result.repaired),
+    truncation,
+  }
+}
+
+async function extractFromWindow(
+  client: OpenAI,
+  model: string,
+  window: ExtractionWindowInput
+): Promise<Omit<ThreadExtraction, "truncation">> {
+  const { thread, messages } = window
+  const prompt = buildPromptForThread(window)
 
   const response = await client.responses.create({
     model,
     input: prompt,
+    text: { format: QA_EXTRACTION_FORMAT },
+  })
+
+  const parsed = parseExtractionOutput(response.output_text, messages)
+  if (parsed.status === "ok") {
+    return { ...parsed.extraction, repaired: false }
+  }
+
+  console.warn(
+    "Model returned malformed Q&A output, attempting repair",
+    thread.id,
+    parsed.errors
+  )
+
+  const repairResponse = await client.responses.create({
+    model,
+    input: buildPromptForRepair(response.output_text, parsed.errors),
+    text: { format: QA_EXTRACTION_FORMAT },
+  })
+
+  const repaired = parseExtractionOutput(repairResponse.output_text, messages)
+  if (repaired.status === "ok") {
+    return {
+      questions: repaired.extraction.questions,
+      validationErrors: [
+        ...parsed.errors,
+        ...repaired.extraction.validationErrors,
+      ],
+      repaired: true,
+    }
+  }
+
+  console.error(
+    "Failed to repair Q&A output",
+    thread.id,
+    repairResponse.output_text,
+    repaired.errors
+  )
+  return {
+    questions: [],
+    validationErrors: [...parsed.errors, ...repaired.errors],
+    repaired: true,
+  }
+}
+
+export async function answerQuestionFromSources(
+  question: string,
+  sources: QASearchHit[],
+  { model = DEFAULT_RESPONSE_MODEL }: AnswerQuestionOptions = {}
+): Promise<GroundedAnswer> {
+  if (!sources.length) {
+    return buildRefusal()
+  }
+
+  const client = getOpenAIClient()
+
+  const response = await client.responses.create({
+    model,
+    input: buildPromptForGroundedAnswer(question, sources),
+    text: { format: GROUNDED_ANSWER_FORMAT },
   })
 
   const text = cleanModelOutput(response.output_text)
 
   if (!text) {
-    return []
+    return buildRefusal()
   }
 
+  let parsed: { answer?: unknown; sources?: unknown }
   try {
-    const parsed = JSON.parse(text) as ThreadQAEntry[]
-    if (!Array.isArray(parsed)) {
-      throw new Error("Expected JSON array response from model")
-    }
-    return parsed
-      .map((entry) => ({
-        question: entry.question?.trim() ?? "",
-        answer: entry.answer?.trim() ?? "",
-      }))
-      .filter((entry) => {
-        if (!entry.question || !entry.answer) {
-          return false
-        }
-        const normalizedAnswer = entry.answer.toLowerCase()
-        return normalizedAnswer !== "unknown" && normalizedAnswer !== "n/a"
-      })
+    parsed = JSON.parse(text) ?? {}
   } catch (error) {
-    console.error("Failed to parse LLM response as JSON", text, error)
-    throw new Error("Model returned an invalid response. Please try again.")
+    // Treated like an answer without sources rather than failing the request.
+    console.error("Failed to parse grounded answer as JSON", text, error)
+    return buildRefusal()
+  }
+
+  const answer = typeof parsed.answer === "string" ? parsed.answer.trim() : ""
+  const citedIndexes = Array.isArray(parsed.sources)
+    ? parsed.sources.filter(
+        (value): value is number =>
+          Number.isInteger(value) && value >= 1 && value <= sources.length
+      )
+    : []
+
+  if (!answer || !citedIndexes.length) {
+    return buildRefusal()
+  }
+
+  const citations = Array.from(new Set(citedIndexes)).map((index) => {
+    const source = sources[index - 1]
+    return {
+      pointId: source.id,
+      threadId: source.threadId,
+      question: source.question,
+      score: source.score,
+      threadUrl: source.threadUrl,
+    }
+  })
+
+  return {
+    answer,
+    refused: false,
+    citations,
   }
 }
 
@@ -87,52 +371,296 @@ export async function embedTexts(
   return data.map((item) => item.embedding)
 }
 
-function buildPromptForThread(
-  thread: GmailThreadDetail,
-  instructions?: string
-) {
-  const condensedMessages = thread.messages.map((message) =>
-    formatMessageForPrompt(message)
-  )
+function buildPromptForThread({
+  formatted,
+  instructions,
+  part,
+}: ExtractionWindowInput) {
+  const partBlock = part
+    ? `This thread is too long for one request. You are seeing part ${
+        part.index + 1
+      } of ${
+        part.total
+      }; earlier or later messages are omitted. Only extract questions whose answer appears in the messages below.\n`
+    : ""
 
   const instructionBlock = instructions
     ? `Additional instructions from the operator:\n${instructions}\n`
     : ""
+  const categoryList = QA_CATEGORIES.join(", ")
 
   const prompt = `
 You are an email analysis assistant. Given the messages of a Gmail thread, extract any explicit questions that were asked and provide the best available answers from the thread context. If a question is unanswered, ignore it and don't include as part of the list. If there are no questions, return an empty array.
 
+${partBlock}
 ${instructionBlock}
 
-Respond strictly in JSON array format, where each entry has the shape:
-[
-  {
-    "question": "Question text",
-    "answer": "Answer text"
-  }
-]
+Text of attached files is included under "Attachment:" after the message it was sent with. Treat it as part of that message; an answer given in an attachment is answered by that message.
+
+For each entry, reference the Message-ID of the message that asks the question and of the message that answers it (null if it cannot be attributed to a single message), rate your confidence that the answer is correct and complete from 0 to 1, and pick the closest category: ${categoryList}.
+
+Respond with a JSON object of the shape:
+{
+  "questions": [
+    {
+      "question": "Question text",
+      "answer": "Answer text",
+      "questionMessageId": "Message-ID of the question",
+      "answerMessageId": "Message-ID of the answer",
+      "confidence": 0.9,
+      "category": "billing"
+    }
+  ]
+}
 
 Here is the formatted thread context:
-${condensedMessages.join("\n\n---\n\n")}
+${formatted.join("\n\n---\n\n")}
 `.trim()
 
   return prompt
 }
 
+function buildPromptForRepair(raw: string, errors: string[]) {
+  return `
+The following output was supposed to be a JSON object with a "questions" array of {"question", "answer", "questionMessageId", "answerMessageId", "confidence", "category"} entries, but it is invalid:
+
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return the same content as a valid JSON object of that shape. Do not add, drop or rephrase questions or answers.
+
+Invalid output:
+${raw}
+`.trim()
+}
+
+function buildPromptForGroundedAnswer(
+  question: string,
+  sources: QASearchHit[]
+) {
+  const sourceBlock = sources
+    .map(
+      (source, index) =>
+        `[${index + 1}] Thread ${source.threadId}\nQuestion: ${
+          source.question
+        }\nAnswer: ${source.answer}`
+    )
+    .join("\n\n")
+
+  return `
+You are a support assistant answering questions using only answers previously given in the team's email threads. Use only the numbered sources below. If the sources do not contain the answer, do not guess; respond with an empty answer and no sources.
+
+Respond strictly in JSON object format with the shape:
+{
+  "answer": "Answer text",
+  "sources": [1, 2]
+}
+
+"sources" lists the numbers of every source the answer relies on.
+
+Sources:
+${sourceBlock}
+
+Question: ${question}
+`.trim()
+}
+
+function buildRefusal(): GroundedAnswer {
+  return {
+    answer:
+      "I couldn't find a previously answered email that covers this question.",
+    refused: true,
+    citations: [],
+  }
+}
+
+/**
+ * Formats a message with the text of its attachments. The combined text is
+ * capped at `EXTRACTION_MESSAGE_TOKENS`, keeping the header and body first,
+ * so a message with many attachments cannot fill a window on its own.
+ */
 function formatMessageForPrompt(message: GmailMessageDetail) {
   const header = [
-    `From: ${message.from}`,
-    `To: ${message.to}`,
+    `Message-ID: ${message.id}`,
+    `From: ${formatAddressList(message.addresses.from) || message.from}`,
+    `To: ${formatAddressList(message.addresses.to) || message.to}`,
+    message.addresses.cc.length
+      ? `Cc: ${formatAddressList(message.addresses.cc)}`
+      : null,
     message.date ? `Date: ${message.date}` : null,
   ]
     .filter(Boolean)
     .join("\n")
 
+  // Quoted history would make every reply repeat the questions of the
+  // messages before it, so only the sender's new content is sent.
   const body =
-    message.bodyText?.slice(0, 4000) ??
+    message.newContent ||
+    message.bodyText ||
     "No body text available for this message."
+  const attachments = message.attachments
+    .filter((attachment) => attachment.text)
+    .map(
+      (attachment) => `Attachment: ${attachment.filename}\n${attachment.text}`
+    )
+
+  return truncateToTokens(
+    [`${header}\nSubject: ${message.subject}\n\n${body}`, ...attachments]
+      .join("\n\n")
+      .trim(),
+    EXTRACTION_MESSAGE_TOKENS
+  )
+}
+
+/**
+ * Combines the entries of overlapping windows. The same question can be found
+ * in two windows; the copy with the higher confidence wins, and on a tie the
+ * one answered later in the thread.
+ */
+function mergeWindowQuestions(groups: ThreadQAEntry[][]): ThreadQAEntry[] {
+  const merged = new Map<string, ThreadQAEntry>()
+
+  for (const entry of groups.flat()) {
+    const key = normalizeQuestion(entry.question)
+    const existing = merged.get(key)
+
+    if (!existing || isBetterEntry(entry, existing)) {
+      merged.set(key, entry)
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+function isBetterEntry(candidate: ThreadQAEntry, current: ThreadQAEntry) {
+  const candidateConfidence = candidate.confidence ?? 0
+  const currentConfidence = current.confidence ?? 0
+  if (candidateConfidence !== currentConfidence) {
+    return candidateConfidence > currentConfidence
+  }
+  return (candidate.answeredAt ?? "") > (current.answeredAt ?? "")
+}
+
+function normalizeQuestion(question: string) {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function parseExtractionOutput(
+  raw: string | null | undefined,
+  messages: GmailMessageDetail[]
+): ExtractionParseResult {
+  const text = cleanModelOutput(raw)
+
+  if (!text) {
+    return { status: "ok", extraction: { questions: [], validationErrors: [] } }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return {
+      status: "invalid",
+      errors: [`Output is not valid JSON: ${(error as Error).message}`],
+    }
+  }
+
+  // Older models without structured output support answer with a bare array.
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { questions?: unknown } | null)?.questions
+
+  if (!Array.isArray(entries)) {
+    return {
+      status: "invalid",
+      errors: ['Expected an object with a "questions" array.'],
+    }
+  }
+
+  const questions: ThreadQAEntry[] = []
+  const validationErrors: string[] = []
+
+  entries.forEach((entry, index) => {
+    const question =
+      typeof entry?.question === "string" ? entry.question.trim() : ""
+    const answer = typeof entry?.answer === "string" ? entry.answer.trim() : ""
+
+    if (!question || !answer) {
+      validationErrors.push(
+        `Entry ${index + 1} is missing a non-empty question or answer.`
+      )
+      return
+    }
+
+    const normalizedAnswer = answer.toLowerCase()
+    if (normalizedAnswer === "unknown" || normalizedAnswer === "n/a") {
+      return
+    }
+
+    const questionMessage = resolveMessage(
+      messages,
+      entry.questionMessageId,
+      `Entry ${index + 1} questionMessageId`,
+      validationErrors
+    )
+    const answerMessage = resolveMessage(
+      messages,
+      entry.answerMessageId,
+      `Entry ${index + 1} answerMessageId`,
+      validationErrors
+    )
+
+    questions.push({
+      question,
+      answer,
+      questionMessageId: questionMessage?.id ?? null,
+      answerMessageId: answerMessage?.id ?? null,
+      askedBy: questionMessage?.addresses.from[0]?.email ?? null,
+      answeredBy: answerMessage?.addresses.from[0]?.email ?? null,
+      answeredAt: answerMessage?.date ? toIsoDate(answerMessage.date) : null,
+      confidence:
+        typeof entry.confidence === "number" &&
+        Number.isFinite(entry.confidence)
+          ? Math.min(Math.max(entry.confidence, 0), 1)
+          : null,
+      category: QA_CATEGORIES.includes(entry.category)
+        ? entry.category
+        : "other",
+    })
+  })
+
+  return { status: "ok", extraction: { questions, validationErrors } }
+}
+
+function resolveMessage(
+  messages: GmailMessageDetail[],
+  messageId: unknown,
+  label: string,
+  validationErrors: string[]
+): GmailMessageDetail | null {
+  if (messageId === null || messageId === undefined || messageId === "") {
+    return null
+  }
+
+  const message = messages.find((item) => item.id === messageId)
+  if (!message) {
+    validationErrors.push(`${label} does not match a message in the thread.`)
+    return null
+  }
+  return message
+}
+
+function formatAddressList(addresses: EmailAddress[]) {
+  return addresses.map(formatAddress).join(", ")
+}
 
-  return `${header}\nSubject: ${message.subject}\n\n${body}`.trim()
+/** Null when the Date header can't be parsed, so `answeredAt` stays ISO. */
+function toIsoDate(value: string) {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
 }
 
 function cleanModelOutput(raw?: string | null): string | null {
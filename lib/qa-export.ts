@@ -0,0 +1,186 @@
+import { QA_CATEGORIES } from "@/lib/openai"
+import type { BrowsedQAPoint } from "@/lib/qa-points"
+
+export const QA_EXPORT_FORMATS = ["jsonl", "csv", "markdown"] as const
+
+export type QAExportFormat = (typeof QA_EXPORT_FORMATS)[number]
+
+export type ExportedQAPoint = BrowsedQAPoint & { vector?: number[] }
+
+export const QA_EXPORT_CONTENT_TYPES: Record<QAExportFormat, string> = {
+  jsonl: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+}
+
+const QA_EXPORT_EXTENSIONS: Record<QAExportFormat, string> = {
+  jsonl: "jsonl",
+  csv: "csv",
+  markdown: "md",
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "mailbox",
+  "threadId",
+  "question",
+  "answer",
+  "category",
+  "confidence",
+  "askedBy",
+  "answeredBy",
+  "answeredAt",
+  "questionMessageId",
+  "answerMessageId",
+  "createdAt",
+  "ingestedAt",
+  "sourceThreadIds",
+  "source",
+] as const
+
+/**
+ * Spreadsheets evaluate cells starting with these characters as formulas, so
+ * exported text starting with one is prefixed with `'`. The importer strips
+ * that prefix again.
+ */
+export const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const UNCATEGORIZED_HEADING = "Uncategorized"
+
+export function buildQAExportFilename(
+  format: QAExportFormat,
+  date = new Date()
+) {
+  return `inboxer-qa-${date.toISOString().slice(0, 10)}.${
+    QA_EXPORT_EXTENSIONS[format]
+  }`
+}
+
+/**
+ * Encodes pages of stored entries as an export document. JSONL and CSV are
+ * written page by page as they arrive; the Markdown FAQ is grouped by
+ * category, so it is written once every page was read. Vectors are included
+ * in JSONL records and as a JSON-encoded CSV column when present.
+ */
+export function createQAExportStream(
+  pages: AsyncIterable<ExportedQAPoint[]>,
+  format: QAExportFormat,
+  options: { includeVectors?: boolean } = {}
+) {
+  const encoder = new TextEncoder()
+  const iterator = pages[Symbol.asyncIterator]()
+  const collected: ExportedQAPoint[] = []
+  let wroteHeader = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (format === "csv" && !wroteHeader) {
+          wroteHeader = true
+          const columns: string[] = [...CSV_COLUMNS]
+          if (options.includeVectors) {
+            columns.push("vector")
+          }
+          controller.enqueue(encoder.encode(`${columns.join(",")}\r\n`))
+          return
+        }
+
+        // A pull that enqueues nothing is not repeated, so keep reading
+        // until there is output.
+        while (true) {
+          const { value: points, done } = await iterator.next()
+          if (done) {
+            if (format === "markdown") {
+              controller.enqueue(encoder.encode(formatMarkdownFaq(collected)))
+            }
+            controller.close()
+            return
+          }
+
+          if (format === "markdown") {
+            collected.push(...points)
+            continue
+          }
+
+          const lines = points.map((point) =>
+            format === "jsonl"
+              ? `${JSON.stringify(formatJsonRecord(point))}\n`
+              : `${formatCsvRow(point, options.includeVectors)}\r\n`
+          )
+          controller.enqueue(encoder.encode(lines.join("")))
+          return
+        }
+      } catch (error) {
+        console.error("Failed to export knowledge base", error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+function formatJsonRecord(point: ExportedQAPoint) {
+  // The thread URL only resolves inside this app, so it is not exported.
+  const { threadUrl, ...record } = point
+  return record
+}
+
+function formatCsvRow(point: ExportedQAPoint, includeVectors?: boolean) {
+  const values = CSV_COLUMNS.map((column) => {
+    const value = point[column]
+    return Array.isArray(value) ? value.join(" ") : value
+  })
+  if (includeVectors) {
+    values.push(point.vector ? JSON.stringify(point.vector) : null)
+  }
+  return values.map(escapeCsvValue).join(",")
+}
+
+function escapeCsvValue(value: string | number | null | undefined) {
+  if (value === null || value === undefined) {
+    return ""
+  }
+  const text =
+    typeof value === "string" && CSV_FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function formatMarkdownFaq(points: ExportedQAPoint[]) {
+  const groups = new Map<string, ExportedQAPoint[]>()
+  for (const point of points) {
+    const heading = point.category ?? UNCATEGORIZED_HEADING
+    groups.set(heading, [...(groups.get(heading) ?? []), point])
+  }
+
+  const headings = [...QA_CATEGORIES, UNCATEGORIZED_HEADING].filter(
+    (heading: string) => groups.has(heading)
+  )
+
+  const sections = headings.map((heading) => {
+    const entries = groups
+      .get(heading)!
+      .sort((a, b) => a.question.localeCompare(b.question))
+      .map(
+        (point) =>
+          `### ${toSingleLine(point.question)}\n\n${point.answer.trim()}\n`
+      )
+
+    return `## ${capitalize(heading)}\n\n${entries.join("\n")}`
+  })
+
+  return `# Frequently asked questions\n\n${
+    sections.length ? sections.join("\n") : "No entries to export.\n"
+  }`
+}
+
+function toSingleLine(value: string) {
+  return value.replace(/\s+/g, " ").trim()
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
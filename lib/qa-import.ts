@@ -0,0 +1,317 @@
+import { createHash } from "crypto"
+
+import { QA_CATEGORIES, type QACategory } from "@/lib/openai"
+import { CSV_FORMULA_PREFIX } from "@/lib/qa-export"
+import { ingestQAItems, type QAIngestItem } from "@/lib/qa-ingest"
+import { assertCollectionName } from "@/lib/qdrant"
+
+export const QA_IMPORT_FORMATS = ["jsonl", "csv"] as const
+
+export type QAImportFormat = (typeof QA_IMPORT_FORMATS)[number]
+
+export interface QAImportRowError {
+  /** 1-based line of the row in the file; a CSV header is line 1. */
+  row: number
+  error: string
+}
+
+export interface QAImportResult {
+  imported: number
+  errors: QAImportRowError[]
+  collection: string | null
+  /** Why the import stopped early; `imported` entries were written before. */
+  failure?: string
+}
+
+/**
+ * Prefix of the synthetic thread IDs given to imported rows that were not
+ * extracted from a thread, such as a curated FAQ. Each row gets its own,
+ * derived from the mailbox and question, so deleting one entry's "thread"
+ * leaves the other imported entries alone.
+ */
+export const IMPORTED_THREAD_PREFIX = "import-"
+
+const IMPORT_BATCH_SIZE = 100
+
+/**
+ * Imports Q&A pairs from a JSONL or CSV file into a mailbox's entries. Rows
+ * are validated like ingested items; invalid ones are reported by line and
+ * skipped. Valid rows are embedded and upserted in batches, tagged with
+ * `source: "import"`. Point IDs derive from the thread ID and question as on
+ * ingest, so importing the same file again updates the existing entries
+ * instead of duplicating them. Rows naming a Gmail thread are rejected:
+ * ingesting that thread replaces all of its entries, so an imported copy
+ * would be deleted again.
+ *
+ * A failing batch stops the import; the result then carries the `failure`
+ * and how many entries were written before it.
+ */
+export async function importQAFile(
+  mailbox: string,
+  text: string,
+  format: QAImportFormat
+): Promise<QAImportResult> {
+  const { rows, errors } =
+    format === "csv" ? parseCsvRows(text) : parseJsonlRows(text)
+
+  const items: Array<{ row: number; item: QAIngestItem }> = []
+  for (const { row, value } of rows) {
+    const result = validateQAImportRow(value, mailbox)
+    if ("error" in result) {
+      errors.push({ row, error: result.error })
+    } else {
+      items.push({ row, item: result.item })
+    }
+  }
+
+  if (!items.length) {
+    errors.sort((a, b) => a.row - b.row)
+    return { imported: 0, errors, collection: null }
+  }
+
+  const collection = assertCollectionName()
+
+  let imported = 0
+  let failure: string | undefined
+  for (let start = 0; start < items.length; start += IMPORT_BATCH_SIZE) {
+    const batch = items.slice(start, start + IMPORT_BATCH_SIZE)
+
+    try {
+      await ingestQAItems(
+        mailbox,
+        batch.map(({ item }) => item),
+        [],
+        { source: "import" }
+      )
+      imported += batch.length
+    } catch (error) {
+      console.error("Failed to import a batch of Q&A pairs", error)
+      failure = (error as Error).message || "Failed to store imported entries."
+      break
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row)
+  return {
+    imported,
+    errors,
+    collection: imported ? collection : null,
+    ...(failure ? { failure } : {}),
+  }
+}
+
+/**
+ * Checks one parsed row against `QAIngestItem`, the shape of ingested items.
+ * `question` and `answer` are required; provenance fields are optional but
+ * must be valid when present. `threadId` may only name an imported thread, as
+ * written by an export.
+ */
+export function validateQAImportRow(
+  value: Record<string, unknown>,
+  mailbox: string
+): { item: QAIngestItem } | { error: string } {
+  const question = readText(value.question)
+  const answer = readText(value.answer)
+  if (!question || !answer) {
+    return { error: "A question and an answer are required." }
+  }
+
+  const threadId = readText(value.threadId)
+  if (value.threadId !== undefined && value.threadId !== null && !threadId) {
+    return { error: "threadId must be a non-empty string." }
+  }
+  if (threadId && !threadId.startsWith(IMPORTED_THREAD_PREFIX)) {
+    return {
+      error:
+        "threadId names a Gmail thread, whose entries are replaced when it is ingested again. Leave threadId empty to import the row on its own.",
+    }
+  }
+
+  const category = readText(value.category)?.toLowerCase()
+  if (category && !QA_CATEGORIES.includes(category as QACategory)) {
+    return {
+      error: `Unknown category "${category}". Use one of: ${QA_CATEGORIES.join(
+        ", "
+      )}.`,
+    }
+  }
+
+  const rawConfidence =
+    typeof value.confidence === "number"
+      ? value.confidence
+      : readText(value.confidence)
+  const confidence = rawConfidence === null ? null : Number(rawConfidence)
+  if (
+    confidence !== null &&
+    (!Number.isFinite(confidence) || confidence < 0 || confidence > 1)
+  ) {
+    return { error: "confidence must be a number between 0 and 1." }
+  }
+
+  const answeredAt = readText(value.answeredAt)
+  if (answeredAt && Number.isNaN(Date.parse(answeredAt))) {
+    return { error: `answeredAt "${answeredAt}" is not a valid date.` }
+  }
+
+  return {
+    item: {
+      threadId: threadId ?? buildImportedThreadId(mailbox, question),
+      question,
+      answer,
+      questionMessageId: readText(value.questionMessageId),
+      answerMessageId: readText(value.answerMessageId),
+      askedBy: readText(value.askedBy),
+      answeredBy: readText(value.answeredBy),
+      answeredAt: answeredAt ? new Date(answeredAt).toISOString() : null,
+      confidence,
+      category: (category as QACategory | undefined) ?? null,
+      createdAt: readText(value.createdAt),
+    },
+  }
+}
+
+function buildImportedThreadId(mailbox: string, question: string) {
+  const digest = createHash("sha1")
+    .update(`${mailbox}\n${question.replace(/\s+/g, " ").toLowerCase()}`)
+    .digest("hex")
+  return `${IMPORTED_THREAD_PREFIX}${digest.slice(0, 16)}`
+}
+
+function parseJsonlRows(text: string) {
+  const rows: Array<{ row: number; value: Record<string, unknown> }> = []
+  const errors: QAImportRowError[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return
+    }
+    try {
+      const value = JSON.parse(line)
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        rows.push({ row: index + 1, value })
+      } else {
+        errors.push({ row: index + 1, error: "Expected a JSON object." })
+      }
+    } catch {
+      errors.push({ row: index + 1, error: "Invalid JSON." })
+    }
+  })
+
+  return { rows, errors }
+}
+
+/**
+ * Parses RFC 4180 CSV with a header row naming the fields. Quoted values may
+ * span lines; rows are numbered by the line they start on. The `'` an export
+ * puts before values that would run as spreadsheet formulas is removed.
+ */
+function parseCsvRows(text: string) {
+  const { records, unclosedLine } = readCsvRecords(text.replace(/^\uFEFF/, ""))
+  const rows: Array<{ row: number; value: Record<string, unknown> }> = []
+  const errors: QAImportRowError[] = []
+  if (unclosedLine !== null) {
+    errors.push({
+      row: unclosedLine,
+      error:
+        "A quoted value is never closed, so this row and the rest of the file were not imported.",
+    })
+  }
+
+  const [header, ...body] = records
+  if (!header) {
+    return { rows, errors }
+  }
+
+  const columns = header.fields.map((column) => column.trim())
+  for (const record of body) {
+    if (record.fields.every((field) => !field.trim())) {
+      continue
+    }
+    if (record.fields.length > columns.length) {
+      errors.push({
+        row: record.line,
+        error: `Expected ${columns.length} columns, found ${record.fields.length}.`,
+      })
+      continue
+    }
+
+    const value: Record<string, unknown> = {}
+    columns.forEach((column, index) => {
+      const field = record.fields[index]
+      if (column && field !== undefined && field !== "") {
+        value[column] =
+          field.startsWith("'") && CSV_FORMULA_PREFIX.test(field.slice(1))
+            ? field.slice(1)
+            : field
+      }
+    })
+    rows.push({ row: record.line, value })
+  }
+
+  return { rows, errors }
+}
+
+function readCsvRecords(text: string) {
+  const records: Array<{ line: number; fields: string[] }> = []
+  let fields: string[] = []
+  let field = ""
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === "\n") line += 1
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1
+      }
+      fields.push(field)
+      records.push({ line: recordLine, fields })
+      fields = []
+      field = ""
+      line += 1
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  // An unclosed quote swallowed everything after it into one value.
+  if (inQuotes) {
+    return { records, unclosedLine: recordLine }
+  }
+
+  if (field || fields.length) {
+    fields.push(field)
+    records.push({ line: recordLine, fields })
+  }
+
+  return { records, unclosedLine: null }
+}
+
+function readText(value: unknown) {
+  if (typeof value !== "string") {
+    return null
+  }
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
@@ -0,0 +1,130 @@
+import {
+  readIngestState,
+  recordThreadIngestion,
+  type GmailThreadIngestRecord,
+  type ThreadFingerprint,
+} from "@/lib/ingest-state"
+import { embedTexts, type ThreadQAEntry } from "@/lib/openai"
+import {
+  assertCollectionName,
+  buildQAProvenancePayload,
+  createStablePointId,
+  ensureQdrantCollection,
+  ensureQdrantPayloadIndexes,
+  getQdrantClient,
+  replaceThreadPoints,
+  type QAPointSource,
+} from "@/lib/qdrant"
+
+export interface QAIngestItem extends ThreadQAEntry {
+  threadId: string
+  createdAt?: string | null
+}
+
+export interface QAIngestThread extends ThreadFingerprint {
+  threadId: string
+}
+
+/**
+ * Embeds entries and stores them for a mailbox. `threads` lists the threads
+ * the entries were extracted from: when a thread's content changed since its
+ * last ingest, every point written then is replaced; when it is the same
+ * extraction (entries approved over several rounds), the new points are
+ * added to the ones already recorded. `source` tags entries that did not
+ * come from a Gmail extraction.
+ */
+export async function ingestQAItems(
+  mailbox: string,
+  items: QAIngestItem[],
+  threads: QAIngestThread[] = [],
+  options: { source?: QAPointSource } = {}
+) {
+  const client = getQdrantClient()
+  const collection = assertCollectionName()
+
+  const inputs = items.map(formatQAEmbeddingInput)
+
+  const embeddings = inputs.length ? await embedTexts(inputs) : []
+
+  if (inputs.length && !embeddings.length) {
+    throw new Error("Unable to generate embeddings for provided items.")
+  }
+
+  if (embeddings.length) {
+    await ensureQdrantCollection(client, collection, embeddings[0].length)
+    await ensureQdrantPayloadIndexes(client, collection)
+  }
+
+  const points = items.map((item, index) => ({
+    id: createStablePointId(item.threadId, item.question),
+    vector: embeddings[index],
+    payload: {
+      threadId: item.threadId,
+      mailbox,
+      question: item.question,
+      answer: item.answer,
+      ...buildQAProvenancePayload(item),
+      createdAt: item.createdAt ?? null,
+      ingestedAt: new Date().toISOString(),
+      ...(options.source ? { source: options.source } : {}),
+    },
+  }))
+
+  const state = threads.length ? await readIngestState(mailbox) : null
+  const replaced = threads.filter((thread) => {
+    const record = state?.threads?.[thread.threadId]
+    return (
+      (record?.pointsContentHash ?? record?.contentHash) !== thread.contentHash
+    )
+  })
+
+  await replaceThreadPoints(
+    client,
+    collection,
+    mailbox,
+    replaced.map((thread) => ({
+      threadId: thread.threadId,
+      pointIds: state?.threads?.[thread.threadId]?.pointIds,
+    })),
+    points
+  )
+
+  if (threads.length) {
+    const ingestedAt = new Date().toISOString()
+    const records: Record<string, GmailThreadIngestRecord> = {}
+    for (const thread of threads) {
+      const kept = replaced.includes(thread)
+        ? []
+        : state?.threads?.[thread.threadId]?.pointIds ?? []
+      records[thread.threadId] = {
+        messageCount: thread.messageCount,
+        lastMessageId: thread.lastMessageId ?? null,
+        contentHash: thread.contentHash,
+        historyId: thread.historyId ?? null,
+        pointIds: Array.from(
+          new Set([
+            ...kept,
+            ...points
+              .filter((point) => point.payload.threadId === thread.threadId)
+              .map((point) => point.id),
+          ])
+        ),
+        ingestedAt,
+      }
+    }
+    await recordThreadIngestion(mailbox, records)
+  }
+
+  return {
+    upserted: points.length,
+    replacedThreads: replaced.length,
+    collection,
+  }
+}
+
+/** The text embedded for an entry, shared by ingest and later edits. */
+export function formatQAEmbeddingInput(
+  entry: Pick<ThreadQAEntry, "question" | "answer">
+) {
+  return `Question: ${entry.question}\nAnswer: ${entry.answer}`
+}
@@ -0,0 +1,316 @@
+import { createHash } from "crypto"
+import type { QdrantClient, Schemas } from "@qdrant/js-client-rest"
+
+import {
+  buildPointThreadUrl,
+  buildQAPointRecord,
+  isQdrantNotFoundError,
+  retrieveQAPoints,
+  type QAPointRecord,
+} from "@/lib/qdrant"
+
+export interface MergeProposal {
+  /** Hash of the member point IDs, stable while the cluster is unchanged. */
+  id: string
+  /** Lowest similarity among the links that formed the cluster. */
+  similarity: number
+  canonicalId: string
+  points: Array<QAPointRecord & { threadUrl: string | null }>
+}
+
+export interface FindMergeProposalsOptions {
+  threshold?: number
+  /** Most points scanned for one mailbox. */
+  maxPoints?: number
+}
+
+const DEFAULT_MERGE_THRESHOLD = Number(
+  process.env.QA_MERGE_SIMILARITY_THRESHOLD ?? "0.9"
+)
+const DEFAULT_MAX_SCANNED_POINTS = 5000
+const SCROLL_PAGE_SIZE = 256
+const SEARCH_BATCH_SIZE = 64
+const NEIGHBOURS_PER_POINT = 10
+
+/**
+ * Groups a mailbox's stored entries into clusters of semantically equivalent
+ * questions. Each point's nearest neighbours above the similarity threshold
+ * are looked up in Qdrant and linked transitively; pairs a reviewer split
+ * are never linked.
+ */
+export async function findMergeProposals(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  options: FindMergeProposalsOptions = {}
+): Promise<{ proposals: MergeProposal[]; scanned: number }> {
+  const threshold = normalizeThreshold(options.threshold)
+  const maxPoints = options.maxPoints ?? DEFAULT_MAX_SCANNED_POINTS
+  const filter = { must: [{ key: "mailbox", match: { value: mailbox } }] }
+
+  const records = new Map<string, QAPointRecord>()
+  const vectors = new Map<string, number[]>()
+  let offset: Schemas["ExtendedPointId"] | undefined
+
+  try {
+    do {
+      const page = await client.scroll(collection, {
+        filter,
+        limit: SCROLL_PAGE_SIZE,
+        offset,
+        with_payload: true,
+        with_vector: true,
+      })
+
+      for (const point of page.points) {
+        const record = buildQAPointRecord(point.id, point.payload)
+        if (record && Array.isArray(point.vector)) {
+          records.set(record.id, record)
+          vectors.set(record.id, point.vector as number[])
+        }
+      }
+
+      offset =
+        typeof page.next_page_offset === "string" ||
+        typeof page.next_page_offset === "number"
+          ? page.next_page_offset
+          : undefined
+    } while (offset !== undefined && records.size < maxPoints)
+  } catch (error) {
+    // A collection that was never created has nothing to merge.
+    if (isQdrantNotFoundError(error)) {
+      return { proposals: [], scanned: 0 }
+    }
+    throw error
+  }
+
+  const ids = Array.from(vectors.keys())
+  const parent = new Map(ids.map((id) => [id, id]))
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id
+    if (root === id) {
+      return id
+    }
+    const top = find(root)
+    parent.set(id, top)
+    return top
+  }
+  const linkScores = new Map<string, number>()
+
+  for (let start = 0; start < ids.length; start += SEARCH_BATCH_SIZE) {
+    const batch = ids.slice(start, start + SEARCH_BATCH_SIZE)
+    const results = await client.searchBatch(collection, {
+      searches: batch.map((id) => ({
+        vector: vectors.get(id) as number[],
+        filter,
+        limit: NEIGHBOURS_PER_POINT + 1,
+        score_threshold: threshold,
+        with_payload: false,
+      })),
+    })
+
+    results.forEach((hits, index) => {
+      const id = batch[index]
+      for (const hit of hits) {
+        const otherId = String(hit.id)
+        const other = records.get(otherId)
+        if (
+          !other ||
+          otherId === id ||
+          isMarkedDistinct(records.get(id)!, other)
+        ) {
+          continue
+        }
+
+        const rootA = find(id)
+        const rootB = find(otherId)
+        if (rootA !== rootB) {
+          parent.set(rootA, rootB)
+          linkScores.set(`${id}:${otherId}`, hit.score)
+        }
+      }
+    })
+  }
+
+  const clusters = new Map<string, QAPointRecord[]>()
+  for (const id of ids) {
+    const root = find(id)
+    clusters.set(root, [...(clusters.get(root) ?? []), records.get(id)!])
+  }
+
+  const proposals: MergeProposal[] = []
+  for (const points of Array.from(clusters.values())) {
+    if (points.length < 2) {
+      continue
+    }
+
+    const memberIds = new Set(points.map((point) => point.id))
+    const scores = Array.from(linkScores.entries())
+      .filter(([key]) => memberIds.has(key.split(":")[0]))
+      .map(([, score]) => score)
+
+    proposals.push({
+      id: hashPointIds(points.map((point) => point.id)),
+      similarity: scores.length ? Math.min(...scores) : threshold,
+      canonicalId: pickCanonicalPoint(points).id,
+      points: points.map((point) => ({
+        ...point,
+        threadUrl: buildPointThreadUrl(point),
+      })),
+    })
+  }
+
+  proposals.sort(
+    (a, b) => b.points.length - a.points.length || b.similarity - a.similarity
+  )
+
+  return { proposals, scanned: records.size }
+}
+
+/**
+ * The entry kept when merging: the most confident answer, then the most
+ * recently given one.
+ */
+export function pickCanonicalPoint(points: QAPointRecord[]) {
+  return points.reduce((best, point) => {
+    const confidence = (point.confidence ?? 0) - (best.confidence ?? 0)
+    if (confidence !== 0) {
+      return confidence > 0 ? point : best
+    }
+    return getPointTime(point) > getPointTime(best) ? point : best
+  })
+}
+
+/**
+ * Merges duplicate entries into `canonicalId` (or the best of them): the
+ * canonical point keeps its question and answer and records every source
+ * thread, the rest are deleted. `excludedPointIds` were proposed alongside
+ * them but rejected by the reviewer and are marked as distinct from the
+ * canonical so they are not proposed again.
+ */
+export async function mergeQAPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  pointIds: string[],
+  options: { canonicalId?: string; excludedPointIds?: string[] } = {}
+) {
+  const points = await retrieveQAPoints(client, collection, mailbox, pointIds)
+  if (points.length < 2) {
+    throw new Error("At least two stored entries are needed to merge.")
+  }
+
+  const canonical =
+    points.find((point) => point.id === options.canonicalId) ??
+    pickCanonicalPoint(points)
+  const duplicates = points.filter((point) => point.id !== canonical.id)
+
+  const sourceThreadIds = new Set<string>()
+  for (const point of points) {
+    for (const threadId of point.sourceThreadIds ?? [point.threadId]) {
+      sourceThreadIds.add(threadId)
+    }
+  }
+
+  const excluded = await retrieveQAPoints(
+    client,
+    collection,
+    mailbox,
+    (options.excludedPointIds ?? []).filter((id) => !pointIds.includes(id))
+  )
+
+  const operations: Schemas["UpdateOperation"][] = [
+    {
+      set_payload: {
+        points: [canonical.id],
+        payload: {
+          sourceThreadIds: Array.from(sourceThreadIds),
+          distinctFrom: mergeIds(
+            canonical.distinctFrom,
+            excluded.map((point) => point.id)
+          ),
+        },
+      },
+    },
+    ...excluded.map((point) => ({
+      set_payload: {
+        points: [point.id],
+        payload: { distinctFrom: mergeIds(point.distinctFrom, [canonical.id]) },
+      },
+    })),
+    { delete: { points: duplicates.map((point) => point.id) } },
+  ]
+
+  await client.batchUpdate(collection, { operations, wait: true })
+
+  return {
+    canonicalId: canonical.id,
+    merged: duplicates.length,
+    sourceThreadIds: Array.from(sourceThreadIds),
+  }
+}
+
+/**
+ * Marks every pair of the given entries as distinct, splitting a proposed
+ * merge so the entries are kept separately and not proposed again.
+ */
+export async function splitQAPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  pointIds: string[]
+) {
+  const points = await retrieveQAPoints(client, collection, mailbox, pointIds)
+  if (points.length < 2) {
+    throw new Error("At least two stored entries are needed to split.")
+  }
+
+  const ids = points.map((point) => point.id)
+  await client.batchUpdate(collection, {
+    operations: points.map((point) => ({
+      set_payload: {
+        points: [point.id],
+        payload: {
+          distinctFrom: mergeIds(
+            point.distinctFrom,
+            ids.filter((id) => id !== point.id)
+          ),
+        },
+      },
+    })),
+    wait: true,
+  })
+
+  return { split: points.length }
+}
+
+function isMarkedDistinct(a: QAPointRecord, b: QAPointRecord) {
+  return Boolean(
+    a.distinctFrom?.includes(b.id) || b.distinctFrom?.includes(a.id)
+  )
+}
+
+function mergeIds(existing: string[] | undefined, added: string[]) {
+  return Array.from(new Set([...(existing ?? []), ...added]))
+}
+
+function getPointTime(point: QAPointRecord) {
+  const time = Date.parse(point.answeredAt ?? point.ingestedAt)
+  return Number.isNaN(time) ? 0 : time
+}
+
+function hashPointIds(ids: string[]) {
+  return createHash("sha1")
+    .update([...ids].sort().join(","))
+    .digest("hex")
+    .slice(0, 16)
+}
+
+function normalizeThreshold(value?: number) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Math.min(Math.max(value, 0), 1)
+  }
+  return Number.isFinite(DEFAULT_MERGE_THRESHOLD)
+    ? DEFAULT_MERGE_THRESHOLD
+    : 0.9
+}
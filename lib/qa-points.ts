@@ -0,0 +1,308 @@
+import type { QdrantClient, Schemas } from "@qdrant/js-client-rest"
+
+import { forgetDeletedPoints } from "@/lib/ingest-state"
+import { QA_CATEGORIES, embedTexts, type QACategory } from "@/lib/openai"
+import { formatQAEmbeddingInput } from "@/lib/qa-ingest"
+import {
+  buildPointThreadUrl,
+  buildQAPointRecord,
+  isQdrantNotFoundError,
+  retrieveQAPoints,
+  type QAPointRecord,
+} from "@/lib/qdrant"
+import type { OAuthSession } from "@/lib/session"
+
+export interface QAPointsFilter {
+  /** Mailboxes whose entries are listed; entries of other mailboxes never are. */
+  mailboxes: string[]
+  threadId?: string
+  category?: QACategory
+  /** Inclusive bounds on the answer date, as ISO dates or timestamps. */
+  answeredFrom?: string
+  answeredTo?: string
+}
+
+export interface BrowseQAPointsOptions extends QAPointsFilter {
+  limit?: number
+  /** `nextOffset` of the previous page. */
+  offset?: string
+}
+
+export interface BrowsedQAPoint extends QAPointRecord {
+  /** Null for imported entries. */
+  threadUrl: string | null
+}
+
+const DEFAULT_BROWSE_LIMIT = 25
+const MAX_BROWSE_LIMIT = 100
+const SCROLL_PAGE_SIZE = 256
+
+/**
+ * Mailboxes whose entries a request may read: every mailbox connected to the
+ * session, or only `session.mailbox` when the request named one, in which
+ * case the session was loaded for that mailbox.
+ */
+export function getReadableMailboxes(
+  session: OAuthSession,
+  requested?: string | null
+) {
+  return requested
+    ? [session.mailbox]
+    : session.accounts.map((account) => account.mailbox)
+}
+
+/**
+ * Reads the filter query parameters shared by the browse and export routes.
+ * Entries of every connected mailbox are included unless `mailbox` names one.
+ */
+export function readQAPointsFilter(
+  params: URLSearchParams,
+  session: OAuthSession
+): QAPointsFilter {
+  return {
+    mailboxes: getReadableMailboxes(session, params.get("mailbox")),
+    threadId: params.get("threadId")?.trim() || undefined,
+    category: (params.get("category") || undefined) as QACategory | undefined,
+    answeredFrom: params.get("from") || undefined,
+    answeredTo: params.get("to") || undefined,
+  }
+}
+
+/**
+ * Pages through stored entries in point ID order with Qdrant scroll,
+ * narrowed by payload filters. A date range only matches entries with a
+ * known answer date.
+ */
+export async function browseQAPoints(
+  client: QdrantClient,
+  collection: string,
+  options: BrowseQAPointsOptions
+): Promise<{ points: BrowsedQAPoint[]; nextOffset: string | null }> {
+  const page = await scrollPage(client, collection, options, {
+    limit: clampBrowseLimit(options.limit),
+    offset: options.offset,
+    withVectors: false,
+  })
+
+  return page
+    ? { points: page.points, nextOffset: page.nextOffset }
+    : { points: [], nextOffset: null }
+}
+
+/**
+ * Yields every stored entry matching `filter`, a scroll page at a time, with
+ * its vector when `withVectors` is set.
+ */
+export async function* scrollQAPoints(
+  client: QdrantClient,
+  collection: string,
+  filter: QAPointsFilter,
+  options: { withVectors?: boolean } = {}
+): AsyncGenerator<Array<BrowsedQAPoint & { vector?: number[] }>> {
+  let offset: string | undefined
+  do {
+    const page = await scrollPage(client, collection, filter, {
+      limit: SCROLL_PAGE_SIZE,
+      offset,
+      withVectors: options.withVectors ?? false,
+    })
+    if (!page) {
+      return
+    }
+    yield page.points
+    offset = page.nextOffset ?? undefined
+  } while (offset)
+}
+
+/**
+ * Replaces the question or answer of a stored entry and re-embeds it, so
+ * search matches the edited text. Returns null when the point does not exist
+ * in `mailbox`.
+ */
+export async function updateQAPoint(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  pointId: string,
+  changes: { question?: string; answer?: string }
+) {
+  const [point] = await retrieveQAPoints(client, collection, mailbox, [pointId])
+  if (!point) {
+    return null
+  }
+
+  const question = changes.question?.trim() || point.question
+  const answer = changes.answer?.trim() || point.answer
+  if (question === point.question && answer === point.answer) {
+    return point
+  }
+
+  const [vector] = await embedTexts([
+    formatQAEmbeddingInput({ question, answer }),
+  ])
+  if (!vector) {
+    throw new Error("Unable to generate an embedding for the edited entry.")
+  }
+
+  const editedAt = new Date().toISOString()
+  const operations: Schemas["UpdateOperation"][] = [
+    { update_vectors: { points: [{ id: point.id, vector }] } },
+    {
+      set_payload: {
+        points: [point.id],
+        payload: { question, answer, editedAt },
+      },
+    },
+  ]
+  await client.batchUpdate(collection, { operations, wait: true })
+
+  return { ...point, question, answer }
+}
+
+/**
+ * Deletes the given entries, or every entry of `threadId`, from a mailbox,
+ * and drops them from the ingest records of their threads. Returns how many
+ * points were deleted.
+ */
+export async function deleteQAPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  selection: { pointIds?: string[]; threadId?: string }
+) {
+  if (selection.threadId) {
+    const filter = {
+      must: [
+        { key: "threadId", match: { value: selection.threadId } },
+        { key: "mailbox", match: { value: mailbox } },
+      ],
+    } as Schemas["Filter"]
+    let count: number
+    try {
+      const result = await client.count(collection, { filter, exact: true })
+      count = result.count
+    } catch (error) {
+      // Nothing to delete when the collection was never created.
+      if (isQdrantNotFoundError(error)) {
+        return 0
+      }
+      throw error
+    }
+    if (count) {
+      await client.delete(collection, { filter, wait: true })
+      await forgetDeletedPoints(mailbox, [{ threadId: selection.threadId }])
+    }
+    return count
+  }
+
+  const points = await retrieveQAPoints(
+    client,
+    collection,
+    mailbox,
+    selection.pointIds ?? []
+  )
+  if (points.length) {
+    await client.delete(collection, {
+      points: points.map((point) => point.id),
+      wait: true,
+    })
+    await forgetDeletedPoints(
+      mailbox,
+      points.map((point) => ({ threadId: point.threadId, pointId: point.id }))
+    )
+  }
+  return points.length
+}
+
+async function scrollPage(
+  client: QdrantClient,
+  collection: string,
+  filter: QAPointsFilter,
+  options: { limit: number; offset?: string; withVectors: boolean }
+) {
+  let page: Awaited<ReturnType<QdrantClient["scroll"]>>
+  try {
+    page = await client.scroll(collection, {
+      filter: buildQAPointsFilter(filter),
+      limit: options.limit,
+      offset: options.offset || undefined,
+      with_payload: true,
+      with_vector: options.withVectors,
+    })
+  } catch (error) {
+    // A collection that was never created has nothing to browse.
+    if (isQdrantNotFoundError(error)) {
+      return null
+    }
+    throw error
+  }
+
+  const points: Array<BrowsedQAPoint & { vector?: number[] }> = []
+  for (const point of page.points) {
+    const record = buildQAPointRecord(point.id, point.payload)
+    if (!record) {
+      continue
+    }
+    points.push({
+      ...record,
+      threadUrl: buildPointThreadUrl(record),
+      ...(options.withVectors && Array.isArray(point.vector)
+        ? { vector: point.vector as number[] }
+        : {}),
+    })
+  }
+
+  const nextOffset =
+    typeof page.next_page_offset === "string" ||
+    typeof page.next_page_offset === "number"
+      ? String(page.next_page_offset)
+      : null
+
+  return { points, nextOffset }
+}
+
+function buildQAPointsFilter(filter: QAPointsFilter) {
+  const must: Array<Record<string, unknown>> = [
+    { key: "mailbox", match: { any: filter.mailboxes } },
+  ]
+  if (filter.threadId) {
+    must.push({ key: "threadId", match: { value: filter.threadId } })
+  }
+  if (filter.category && QA_CATEGORIES.includes(filter.category)) {
+    must.push({ key: "category", match: { value: filter.category } })
+  }
+
+  const answeredFrom = toDateBound(filter.answeredFrom, "start")
+  const answeredTo = toDateBound(filter.answeredTo, "end")
+  if (answeredFrom || answeredTo) {
+    must.push({
+      key: "answeredAt",
+      range: {
+        ...(answeredFrom ? { gte: answeredFrom } : {}),
+        ...(answeredTo ? { lte: answeredTo } : {}),
+      },
+    })
+  }
+
+  return { must }
+}
+
+function toDateBound(value: string | undefined, bound: "start" | "end") {
+  if (!value) {
+    return null
+  }
+
+  // Bare dates from a date picker cover the whole day.
+  const withTime = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T${bound === "start" ? "00:00:00.000" : "23:59:59.999"}Z`
+    : value
+  const time = Date.parse(withTime)
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+function clampBrowseLimit(value?: number) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    return DEFAULT_BROWSE_LIMIT
+  }
+  return Math.min(Math.floor(value), MAX_BROWSE_LIMIT)
+}
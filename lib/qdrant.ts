@@ -1,6 +1,12 @@
 import { createHash } from "crypto"
 
-import { QdrantClient } from "@qdrant/js-client-rest"
+import { QdrantClient, type Schemas } from "@qdrant/js-client-rest"
+
+import {
+  QA_CATEGORIES,
+  type QACategory,
+  type ThreadQAEntry,
+} from "@/lib/openai"
 
 let cachedClient: QdrantClient | null = null
 
@@ -30,6 +36,57 @@ export interface VectorRecord {
   payload?: Record<string, unknown>
 }
 
+export interface QAPointPayload extends ThreadQAEntry {
+  threadId: string
+  mailbox: string | null
+  createdAt: string | null
+  ingestedAt: string
+  /** Every thread the entry was asked in, set when duplicates were merged. */
+  sourceThreadIds?: string[]
+  /** Points a reviewer marked as not duplicates of this one. */
+  distinctFrom?: string[]
+  /** Set to `import` on entries imported from a file rather than a thread. */
+  source?: QAPointSource
+}
+
+export type QAPointSource = "import"
+
+export interface QAPointRecord extends QAPointPayload {
+  id: string
+}
+
+export interface QASearchHit extends QAPointRecord {
+  score: number
+  /** Null for imported entries, which have no Gmail thread to open. */
+  threadUrl: string | null
+}
+
+export interface SearchQAPointsOptions {
+  limit?: number
+  scoreThreshold?: number
+  /** Only entries of these mailboxes are returned. */
+  mailboxes: string[]
+  category?: QACategory
+  minConfidence?: number
+}
+
+const QA_PAYLOAD_INDEXES = {
+  threadId: "keyword",
+  mailbox: "keyword",
+  askedBy: "keyword",
+  answeredBy: "keyword",
+  category: "keyword",
+  confidence: "float",
+  answeredAt: "datetime",
+  sourceThreadIds: "keyword",
+} as const
+
+const DEFAULT_SEARCH_LIMIT = 10
+const MAX_SEARCH_LIMIT = 50
+const DEFAULT_SEARCH_SCORE_THRESHOLD = Number(
+  process.env.QDRANT_SEARCH_SCORE_THRESHOLD ?? "0.3"
+)
+
 export function assertCollectionName() {
   const collection = process.env.QDRANT_COLLECTION
   if (!collection) {
@@ -56,11 +113,7 @@ export async function ensureQdrantCollection(
     }
     return
   } catch (error: any) {
-    const statusCode =
-      error?.response?.status ?? error?.status ?? error?.code ?? null
-    const message = error?.response?.data?.status?.error ?? error?.message
-
-    if (statusCode !== 404 && !String(message || "").includes("Not found")) {
+    if (!isQdrantNotFoundError(error)) {
       throw error
     }
   }
@@ -73,6 +126,45 @@ export async function ensureQdrantCollection(
   })
 }
 
+/**
+ * Creates the payload indexes used for filtering. Qdrant treats re-creating
+ * an existing index as a no-op, so this is safe to call on every upsert.
+ */
+export async function ensureQdrantPayloadIndexes(
+  client: QdrantClient,
+  collection: string
+) {
+  for (const [field, schema] of Object.entries(QA_PAYLOAD_INDEXES)) {
+    await client.createPayloadIndex(collection, {
+      field_name: field,
+      field_schema: schema,
+      wait: true,
+    })
+  }
+}
+
+/**
+ * Copies the optional provenance fields of an extracted entry into a point
+ * payload, dropping anything that is not of the expected type.
+ */
+export function buildQAProvenancePayload(entry: Partial<ThreadQAEntry>) {
+  return {
+    questionMessageId: stringOrNull(entry.questionMessageId),
+    answerMessageId: stringOrNull(entry.answerMessageId),
+    askedBy: stringOrNull(entry.askedBy)?.toLowerCase() ?? null,
+    answeredBy: stringOrNull(entry.answeredBy)?.toLowerCase() ?? null,
+    answeredAt: stringOrNull(entry.answeredAt),
+    confidence:
+      typeof entry.confidence === "number" && Number.isFinite(entry.confidence)
+        ? Math.min(Math.max(entry.confidence, 0), 1)
+        : null,
+    category:
+      entry.category && QA_CATEGORIES.includes(entry.category)
+        ? entry.category
+        : null,
+  }
+}
+
 export function createStablePointId(threadId: string, question: string) {
   const hash = createHash("sha1")
     .update(`${threadId}:${question}`)
@@ -84,3 +176,405 @@ export function createStablePointId(threadId: string, question: string) {
     16
   )}-${hash.slice(16, 20)}-${hash.slice(20)}`
 }
+
+/**
+ * Replaces every point of the given threads with `points` in one batch: the
+ * deletes and the upsert are applied together, so a search never sees a
+ * thread with both its old and new entries, or with neither. Points are
+ * matched by thread ID and mailbox, plus the IDs recorded at the previous
+ * ingest for points written before the thread ID was indexed.
+ *
+ * Merged entries that still cite threads outside `threads` are kept: only
+ * the replaced threads are dropped from their `sourceThreadIds`, since the
+ * other threads' own points were deleted by the merge. Upserted points keep
+ * the merge metadata of the point they overwrite.
+ */
+export async function replaceThreadPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  threads: Array<{ threadId: string; pointIds?: string[] }>,
+  points: VectorRecord[]
+) {
+  const replaced = new Set(threads.map((thread) => thread.threadId))
+  const operations: Schemas["UpdateOperation"][] = []
+
+  const keptIds: string[] = []
+  for (const point of await findMergedPoints(
+    client,
+    collection,
+    mailbox,
+    Array.from(replaced)
+  )) {
+    const remaining = (point.sourceThreadIds ?? []).filter(
+      (threadId) => !replaced.has(threadId)
+    )
+    if (!remaining.length) {
+      continue
+    }
+    keptIds.push(point.id)
+    operations.push({
+      set_payload: {
+        points: [point.id],
+        payload: {
+          sourceThreadIds: remaining,
+          threadId: remaining.includes(point.threadId)
+            ? point.threadId
+            : remaining[0],
+        },
+      },
+    })
+  }
+
+  for (const thread of threads) {
+    operations.push({
+      delete: {
+        filter: {
+          must: [
+            { key: "threadId", match: { value: thread.threadId } },
+            { key: "mailbox", match: { value: mailbox } },
+          ],
+          ...(keptIds.length ? { must_not: [{ has_id: keptIds }] } : {}),
+        } as Schemas["Filter"],
+      },
+    })
+    const pointIds = thread.pointIds?.filter((id) => !keptIds.includes(id))
+    if (pointIds?.length) {
+      operations.push({ delete: { points: pointIds } })
+    }
+  }
+
+  if (points.length) {
+    const existing = await retrieveExistingPoints(
+      client,
+      collection,
+      points.map((point) => point.id)
+    )
+    operations.push({
+      upsert: {
+        points: points.map((point) =>
+          withMergeMetadata(point, existing.get(point.id), replaced)
+        ),
+      },
+    })
+  }
+
+  if (!operations.length) {
+    return
+  }
+
+  try {
+    await client.batchUpdate(collection, { operations, wait: true })
+  } catch (error) {
+    // Nothing to delete when the collection was never created.
+    if (points.length || !isQdrantNotFoundError(error)) {
+      throw error
+    }
+  }
+}
+
+export async function searchQAPoints(
+  client: QdrantClient,
+  collection: string,
+  vector: number[],
+  options: SearchQAPointsOptions
+): Promise<QASearchHit[]> {
+  const limit = clampSearchLimit(options.limit)
+  const scoreThreshold = normalizeScoreThreshold(options.scoreThreshold)
+  const must: Array<Record<string, unknown>> = [
+    { key: "mailbox", match: { any: options.mailboxes } },
+  ]
+  if (options.category && QA_CATEGORIES.includes(options.category)) {
+    must.push({ key: "category", match: { value: options.category } })
+  }
+  if (
+    typeof options.minConfidence === "number" &&
+    Number.isFinite(options.minConfidence)
+  ) {
+    must.push({ key: "confidence", range: { gte: options.minConfidence } })
+  }
+
+  let results: Awaited<ReturnType<QdrantClient["search"]>>
+  try {
+    results = await client.search(collection, {
+      vector,
+      limit,
+      score_threshold: scoreThreshold,
+      filter: { must },
+      with_payload: true,
+      with_vector: false,
+    })
+  } catch (error) {
+    // A collection that was never created simply has nothing to search.
+    if (isQdrantNotFoundError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  return results
+    .map((point) => buildSearchHit(point.id, point.score, point.payload))
+    .filter((hit): hit is QASearchHit => hit !== null)
+}
+
+/**
+ * Loads stored entries by ID, keeping only those that belong to `mailbox`.
+ */
+export async function retrieveQAPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  pointIds: string[]
+) {
+  if (!pointIds.length) {
+    return []
+  }
+
+  const points = await client.retrieve(collection, {
+    ids: Array.from(new Set(pointIds)),
+    with_payload: true,
+    with_vector: false,
+  })
+
+  return points
+    .map((point) => buildQAPointRecord(point.id, point.payload))
+    .filter(
+      (record): record is QAPointRecord =>
+        record !== null && record.mailbox === mailbox
+    )
+}
+
+export function buildThreadUrl(threadId: string, mailbox?: string | null) {
+  const url = `/api/gmail/thread/${encodeURIComponent(threadId)}`
+  return mailbox ? `${url}?mailbox=${encodeURIComponent(mailbox)}` : url
+}
+
+/**
+ * Link to the Gmail thread a stored entry was extracted from, or null for an
+ * imported entry, whose thread ID does not name a Gmail thread.
+ */
+export function buildPointThreadUrl(
+  point: Pick<QAPointRecord, "threadId" | "mailbox" | "source">
+) {
+  return point.source === "import"
+    ? null
+    : buildThreadUrl(point.threadId, point.mailbox)
+}
+
+/**
+ * Reads a stored point back into a typed record, or null when its payload is
+ * missing the thread, question or answer.
+ */
+export function buildQAPointRecord(
+  id: string | number,
+  payload?: Record<string, unknown> | null
+): QAPointRecord | null {
+  const threadId = typeof payload?.threadId === "string" ? payload.threadId : ""
+  const question = typeof payload?.question === "string" ? payload.question : ""
+  const answer = typeof payload?.answer === "string" ? payload.answer : ""
+
+  if (!threadId || !question || !answer) {
+    return null
+  }
+
+  const sourceThreadIds = stringArray(payload?.sourceThreadIds)
+  const distinctFrom = stringArray(payload?.distinctFrom)
+
+  return {
+    id: String(id),
+    threadId,
+    mailbox: typeof payload?.mailbox === "string" ? payload.mailbox : null,
+    question,
+    answer,
+    ...buildQAProvenancePayload(payload ?? {}),
+    createdAt:
+      typeof payload?.createdAt === "string" ? payload.createdAt : null,
+    ingestedAt:
+      typeof payload?.ingestedAt === "string" ? payload.ingestedAt : "",
+    ...(sourceThreadIds.length ? { sourceThreadIds } : {}),
+    ...(distinctFrom.length ? { distinctFrom } : {}),
+    ...(payload?.source === "import" ? { source: "import" as const } : {}),
+  }
+}
+
+export function isQdrantNotFoundError(error: any) {
+  const statusCode =
+    error?.response?.status ?? error?.status ?? error?.code ?? null
+  const message = error?.response?.data?.status?.error ?? error?.message
+
+  return statusCode === 404 || String(message || "").includes("Not found")
+}
+
+/**
+ * Entries written by single-mailbox installs have no `mailbox` payload, so
+ * no mailbox filter matches them. Assigns them to `mailbox`, the account of
+ * that install. Assigned entries no longer match, so running it again is a
+ * no-op.
+ */
+export async function assignUnownedQAPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string
+) {
+  try {
+    await client.setPayload(collection, {
+      payload: { mailbox },
+      filter: { must: [{ is_empty: { key: "mailbox" } }] },
+      wait: true,
+    })
+  } catch (error) {
+    if (!isQdrantNotFoundError(error)) {
+      throw error
+    }
+  }
+}
+
+/** Merged entries of a mailbox that cite any of `threadIds`. */
+async function findMergedPoints(
+  client: QdrantClient,
+  collection: string,
+  mailbox: string,
+  threadIds: string[]
+) {
+  const records: QAPointRecord[] = []
+  if (!threadIds.length) {
+    return records
+  }
+
+  let offset: Schemas["ExtendedPointId"] | undefined
+  try {
+    do {
+      const page = await client.scroll(collection, {
+        filter: {
+          must: [
+            { key: "mailbox", match: { value: mailbox } },
+            { key: "sourceThreadIds", match: { any: threadIds } },
+          ],
+        },
+        limit: 256,
+        offset,
+        with_payload: true,
+        with_vector: false,
+      })
+      for (const point of page.points) {
+        const record = buildQAPointRecord(point.id, point.payload)
+        if (record?.sourceThreadIds && record.sourceThreadIds.length > 1) {
+          records.push(record)
+        }
+      }
+      offset =
+        typeof page.next_page_offset === "string" ||
+        typeof page.next_page_offset === "number"
+          ? page.next_page_offset
+          : undefined
+    } while (offset !== undefined)
+  } catch (error) {
+    if (isQdrantNotFoundError(error)) {
+      return []
+    }
+    throw error
+  }
+
+  return records
+}
+
+async function retrieveExistingPoints(
+  client: QdrantClient,
+  collection: string,
+  pointIds: string[]
+) {
+  const existing = new Map<string, QAPointRecord>()
+  try {
+    const points = await client.retrieve(collection, {
+      ids: Array.from(new Set(pointIds)),
+      with_payload: true,
+      with_vector: false,
+    })
+    for (const point of points) {
+      const record = buildQAPointRecord(point.id, point.payload)
+      if (record) {
+        existing.set(record.id, record)
+      }
+    }
+  } catch (error) {
+    if (!isQdrantNotFoundError(error)) {
+      throw error
+    }
+  }
+  return existing
+}
+
+/**
+ * Carries the merge metadata of the point being overwritten into its new
+ * payload. Sources among the replaced threads are dropped before the new
+ * point's own thread is added back.
+ */
+function withMergeMetadata(
+  point: VectorRecord,
+  existing: QAPointRecord | undefined,
+  replaced: Set<string>
+): VectorRecord {
+  if (!existing?.sourceThreadIds && !existing?.distinctFrom) {
+    return point
+  }
+
+  const threadId = String(point.payload?.threadId ?? existing.threadId)
+  const sourceThreadIds = Array.from(
+    new Set([
+      ...(existing.sourceThreadIds ?? []).filter((id) => !replaced.has(id)),
+      threadId,
+    ])
+  )
+
+  return {
+    ...point,
+    payload: {
+      ...point.payload,
+      ...(sourceThreadIds.length > 1 ? { sourceThreadIds } : {}),
+      ...(existing.distinctFrom ? { distinctFrom: existing.distinctFrom } : {}),
+    },
+  }
+}
+
+function buildSearchHit(
+  id: string | number,
+  score: number,
+  payload?: Record<string, unknown> | null
+): QASearchHit | null {
+  const record = buildQAPointRecord(id, payload)
+  if (!record) {
+    return null
+  }
+
+  return {
+    ...record,
+    score,
+    threadUrl: buildPointThreadUrl(record),
+  }
+}
+
+function stringOrNull(value: unknown) {
+  return typeof value === "string" && value ? value : null
+}
+
+function stringArray(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : []
+}
+
+function clampSearchLimit(value?: number) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    return DEFAULT_SEARCH_LIMIT
+  }
+  return Math.min(Math.floor(value), MAX_SEARCH_LIMIT)
+}
+
+function normalizeScoreThreshold(value?: number) {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Math.min(Math.max(value, 0), 1)
+  }
+  return Number.isFinite(DEFAULT_SEARCH_SCORE_THRESHOLD)
+    ? DEFAULT_SEARCH_SCORE_THRESHOLD
+    : 0.3
+}
@@ -0,0 +1,223 @@
+export interface ParsedReply {
+  /** Text the sender wrote in this message. */
+  newContent: string
+  /** Earlier messages quoted below (or inline in) the reply. */
+  quoted: string
+  signature: string
+  /** Legal disclaimers and confidentiality notices. */
+  footer: string
+}
+
+// Lines that introduce quoted history. Gmail and Apple Mail write
+// "On <date>, <sender> wrote:", often wrapped over two lines; the localized
+// variants are the ones Gmail uses for the most common UI languages.
+const QUOTE_HEADER_PATTERNS = [
+  /^on\b.+\bwrote:?$/i,
+  /^le\b.+\ba écrit\s?:$/i,
+  /^am\b.+\bschrieb\b.*:$/i,
+  /^el\b.+\bescribió:$/i,
+  /^il\b.+\bha scritto:$/i,
+  /^em\b.+\bescreveu:$/i,
+  /^op\b.+\bschreef\b.*:$/i,
+]
+
+const OUTLOOK_SEPARATOR_PATTERNS = [
+  /^-{2,}\s*original message\s*-{2,}$/i,
+  /^-{2,}\s*forwarded message\s*-{2,}$/i,
+  /^_{10,}$/,
+]
+
+// Outlook quotes the previous message as a header block without any marker.
+const OUTLOOK_HEADER_START = /^\*?(from|von|de|da):\*?\s/i
+const OUTLOOK_HEADER_FIELD =
+  /^\*?(sent|date|to|subject|cc|gesendet|envoyé|enviado):\*?\s/i
+
+const SIGNATURE_DELIMITER = /^--\s?$/
+
+const MOBILE_SIGNATURE_PATTERNS = [
+  /^sent from my (iphone|ipad|android|mobile|phone|galaxy|blackberry)/i,
+  /^sent from (mail|outlook) for/i,
+  /^get outlook for (ios|android)/i,
+  /^sent from yahoo mail/i,
+  /^sent from proton ?mail/i,
+]
+
+const SIGN_OFF_PATTERN =
+  /^(best|kind|warm|many)?\s*(regards|wishes)\b|^(thanks|thank you|many thanks|cheers|sincerely|best|br|regards)[,!.]?$/i
+
+// Sign-offs only start a signature when few, short lines follow them.
+const MAX_SIGNATURE_LINES = 6
+const MAX_SIGNATURE_LINE_LENGTH = 72
+
+const FOOTER_PATTERN =
+  /\b(confidential|privileged|intended (solely )?for the (use of the )?(addressee|recipient)|intended recipient|disclaimer|this (e-?mail|message) and any (files|attachments))\b/i
+
+/**
+ * Splits a plain-text email body into the sender's new content and the parts
+ * that repeat earlier messages or boilerplate: quoted history, signature and
+ * legal footer. Covers the reply formats written by Gmail, Outlook and Apple
+ * Mail. When stripping leaves nothing, e.g. a short "Thanks," reply read
+ * as a sign-off, the text above the quoted history is kept instead, and the
+ * full body only when there is none.
+ */
+export function parseReply(body: string): ParsedReply {
+  const lines = body.replace(/\r\n?/g, "\n").split("\n")
+
+  const quoteStart = findQuoteStart(lines)
+  const ownLines = quoteStart === -1 ? lines : lines.slice(0, quoteStart)
+  const quotedLines = quoteStart === -1 ? [] : lines.slice(quoteStart)
+
+  // Interleaved replies keep ">" lines between the sender's own answers.
+  const inlineQuoted = ownLines.filter((line) => /^\s*>/.test(line))
+  const unquoted = ownLines.filter((line) => !/^\s*>/.test(line))
+
+  const { content: withoutFooter, footer } = splitFooter(unquoted)
+  const { content, signature } = splitSignature(withoutFooter)
+
+  const newContent = joinLines(content)
+
+  return {
+    newContent: newContent || joinLines(unquoted) || body.trim(),
+    quoted: joinLines([...inlineQuoted, ...quotedLines]),
+    signature: joinLines(signature),
+    footer: joinLines(footer),
+  }
+}
+
+function findQuoteStart(lines: string[]) {
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim()
+    if (!line) {
+      continue
+    }
+
+    const joined = `${line} ${(lines[index + 1] ?? "").trim()}`.trim()
+    if (
+      QUOTE_HEADER_PATTERNS.some(
+        (pattern) => pattern.test(line) || pattern.test(joined)
+      )
+    ) {
+      return index
+    }
+
+    if (OUTLOOK_SEPARATOR_PATTERNS.some((pattern) => pattern.test(line))) {
+      return index
+    }
+
+    if (
+      OUTLOOK_HEADER_START.test(line) &&
+      hasOutlookHeaderBlock(lines, index)
+    ) {
+      return index
+    }
+
+    // A trailing block of ">" lines with no marker above it.
+    if (/^>/.test(line) && lines.slice(index).every(isQuotedOrBlank)) {
+      return index
+    }
+  }
+
+  return -1
+}
+
+function hasOutlookHeaderBlock(lines: string[], start: number) {
+  let fields = 0
+  for (const line of lines.slice(start + 1, start + 6)) {
+    if (OUTLOOK_HEADER_FIELD.test(line.trim())) {
+      fields += 1
+    }
+  }
+  return fields >= 2
+}
+
+function isQuotedOrBlank(line: string) {
+  return !line.trim() || /^\s*>/.test(line)
+}
+
+function splitSignature(lines: string[]) {
+  const trimmed = trimTrailingBlank(lines)
+
+  for (let index = 0; index < trimmed.length; index++) {
+    const line = trimmed[index].trim()
+
+    if (
+      SIGNATURE_DELIMITER.test(trimmed[index]) ||
+      MOBILE_SIGNATURE_PATTERNS.some((pattern) => pattern.test(line))
+    ) {
+      return {
+        content: trimmed.slice(0, index),
+        signature: trimmed.slice(index),
+      }
+    }
+
+    if (SIGN_OFF_PATTERN.test(line)) {
+      const rest = trimmed.slice(index + 1).filter((item) => item.trim())
+      if (
+        rest.length <= MAX_SIGNATURE_LINES &&
+        rest.every((item) => item.trim().length <= MAX_SIGNATURE_LINE_LENGTH)
+      ) {
+        return {
+          content: trimmed.slice(0, index),
+          signature: trimmed.slice(index),
+        }
+      }
+    }
+  }
+
+  return { content: trimmed, signature: [] as string[] }
+}
+
+function splitFooter(lines: string[]) {
+  const paragraphs = toParagraphs(trimTrailingBlank(lines))
+  const footer: string[][] = []
+
+  while (paragraphs.length > 1) {
+    const last = paragraphs[paragraphs.length - 1]
+    if (!FOOTER_PATTERN.test(last.join(" "))) {
+      break
+    }
+    footer.unshift(paragraphs.pop()!)
+  }
+
+  return {
+    content: fromParagraphs(paragraphs),
+    footer: fromParagraphs(footer),
+  }
+}
+
+function toParagraphs(lines: string[]) {
+  const paragraphs: string[][] = []
+  let current: string[] = []
+
+  for (const line of lines) {
+    if (line.trim()) {
+      current.push(line)
+    } else if (current.length) {
+      paragraphs.push(current)
+      current = []
+    }
+  }
+  if (current.length) {
+    paragraphs.push(current)
+  }
+
+  return paragraphs
+}
+
+function fromParagraphs(paragraphs: string[][]) {
+  return paragraphs.flatMap((paragraph, index) =>
+    index ? ["", ...paragraph] : paragraph
+  )
+}
+
+function trimTrailingBlank(lines: string[]) {
+  let end = lines.length
+  while (end > 0 && !lines[end - 1].trim()) {
+    end -= 1
+  }
+  return lines.slice(0, end)
+}
+
+function joinLines(lines: string[]) {
+  return lines.join("\n").trim()
+}
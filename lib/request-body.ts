@@ -0,0 +1,17 @@
+/**
+ * Parses a JSON request body that should be an object. Returns null for a
+ * missing or malformed body and for any other JSON value, e.g. `null` or an
+ * array, so route handlers can read fields without guarding every access.
+ */
+export async function readJsonObject<T extends object>(
+  request: Request
+): Promise<T | null> {
+  try {
+    const body: unknown = await request.json()
+    return body && typeof body === "object" && !Array.isArray(body)
+      ? (body as T)
+      : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,388 @@
+import { randomBytes } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+import {
+  readThreadFingerprint,
+  type ThreadFingerprint,
+} from "@/lib/ingest-state"
+import {
+  QA_CATEGORIES,
+  type QACategory,
+  type ThreadQAEntry,
+} from "@/lib/openai"
+
+export type ReviewItemStatus = "pending" | "approved" | "rejected" | "ingested"
+
+export type ReviewAction = "approve" | "reject" | "reopen"
+
+export type ReviewAuditAction =
+  | "queued"
+  | "edited"
+  | "approved"
+  | "rejected"
+  | "reopened"
+  | "ingested"
+
+export interface ReviewAuditEntry {
+  action: ReviewAuditAction
+  /** Email of the signed-in Google account that made the change. */
+  actor: string
+  at: string
+  /** Text an edit replaced. */
+  previous?: Partial<Pick<ThreadQAEntry, "question" | "answer">>
+  reason?: string
+}
+
+export interface ReviewItem extends ThreadQAEntry {
+  id: string
+  mailbox: string
+  threadId: string
+  subject: string
+  createdAt: string | null
+  /** Thread content the entry was extracted from, used when ingesting. */
+  fingerprint?: ThreadFingerprint
+  status: ReviewItemStatus
+  rejectionReason?: string
+  queuedAt: string
+  updatedAt: string
+  history: ReviewAuditEntry[]
+}
+
+export interface QueueReviewThreadInput {
+  threadId: string
+  subject?: string
+  createdAt?: string | null
+  fingerprint?: ThreadFingerprint
+  questions: ThreadQAEntry[]
+}
+
+export interface ReviewQueueSummary {
+  pending: number
+  approved: number
+  rejected: number
+  ingested: number
+}
+
+const QUEUE_DIR = path.join(process.cwd(), "data")
+const QUEUE_PATH = path.join(QUEUE_DIR, "review-queue.json")
+
+const SUPERSEDED_REASON = "Superseded by a newer extraction of the thread."
+
+interface ReviewQueueRuntime {
+  items: ReviewItem[] | null
+  loading: Promise<ReviewItem[]> | null
+  writeChain: Promise<void>
+}
+
+// Shared across route bundles, like the job runtime, so every handler reads
+// and writes the same in-memory queue.
+const globalForReviewQueue = globalThis as unknown as {
+  __inboxerReviewQueue?: ReviewQueueRuntime
+}
+
+function getRuntime(): ReviewQueueRuntime {
+  if (!globalForReviewQueue.__inboxerReviewQueue) {
+    globalForReviewQueue.__inboxerReviewQueue = {
+      items: null,
+      loading: null,
+      writeChain: Promise.resolve(),
+    }
+  }
+  return globalForReviewQueue.__inboxerReviewQueue
+}
+
+async function loadItems(): Promise<ReviewItem[]> {
+  const runtime = getRuntime()
+  if (runtime.items) {
+    return runtime.items
+  }
+
+  if (!runtime.loading) {
+    runtime.loading = readQueueFile().then((items) => {
+      runtime.items = items
+      return items
+    })
+  }
+
+  return runtime.loading
+}
+
+async function readQueueFile(): Promise<ReviewItem[]> {
+  try {
+    const raw = await fs.readFile(QUEUE_PATH, "utf8")
+    const parsed = JSON.parse(raw) as { items?: ReviewItem[] }
+    return Array.isArray(parsed.items) ? parsed.items : []
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+function persistItems() {
+  const runtime = getRuntime()
+  const snapshot = JSON.stringify({ items: runtime.items ?? [] }, null, 2)
+
+  runtime.writeChain = runtime.writeChain
+    .then(async () => {
+      await fs.mkdir(QUEUE_DIR, { recursive: true })
+      await fs.writeFile(QUEUE_PATH, snapshot, "utf8")
+    })
+    .catch((error) => {
+      console.error("Failed to persist review queue", error)
+    })
+
+  return runtime.writeChain
+}
+
+function recordChange(
+  item: ReviewItem,
+  entry: Omit<ReviewAuditEntry, "at">,
+  at = new Date().toISOString()
+) {
+  item.history.push({ ...entry, at })
+  item.updatedAt = at
+}
+
+/**
+ * Adds extracted entries to the queue as `pending`. Entries of an earlier
+ * extraction of the same thread that were not ingested yet are rejected as
+ * superseded, so reviewers only see the latest version of a thread. The
+ * threads come from the browser, so only known entry fields of the expected
+ * types are kept and entries without a question and answer are skipped.
+ */
+export async function queueReviewItems(
+  mailbox: string,
+  actor: string,
+  threads: QueueReviewThreadInput[]
+) {
+  const items = await loadItems()
+  const now = new Date().toISOString()
+  const threadIds = new Set(threads.map((thread) => thread.threadId))
+
+  for (const item of items) {
+    if (
+      item.mailbox === mailbox &&
+      threadIds.has(item.threadId) &&
+      (item.status === "pending" || item.status === "approved")
+    ) {
+      item.status = "rejected"
+      item.rejectionReason = SUPERSEDED_REASON
+      recordChange(
+        item,
+        { action: "rejected", actor, reason: SUPERSEDED_REASON },
+        now
+      )
+    }
+  }
+
+  const queued: ReviewItem[] = []
+  for (const thread of threads) {
+    const fingerprint = readThreadFingerprint(thread.fingerprint) ?? undefined
+    for (const value of thread.questions) {
+      const entry = readQueuedEntry(value)
+      if (!entry) {
+        continue
+      }
+      queued.push({
+        ...entry,
+        id: randomBytes(8).toString("hex"),
+        mailbox,
+        threadId: thread.threadId,
+        subject:
+          typeof thread.subject === "string" && thread.subject.trim()
+            ? thread.subject
+            : "Untitled thread",
+        createdAt: readOptionalString(thread.createdAt),
+        fingerprint,
+        status: "pending",
+        queuedAt: now,
+        updatedAt: now,
+        history: [{ action: "queued", actor, at: now }],
+      })
+    }
+  }
+
+  items.push(...queued)
+  await persistItems()
+  return queued
+}
+
+export async function listReviewItems(
+  mailbox: string,
+  options: { statuses?: ReviewItemStatus[] } = {}
+) {
+  const items = await loadItems()
+  return items
+    .filter(
+      (item) =>
+        item.mailbox === mailbox &&
+        (!options.statuses || options.statuses.includes(item.status))
+    )
+    .sort(
+      (a, b) =>
+        b.queuedAt.localeCompare(a.queuedAt) ||
+        a.threadId.localeCompare(b.threadId)
+    )
+}
+
+export async function summarizeReviewQueue(
+  mailbox: string
+): Promise<ReviewQueueSummary> {
+  const items = await listReviewItems(mailbox)
+  const count = (status: ReviewItemStatus) =>
+    items.filter((item) => item.status === status).length
+
+  return {
+    pending: count("pending"),
+    approved: count("approved"),
+    rejected: count("rejected"),
+    ingested: count("ingested"),
+  }
+}
+
+/**
+ * Replaces the question or answer text of a queued entry. Ingested entries
+ * are read-only here; they are edited in the knowledge base itself.
+ */
+export async function editReviewItem(
+  mailbox: string,
+  actor: string,
+  itemId: string,
+  changes: Partial<Pick<ThreadQAEntry, "question" | "answer">>
+) {
+  const items = await loadItems()
+  const item = items.find(
+    (entry) => entry.id === itemId && entry.mailbox === mailbox
+  )
+  if (!item || item.status === "ingested") {
+    return null
+  }
+
+  const previous: ReviewAuditEntry["previous"] = {}
+  for (const field of ["question", "answer"] as const) {
+    const value = changes[field]?.trim()
+    if (value && value !== item[field]) {
+      previous[field] = item[field]
+      item[field] = value
+    }
+  }
+
+  if (Object.keys(previous).length) {
+    recordChange(item, { action: "edited", actor, previous })
+    await persistItems()
+  }
+
+  return item
+}
+
+/**
+ * Approves, rejects or reopens entries, selected by ID or by thread for bulk
+ * approval. Ingested entries are left alone.
+ */
+export async function applyReviewAction(
+  mailbox: string,
+  actor: string,
+  action: ReviewAction,
+  selection: { itemIds?: string[]; threadIds?: string[]; reason?: string }
+) {
+  const items = await loadItems()
+  const itemIds = new Set(selection.itemIds ?? [])
+  const threadIds = new Set(selection.threadIds ?? [])
+  const reason = selection.reason?.trim() || undefined
+  const now = new Date().toISOString()
+
+  const changed: ReviewItem[] = []
+  for (const item of items) {
+    if (
+      item.mailbox !== mailbox ||
+      item.status === "ingested" ||
+      !(itemIds.has(item.id) || threadIds.has(item.threadId))
+    ) {
+      continue
+    }
+
+    switch (action) {
+      case "approve":
+        if (item.status !== "pending") continue
+        item.status = "approved"
+        recordChange(item, { action: "approved", actor }, now)
+        break
+      case "reject":
+        if (item.status === "rejected") continue
+        item.status = "rejected"
+        item.rejectionReason = reason
+        recordChange(item, { action: "rejected", actor, reason }, now)
+        break
+      case "reopen":
+        if (item.status === "pending") continue
+        item.status = "pending"
+        item.rejectionReason = undefined
+        recordChange(item, { action: "reopened", actor }, now)
+        break
+    }
+    changed.push(item)
+  }
+
+  if (changed.length) {
+    await persistItems()
+  }
+  return changed
+}
+
+export async function markReviewItemsIngested(
+  mailbox: string,
+  actor: string,
+  itemIds: string[]
+) {
+  const items = await loadItems()
+  const ids = new Set(itemIds)
+  const now = new Date().toISOString()
+
+  for (const item of items) {
+    if (item.mailbox === mailbox && ids.has(item.id)) {
+      item.status = "ingested"
+      recordChange(item, { action: "ingested", actor }, now)
+    }
+  }
+
+  await persistItems()
+}
+
+function readQueuedEntry(value: unknown): ThreadQAEntry | null {
+  const entry = (value ?? {}) as Record<string, unknown>
+  const question =
+    typeof entry.question === "string" ? entry.question.trim() : ""
+  const answer = typeof entry.answer === "string" ? entry.answer.trim() : ""
+  if (!question || !answer) {
+    return null
+  }
+
+  const confidence =
+    typeof entry.confidence === "number" &&
+    entry.confidence >= 0 &&
+    entry.confidence <= 1
+      ? entry.confidence
+      : null
+  const category = QA_CATEGORIES.includes(entry.category as QACategory)
+    ? (entry.category as QACategory)
+    : null
+
+  return {
+    question,
+    answer,
+    questionMessageId: readOptionalString(entry.questionMessageId),
+    answerMessageId: readOptionalString(entry.answerMessageId),
+    askedBy: readOptionalString(entry.askedBy),
+    answeredBy: readOptionalString(entry.answeredBy),
+    answeredAt: readOptionalString(entry.answeredAt),
+    confidence,
+    category,
+  }
+}
+
+function readOptionalString(value: unknown) {
+  return typeof value === "string" && value ? value : null
+}
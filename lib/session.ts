@@ -0,0 +1,533 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+import type { NextRequest } from "next/server"
+
+import {
+  GOOGLE_OAUTH_SESSION_COOKIE,
+  type GoogleAuthContext,
+  type GoogleOAuthSessionPayload,
+} from "@/lib/google-auth"
+import { adoptLegacyState } from "@/lib/ingest-state"
+import {
+  assertCollectionName,
+  assignUnownedQAPoints,
+  getQdrantClient,
+} from "@/lib/qdrant"
+
+export interface EncryptedSessionRecord {
+  iv: string
+  tag: string
+  data: string
+  createdAt: string
+  updatedAt: string
+  expiresAt: string
+}
+
+/**
+ * Persistence backend for encrypted sessions. Records are encrypted before
+ * they reach the store, so implementations only need to move opaque blobs.
+ */
+export interface SessionStore {
+  read(id: string): Promise<EncryptedSessionRecord | null>
+  write(id: string, record: EncryptedSessionRecord): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+/**
+ * Everything stored for one browser session: every connected Gmail account,
+ * keyed by mailbox address, plus the one the UI is currently working with.
+ */
+interface SessionPayload {
+  activeMailbox: string
+  accounts: Record<string, GoogleOAuthSessionPayload>
+}
+
+export interface SessionAccountSummary {
+  mailbox: string
+  name?: string
+  picture?: string
+}
+
+/** The active account of a session, as handed to route handlers. */
+export interface OAuthSession extends GoogleOAuthSessionPayload {
+  id: string
+  mailbox: string
+  accounts: SessionAccountSummary[]
+}
+
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30
+
+const SESSION_DIR = path.join(process.cwd(), "data")
+const SESSION_PATH = path.join(SESSION_DIR, "sessions.json")
+
+let cachedStore: SessionStore | null = null
+
+// Every session lives in one file, so concurrent writes (two token refreshes,
+// a refresh racing a login) would each rewrite it from a stale read. Running
+// the read-modify-write for a file one at a time keeps them from overwriting
+// each other. Updates of one session's payload are serialized the same way,
+// so a token refresh racing a mailbox switch does not drop either change.
+// Shared across route bundles like the ingest state locks.
+const globalForSessions = globalThis as unknown as {
+  __inboxerSessionStoreLocks?: Map<string, Promise<unknown>>
+  __inboxerLegacyPointMailboxes?: Set<string>
+}
+
+function withStoreLock<T>(key: string, run: () => Promise<T>) {
+  const locks = (globalForSessions.__inboxerSessionStoreLocks ??= new Map())
+  const next = (locks.get(key) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(run)
+
+  locks.set(key, next)
+  next
+    .finally(() => {
+      if (locks.get(key) === next) {
+        locks.delete(key)
+      }
+    })
+    .catch(() => undefined)
+
+  return next
+}
+
+function withSessionLock<T>(id: string, run: () => Promise<T>) {
+  return withStoreLock(`session:${id}`, run)
+}
+
+export function getSessionStore(): SessionStore {
+  if (!cachedStore) {
+    cachedStore = createFileSessionStore(SESSION_PATH)
+  }
+  return cachedStore
+}
+
+export function setSessionStore(store: SessionStore) {
+  cachedStore = store
+}
+
+export function createFileSessionStore(filePath: string): SessionStore {
+  const readAll = async (): Promise<Record<string, EncryptedSessionRecord>> => {
+    try {
+      const raw = await fs.readFile(filePath, "utf8")
+      return JSON.parse(raw) as Record<string, EncryptedSessionRecord>
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  const writeAll = async (records: Record<string, EncryptedSessionRecord>) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(records, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    })
+  }
+
+  return {
+    async read(id) {
+      const records = await readAll()
+      return records[id] ?? null
+    },
+    async write(id, record) {
+      await withStoreLock(filePath, async () => {
+        const records = await readAll()
+        records[id] = record
+        await writeAll(pruneExpired(records))
+      })
+    },
+    async remove(id) {
+      await withStoreLock(filePath, async () => {
+        const records = await readAll()
+        if (!(id in records)) {
+          return
+        }
+        delete records[id]
+        await writeAll(records)
+      })
+    },
+  }
+}
+
+export function getMailboxKey(payload: GoogleOAuthSessionPayload) {
+  return (payload.gmail.emailAddress || payload.profile.email).toLowerCase()
+}
+
+export async function createSession(
+  payload: GoogleOAuthSessionPayload
+): Promise<string> {
+  const id = randomBytes(32).toString("base64url")
+  const now = new Date()
+  const mailbox = getMailboxKey(payload)
+
+  await getSessionStore().write(id, {
+    ...encryptPayload({
+      activeMailbox: mailbox,
+      accounts: { [mailbox]: payload },
+    }),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: new Date(
+      now.getTime() + SESSION_MAX_AGE_SECONDS * 1000
+    ).toISOString(),
+  })
+
+  return signSessionId(id)
+}
+
+/**
+ * Adds a freshly authorized account to the browser's existing session (or
+ * starts a new one) and makes it the active mailbox. Returns the cookie value.
+ */
+export async function addSessionAccount(
+  request: NextRequest,
+  payload: GoogleOAuthSessionPayload
+): Promise<string> {
+  const value = request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)?.value
+  const id = value ? verifySessionId(value) : null
+  if (!id) {
+    return createSession(payload)
+  }
+
+  const added = await withSessionLock(id, async () => {
+    const loaded = await loadSessionPayload(id)
+    if (!loaded) {
+      return false
+    }
+
+    const mailbox = getMailboxKey(payload)
+    await writeSessionPayload(id, loaded.record, {
+      activeMailbox: mailbox,
+      accounts: { ...loaded.payload.accounts, [mailbox]: payload },
+    })
+    return true
+  })
+
+  return added ? signSessionId(id) : createSession(payload)
+}
+
+export async function saveSession(session: OAuthSession) {
+  const { id, mailbox, accounts, ...payload } = session
+
+  await withSessionLock(id, async () => {
+    const loaded = await loadSessionPayload(id)
+    if (!loaded) {
+      throw new Error("Session no longer exists")
+    }
+
+    await writeSessionPayload(id, loaded.record, {
+      ...loaded.payload,
+      accounts: { ...loaded.payload.accounts, [mailbox]: payload },
+    })
+  })
+}
+
+export async function setActiveMailbox(
+  request: NextRequest,
+  mailbox: string
+): Promise<boolean> {
+  const session = await getSession(request)
+  const key = mailbox.toLowerCase()
+  if (!session || !session.accounts.some((item) => item.mailbox === key)) {
+    return false
+  }
+
+  return withSessionLock(session.id, async () => {
+    const loaded = await loadSessionPayload(session.id)
+    if (!loaded) {
+      return false
+    }
+
+    await writeSessionPayload(session.id, loaded.record, {
+      ...loaded.payload,
+      activeMailbox: key,
+    })
+    return true
+  })
+}
+
+/**
+ * Disconnects one mailbox from the session. Returns how many accounts are
+ * still connected; the whole session is removed once none are left.
+ */
+export async function removeSessionAccount(
+  request: NextRequest,
+  mailbox: string
+): Promise<number> {
+  const session = await getSession(request)
+  if (!session) {
+    return 0
+  }
+
+  return withSessionLock(session.id, async () => {
+    const loaded = await loadSessionPayload(session.id)
+    if (!loaded) {
+      return 0
+    }
+
+    const accounts = { ...loaded.payload.accounts }
+    delete accounts[mailbox.toLowerCase()]
+    const remaining = Object.keys(accounts)
+
+    if (!remaining.length) {
+      await getSessionStore().remove(session.id)
+      return 0
+    }
+
+    await writeSessionPayload(session.id, loaded.record, {
+      activeMailbox: accounts[loaded.payload.activeMailbox]
+        ? loaded.payload.activeMailbox
+        : remaining[0],
+      accounts,
+    })
+    return remaining.length
+  })
+}
+
+/**
+ * Binds Google API calls to a session so refreshed access tokens are written
+ * back to the store instead of being discarded after the request.
+ */
+export function createSessionAuth(session: OAuthSession): GoogleAuthContext {
+  return {
+    tokens: session.tokens,
+    quotaKey: session.mailbox,
+    mailbox: session.mailbox,
+    onTokensRefreshed: async (tokens) => {
+      session.tokens = tokens
+      await saveSession(session)
+    },
+  }
+}
+
+/**
+ * Loads the session's active account, or the given mailbox when it is one of
+ * the session's connected accounts.
+ */
+export async function getSession(
+  request: NextRequest,
+  mailbox?: string | null
+): Promise<OAuthSession | null> {
+  return getSessionFromCookieValue(
+    request.cookies.get(GOOGLE_OAUTH_SESSION_COOKIE)?.value,
+    mailbox
+  )
+}
+
+export async function getSessionFromCookieValue(
+  value?: string,
+  mailbox?: string | null
+): Promise<OAuthSession | null> {
+  const id = value ? verifySessionId(value) : null
+  if (!id) {
+    return null
+  }
+
+  return getSessionById(id, mailbox)
+}
+
+/**
+ * Loads a session without a request, for server-side work (such as ingestion
+ * jobs) that outlives the request that started it.
+ */
+export async function getSessionById(
+  id: string,
+  mailbox?: string | null
+): Promise<OAuthSession | null> {
+  const loaded = await loadSessionPayload(id)
+  if (!loaded) {
+    return null
+  }
+
+  const { accounts } = loaded.payload
+  const requested = mailbox?.toLowerCase()
+  const selectedMailbox =
+    requested && accounts[requested] ? requested : loaded.payload.activeMailbox
+  const selected = accounts[selectedMailbox]
+  if (!selected?.tokens) {
+    return null
+  }
+
+  return {
+    ...selected,
+    id,
+    mailbox: selectedMailbox,
+    accounts: Object.entries(accounts).map(([mailbox, account]) => ({
+      mailbox,
+      name: account.profile.name,
+      picture: account.profile.picture,
+    })),
+  }
+}
+
+async function loadSessionPayload(id: string) {
+  const record = await getSessionStore().read(id)
+  if (!record || Date.parse(record.expiresAt) <= Date.now()) {
+    return null
+  }
+
+  const decrypted = decryptPayload(record)
+  if (!decrypted) {
+    return null
+  }
+
+  // Its account is the mailbox the single-mailbox ingest state belonged to.
+  if (decrypted.legacyMailbox) {
+    await adoptLegacyState(decrypted.legacyMailbox)
+    await adoptLegacyPoints(decrypted.legacyMailbox)
+  }
+
+  return { record, payload: decrypted.payload }
+}
+
+/**
+ * Assigns knowledge base entries from the single-mailbox install to its
+ * account, once per process. Later attempts find nothing left to assign, and
+ * a failure is retried after a restart rather than on every request.
+ */
+async function adoptLegacyPoints(mailbox: string) {
+  const adopted = (globalForSessions.__inboxerLegacyPointMailboxes ??=
+    new Set())
+  if (adopted.has(mailbox)) {
+    return
+  }
+  adopted.add(mailbox)
+
+  try {
+    await assignUnownedQAPoints(
+      getQdrantClient(),
+      assertCollectionName(),
+      mailbox
+    )
+  } catch (error) {
+    console.error("Failed to assign legacy knowledge base entries", error)
+  }
+}
+
+/** Callers hold the session's lock from loading the payload until this write. */
+async function writeSessionPayload(
+  id: string,
+  record: EncryptedSessionRecord,
+  payload: SessionPayload
+) {
+  await getSessionStore().write(id, {
+    ...record,
+    ...encryptPayload(payload),
+    updatedAt: new Date().toISOString(),
+  })
+}
+
+function signSessionId(id: string) {
+  return `${id}.${computeSignature(id)}`
+}
+
+function verifySessionId(value: string): string | null {
+  const separator = value.lastIndexOf(".")
+  if (separator <= 0) {
+    return null
+  }
+
+  const id = value.slice(0, separator)
+  const signature = Buffer.from(value.slice(separator + 1))
+  const expected = Buffer.from(computeSignature(id))
+
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    return null
+  }
+
+  return id
+}
+
+function computeSignature(id: string) {
+  return createHmac("sha256", deriveKey("inboxer-session-signing"))
+    .update(id)
+    .digest("base64url")
+}
+
+function encryptPayload(payload: SessionPayload) {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    deriveKey("inboxer-session-encryption"),
+    iv
+  )
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+  ])
+
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  }
+}
+
+function decryptPayload(
+  record: EncryptedSessionRecord
+): { payload: SessionPayload; legacyMailbox?: string } | null {
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveKey("inboxer-session-encryption"),
+      Buffer.from(record.iv, "base64")
+    )
+    decipher.setAuthTag(Buffer.from(record.tag, "base64"))
+    const json = Buffer.concat([
+      decipher.update(Buffer.from(record.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8")
+    const parsed = JSON.parse(json) as
+      | SessionPayload
+      | GoogleOAuthSessionPayload
+
+    // Sessions written before multi-account support held a single account.
+    if ("tokens" in parsed) {
+      const mailbox = getMailboxKey(parsed)
+      return {
+        payload: { activeMailbox: mailbox, accounts: { [mailbox]: parsed } },
+        legacyMailbox: mailbox,
+      }
+    }
+
+    return { payload: parsed }
+  } catch (error) {
+    console.error("Unable to decrypt stored session", error)
+    return null
+  }
+}
+
+function deriveKey(purpose: string) {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error(
+      "Missing required session environment variable: SESSION_SECRET"
+    )
+  }
+
+  return Buffer.from(hkdfSync("sha256", secret, "", purpose, 32))
+}
+
+function pruneExpired(records: Record<string, EncryptedSessionRecord>) {
+  const now = Date.now()
+  return Object.fromEntries(
+    Object.entries(records).filter(
+      ([, record]) => Date.parse(record.expiresAt) > now
+    )
+  )
+}
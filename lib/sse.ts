@@ -0,0 +1,64 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+}
+
+export function encodeServerSentEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Reads a `text/event-stream` body and yields each complete event. Used where
+ * `EventSource` cannot be, e.g. for streams returned from a POST request.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) {
+        break
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        const parsed = parseServerSentEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (parsed) {
+          yield parsed
+        }
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parseServerSentEvent(chunk: string): ServerSentEvent | null {
+  let event = "message"
+  const data: string[] = []
+
+  for (const line of chunk.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart())
+    }
+  }
+
+  return data.length ? { event, data: data.join("\n") } : null
+}
@@ -0,0 +1,82 @@
+import { APIError } from "openai"
+
+import {
+  GOOGLE_RECONNECT_REQUIRED,
+  GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+  isGmailRateLimitError,
+  isReconnectRequiredError,
+} from "@/lib/google-auth"
+
+export type ThreadErrorCode =
+  | typeof GOOGLE_RECONNECT_REQUIRED
+  | "gmail_not_found"
+  | "gmail_error"
+  | "rate_limited"
+  | "model_error"
+  | "unknown"
+
+export interface ThreadError {
+  code: ThreadErrorCode
+  error: string
+  retryable: boolean
+}
+
+/**
+ * Maps an error thrown while fetching or extracting a single thread to a
+ * stable code the UI can act on, e.g. to retry only transient failures.
+ */
+export function classifyThreadError(error: unknown): ThreadError {
+  if (isReconnectRequiredError(error)) {
+    return {
+      code: GOOGLE_RECONNECT_REQUIRED,
+      error: GOOGLE_RECONNECT_REQUIRED_MESSAGE,
+      retryable: false,
+    }
+  }
+
+  if (error instanceof APIError) {
+    if (error.status === 429) {
+      return {
+        code: "rate_limited",
+        error: "OpenAI rate limit reached. Try again shortly.",
+        retryable: true,
+      }
+    }
+    return {
+      code: "model_error",
+      error: error.message || "The model request failed.",
+      retryable: !error.status || error.status >= 500,
+    }
+  }
+
+  const message = (error as Error)?.message
+
+  const gmailStatus = Number((error as any)?.response?.status)
+  if (gmailStatus) {
+    if (isGmailRateLimitError(error)) {
+      return {
+        code: "rate_limited",
+        error: "Gmail rate limit reached. Try again shortly.",
+        retryable: true,
+      }
+    }
+    if (gmailStatus === 404) {
+      return {
+        code: "gmail_not_found",
+        error: "This thread no longer exists in Gmail.",
+        retryable: false,
+      }
+    }
+    return {
+      code: "gmail_error",
+      error: message || "Gmail request failed.",
+      retryable: gmailStatus >= 500,
+    }
+  }
+
+  return {
+    code: "unknown",
+    error: message || "Failed to process this thread.",
+    retryable: true,
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Rough token accounting for prompts. OpenAI tokenizers average about four
+ * characters per token for English text, which is close enough to keep
+ * prompts inside the context window without shipping a tokenizer.
+ */
+const CHARS_PER_TOKEN = 4
+
+export interface ThreadWindow {
+  /** Index of the first message in the window. */
+  start: number
+  /** Index one past the last message in the window. */
+  end: number
+  estimatedTokens: number
+}
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function truncateToTokens(text: string, maxTokens: number) {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  if (text.length <= maxChars) {
+    return { text, truncated: false }
+  }
+  return { text: `${text.slice(0, maxChars)}\n[…truncated]`, truncated: true }
+}
+
+/**
+ * Splits a thread into consecutive windows of messages that each fit in
+ * `budget` tokens. Neighbouring windows share up to `overlap` messages so a
+ * question at the end of one window can be matched with its answer in the
+ * next. A single message larger than the budget gets a window of its own.
+ */
+export function planThreadWindows(
+  messageTokens: number[],
+  budget: number,
+  overlap: number
+): ThreadWindow[] {
+  const windows: ThreadWindow[] = []
+  let start = 0
+
+  while (start < messageTokens.length) {
+    let end = start
+    let tokens = 0
+
+    while (
+      end < messageTokens.length &&
+      (end === start || tokens + messageTokens[end] <= budget)
+    ) {
+      tokens += messageTokens[end]
+      end += 1
+    }
+
+    windows.push({ start, end, estimatedTokens: tokens })
+
+    if (end >= messageTokens.length) {
+      break
+    }
+    start = Math.max(end - overlap, start + 1)
+  }
+
+  return windows
+}
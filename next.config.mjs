@@ -4,7 +4,11 @@ const nextConfig = {
   experimental: {
     appDir: true,
     esmExternals: "loose",
-    serverComponentsExternalPackages: ["openai", "@qdrant/js-client-rest"],
+    serverComponentsExternalPackages: [
+      "openai",
+      "@qdrant/js-client-rest",
+      "unpdf",
+    ],
   },
   webpack: (config) => {
     config.externals ??= []
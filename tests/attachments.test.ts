@@ -0,0 +1,118 @@
+import { deflateRawSync } from "zlib"
+import { describe, expect, it } from "vitest"
+
+import { extractAttachmentText } from "@/lib/attachments"
+
+interface ZipEntry {
+  name: string
+  data: Buffer
+  /** Overrides the uncompressed size written to the central directory. */
+  declaredSize?: number
+}
+
+/** Builds a deflated ZIP archive with the given entries. */
+function buildZip(entries: ZipEntry[]) {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8")
+    const compressed = deflateRawSync(entry.data)
+    const size = entry.declaredSize ?? entry.data.length
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(size, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+function documentXml(body: string) {
+  return Buffer.from(
+    `<w:document><w:body>${body}</w:body></w:document>`,
+    "utf-8"
+  )
+}
+
+describe("extractAttachmentText", () => {
+  it("reads the paragraphs of a DOCX document", async () => {
+    const docx = buildZip([
+      {
+        name: "word/document.xml",
+        data: documentXml(
+          "<w:p><w:r><w:t>Refunds take 5 days.</w:t></w:r></w:p>" +
+            "<w:p><w:r><w:t>Fees &amp; taxes apply.</w:t></w:r></w:p>"
+        ),
+      },
+    ])
+
+    await expect(extractAttachmentText(docx, "", "terms.docx")).resolves.toBe(
+      "Refunds take 5 days.\nFees & taxes apply."
+    )
+  })
+
+  it("rejects an entry that inflates past the size limit", async () => {
+    // Declares a small size but expands to 65 MiB of zeros.
+    const docx = buildZip([
+      {
+        name: "word/document.xml",
+        data: Buffer.alloc(65 * 1024 * 1024),
+        declaredSize: 1024,
+      },
+    ])
+
+    await expect(extractAttachmentText(docx, "", "bomb.docx")).rejects.toThrow(
+      "ZIP entry word/document.xml is too large"
+    )
+  })
+
+  it("rejects an entry whose declared size is over the limit", async () => {
+    const docx = buildZip([
+      {
+        name: "word/document.xml",
+        data: documentXml(""),
+        declaredSize: 0xffffffff,
+      },
+    ])
+
+    await expect(extractAttachmentText(docx, "", "big.docx")).rejects.toThrow(
+      "ZIP entry word/document.xml is too large"
+    )
+  })
+
+  it("rejects archives with too many entries", async () => {
+    const entries = Array.from({ length: 10_001 }, (_, index) => ({
+      name: `part-${index}.xml`,
+      data: Buffer.alloc(0),
+    }))
+
+    await expect(
+      extractAttachmentText(buildZip(entries), "", "many.docx")
+    ).rejects.toThrow("ZIP archive has too many entries")
+  })
+})
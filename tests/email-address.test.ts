@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+
+import { formatAddress, parseAddressList } from "@/lib/email-address"
+
+describe("parseAddressList", () => {
+  it("keeps commas inside quoted display names", () => {
+    expect(
+      parseAddressList('"Doe, Jane" <Jane@Example.com>, bob@example.com')
+    ).toEqual([
+      { name: "Doe, Jane", email: "jane@example.com" },
+      { name: null, email: "bob@example.com" },
+    ])
+  })
+
+  it("unescapes quoted pairs in display names", () => {
+    expect(parseAddressList('"Jane \\"JD\\" Doe" <jane@example.com>')).toEqual([
+      { name: 'Jane "JD" Doe', email: "jane@example.com" },
+    ])
+  })
+
+  it("flattens groups into their members", () => {
+    expect(
+      parseAddressList(
+        "Support team: ann@example.com, Bob <bob@example.com>;, carl@example.com"
+      )
+    ).toEqual([
+      { name: null, email: "ann@example.com" },
+      { name: "Bob", email: "bob@example.com" },
+      { name: null, email: "carl@example.com" },
+    ])
+  })
+
+  it("returns no addresses for an empty group", () => {
+    expect(parseAddressList("Undisclosed recipients:;")).toEqual([])
+  })
+
+  it("decodes RFC 2047 encoded words in names", () => {
+    expect(
+      parseAddressList(
+        "=?utf-8?B?SsO8cmdlbg==?= =?iso-8859-1?Q?M=FCller?= <jm@example.com>"
+      )
+    ).toEqual([{ name: "JürgenMüller", email: "jm@example.com" }])
+    expect(
+      parseAddressList("=?UTF-8?Q?Z=C3=BCrich_Office?= <zh@example.com>")
+    ).toEqual([{ name: "Zürich Office", email: "zh@example.com" }])
+  })
+
+  it("uses a comment as the name of a bare address", () => {
+    expect(
+      parseAddressList("jane@example.com (Jane (Support) Doe), x@example.com")
+    ).toEqual([
+      { name: "Jane (Support) Doe", email: "jane@example.com" },
+      { name: null, email: "x@example.com" },
+    ])
+  })
+
+  it("ignores comments next to an angle address", () => {
+    expect(
+      parseAddressList("Jane Doe (work) <jane@example.com> (primary)")
+    ).toEqual([{ name: "Jane Doe", email: "jane@example.com" }])
+  })
+
+  it("skips entries without an address", () => {
+    expect(
+      parseAddressList("John Doe, Jane <jane@example.com>, <>, postmaster")
+    ).toEqual([{ name: "Jane", email: "jane@example.com" }])
+  })
+
+  it("drops obsolete source routes", () => {
+    expect(parseAddressList("<@relay.example:jane@example.com>")).toEqual([
+      { name: null, email: "jane@example.com" },
+    ])
+  })
+})
+
+describe("formatAddress", () => {
+  it("quotes names with special characters", () => {
+    expect(
+      formatAddress({ name: "Doe, Jane", email: "jane@example.com" })
+    ).toBe('"Doe, Jane" <jane@example.com>')
+    expect(formatAddress({ name: null, email: "jane@example.com" })).toBe(
+      "jane@example.com"
+    )
+  })
+})
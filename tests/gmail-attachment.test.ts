@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import type { GmailAttachment } from "@/lib/google-auth"
+import { GET } from "@/app/api/gmail/messages/[messageId]/attachments/[attachmentId]/route"
+
+const fake = vi.hoisted(() => ({
+  part: null as GmailAttachment | null,
+  lookups: [] as Array<{ attachmentId: string; partId?: string | null }>,
+  downloads: [] as string[],
+}))
+
+vi.mock("@/lib/session", () => ({
+  getSession: async () => ({
+    mailbox: "support@example.com",
+    tokens: { access_token: "token" },
+  }),
+  createSessionAuth: () => ({}),
+}))
+
+vi.mock("@/lib/google-auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/google-auth")>()),
+  fetchGmailAttachmentPart: async (
+    _auth: unknown,
+    _messageId: string,
+    lookup: { attachmentId: string; partId?: string | null }
+  ) => {
+    fake.lookups.push(lookup)
+    return fake.part
+  },
+  fetchGmailAttachment: async (
+    _auth: unknown,
+    _messageId: string,
+    attachmentId: string
+  ) => {
+    fake.downloads.push(attachmentId)
+    return Buffer.from("<script>alert(1)</script>")
+  },
+}))
+
+function download(query: string) {
+  return GET(
+    new NextRequest(
+      `http://localhost/api/gmail/messages/m1/attachments/stale-id?${query}`
+    ),
+    { params: { messageId: "m1", attachmentId: "stale-id" } }
+  )
+}
+
+describe("GET /api/gmail/messages/[messageId]/attachments/[attachmentId]", () => {
+  beforeEach(() => {
+    fake.part = {
+      attachmentId: "current-id",
+      messageId: "m1",
+      partId: "1",
+      filename: "quote.pdf",
+      mimeType: "application/pdf",
+      size: 24,
+    }
+    fake.lookups = []
+    fake.downloads = []
+  })
+
+  it("serves the type and name of the message part, not the query", async () => {
+    const response = await download(
+      "partId=1&mimeType=text/html&filename=page.html"
+    )
+
+    expect(response.status).toBe(200)
+    expect(fake.lookups).toEqual([{ attachmentId: "stale-id", partId: "1" }])
+    expect(fake.downloads).toEqual(["current-id"])
+    expect(response.headers.get("Content-Type")).toBe("application/pdf")
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff")
+    expect(response.headers.get("Content-Disposition")).toBe(
+      "attachment; filename*=UTF-8''quote.pdf"
+    )
+  })
+
+  it("returns 404 when the message has no such part", async () => {
+    fake.part = null
+
+    const response = await download("partId=9")
+
+    expect(response.status).toBe(404)
+    expect(fake.downloads).toEqual([])
+  })
+})
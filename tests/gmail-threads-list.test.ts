@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import type { GmailThreadRef } from "@/lib/google-auth"
+
+const MAILBOX = "support@example.com"
+
+const fake = vi.hoisted(() => ({
+  changes: [] as GmailThreadRef[],
+}))
+
+vi.mock("@/lib/session", () => ({
+  getSession: async () => ({
+    mailbox: "support@example.com",
+    profile: { email: "agent@example.com" },
+    tokens: { access_token: "token" },
+  }),
+  createSessionAuth: () => ({}),
+}))
+
+vi.mock("@/lib/google-auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/google-auth")>()),
+  fetchGmailHistoryChanges: async () => ({
+    status: "ok",
+    threads: fake.changes,
+    historyId: "200",
+  }),
+}))
+
+// Ingest state and review queue paths are resolved from the working
+// directory when their modules load.
+const workDir = mkdtempSync(path.join(tmpdir(), "inboxer-list-"))
+vi.spyOn(process, "cwd").mockReturnValue(workDir)
+const { POST: listThreads } = await import("@/app/api/gmail/threads/list/route")
+const { POST: queueForReview } = await import("@/app/api/review/route")
+const { readIngestState, writeIngestState } = await import("@/lib/ingest-state")
+
+async function listDelta(maxThreads: number) {
+  const response = await listThreads(
+    new NextRequest("http://localhost/api/gmail/threads/list", {
+      method: "POST",
+      body: JSON.stringify({ maxThreads }),
+    })
+  )
+  return response.json()
+}
+
+/**
+ * Queues extracted threads like the ingest panel does. Threads listed in
+ * `questions` get an entry; the others yielded none or were removed from the
+ * preview and are only recorded as handled.
+ */
+async function queueExtracted(
+  threadIds: string[],
+  historyId: string,
+  questions: string[] = []
+) {
+  const handled = threadIds.map((threadId) => ({
+    threadId,
+    messageCount: 1,
+    lastMessageId: `${threadId}-m1`,
+    contentHash: `${threadId}-hash`,
+    historyId,
+  }))
+  const response = await queueForReview(
+    new NextRequest("http://localhost/api/review", {
+      method: "POST",
+      body: JSON.stringify({
+        threads: handled
+          .filter((thread) => questions.includes(thread.threadId))
+          .map(({ threadId, ...fingerprint }) => ({
+            threadId,
+            fingerprint,
+            questions: [{ question: "How?", answer: "Like this." }],
+          })),
+        handled,
+      }),
+    })
+  )
+  expect(response.status).toBe(200)
+}
+
+describe("POST /api/gmail/threads/list delta runs", () => {
+  beforeEach(async () => {
+    await writeIngestState(MAILBOX, {
+      historyId: "100",
+      processedThreadIds: [],
+      threads: {},
+    })
+    fake.changes = ["t1", "t2", "t3", "t4", "t5"].map((id, index) => ({
+      id,
+      historyId: String(101 + index),
+    }))
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it("moves past threads handled by earlier partial runs", async () => {
+    const first = await listDelta(2)
+    expect(first).toMatchObject({
+      mode: "delta",
+      threadIds: ["t1", "t2"],
+      changedCount: 5,
+      historyId: null,
+    })
+    await queueExtracted(first.threadIds, "150", ["t1"])
+
+    const second = await listDelta(2)
+    expect(second).toMatchObject({ threadIds: ["t3", "t4"], historyId: null })
+    // Neither thread yields entries, e.g. all of them were rejected.
+    await queueExtracted(second.threadIds, "150")
+
+    const third = await listDelta(2)
+    expect(third).toMatchObject({ threadIds: ["t5"], historyId: "200" })
+
+    const state = await readIngestState(MAILBOX)
+    expect(state.processedThreadIds).toEqual(["t1", "t2", "t3", "t4"])
+  })
+
+  it("lists threads that changed again after they were queued", async () => {
+    await queueExtracted(["t1", "t2"], "102", ["t1", "t2"])
+
+    const result = await listDelta(5)
+    expect(result.threadIds).toEqual(["t3", "t4", "t5"])
+
+    const state = await readIngestState(MAILBOX)
+    state.threads!.t2.historyId = "90"
+    await writeIngestState(MAILBOX, state)
+    const again = await listDelta(5)
+    expect(again.threadIds).toEqual(["t2", "t3", "t4", "t5"])
+  })
+})
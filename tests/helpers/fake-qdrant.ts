@@ -0,0 +1,177 @@
+import type { QdrantClient } from "@qdrant/js-client-rest"
+
+type Payload = Record<string, unknown>
+
+interface StoredPoint {
+  id: string
+  vector?: number[]
+  payload: Payload
+}
+
+type Condition = {
+  key?: string
+  match?: { value?: unknown; any?: unknown[] }
+  range?: { gte?: string | number; lte?: string | number }
+  has_id?: Array<string | number>
+}
+
+interface Filter {
+  must?: Condition[]
+  must_not?: Condition[]
+}
+
+/**
+ * An in-memory stand-in for the parts of the Qdrant client the app uses,
+ * with enough filter support for its payload queries.
+ */
+export function createFakeQdrantClient() {
+  const collections = new Map<string, Map<string, StoredPoint>>()
+
+  function getPoints(collection: string) {
+    const points = collections.get(collection)
+    if (!points) {
+      throw Object.assign(new Error("Not found: Collection"), { status: 404 })
+    }
+    return points
+  }
+
+  function select(collection: string, filter?: Filter) {
+    return Array.from(getPoints(collection).values())
+      .filter((point) => matchesFilter(point, filter))
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  function applyOperation(collection: string, operation: any) {
+    const points = getPoints(collection)
+    if (operation.upsert) {
+      for (const point of operation.upsert.points) {
+        points.set(String(point.id), {
+          id: String(point.id),
+          vector: point.vector,
+          payload: { ...point.payload },
+        })
+      }
+    } else if (operation.delete) {
+      const ids = operation.delete.points
+        ? operation.delete.points.map(String)
+        : select(collection, operation.delete.filter).map((point) => point.id)
+      ids.forEach((id: string) => points.delete(id))
+    } else if (operation.set_payload) {
+      for (const id of operation.set_payload.points) {
+        const point = points.get(String(id))
+        if (point) {
+          point.payload = { ...point.payload, ...operation.set_payload.payload }
+        }
+      }
+    } else if (operation.update_vectors) {
+      for (const { id, vector } of operation.update_vectors.points) {
+        const point = points.get(String(id))
+        if (point) {
+          point.vector = vector
+        }
+      }
+    }
+  }
+
+  const client = {
+    async getCollection(collection: string) {
+      getPoints(collection)
+      return { config: { params: { vectors: {} } } }
+    },
+    async createCollection(collection: string) {
+      collections.set(collection, collections.get(collection) ?? new Map())
+      return true
+    },
+    async createPayloadIndex() {
+      return {}
+    },
+    async scroll(
+      collection: string,
+      options: { filter?: Filter; limit?: number; offset?: string }
+    ) {
+      const matches = select(collection, options.filter)
+      const start = options.offset
+        ? matches.findIndex((point) => point.id >= options.offset!)
+        : 0
+      const limit = options.limit ?? 10
+      const page = start < 0 ? [] : matches.slice(start, start + limit)
+      const next = start < 0 ? undefined : matches[start + limit]
+      return {
+        points: page.map(({ id, payload, vector }) => ({
+          id,
+          payload,
+          vector,
+        })),
+        next_page_offset: next?.id ?? null,
+      }
+    },
+    async retrieve(collection: string, options: { ids: Array<string> }) {
+      const points = getPoints(collection)
+      return options.ids.flatMap((id) => {
+        const point = points.get(String(id))
+        return point ? [{ id: point.id, payload: point.payload }] : []
+      })
+    },
+    async count(collection: string, options: { filter?: Filter }) {
+      return { count: select(collection, options.filter).length }
+    },
+    async delete(
+      collection: string,
+      options: { points?: string[]; filter?: Filter }
+    ) {
+      applyOperation(collection, { delete: options })
+      return { status: "completed" }
+    },
+    async batchUpdate(collection: string, options: { operations: any[] }) {
+      getPoints(collection)
+      options.operations.forEach((operation) =>
+        applyOperation(collection, operation)
+      )
+      return []
+    },
+  }
+
+  return {
+    client: client as unknown as QdrantClient,
+    points(collection: string) {
+      return Array.from(collections.get(collection)?.values() ?? [])
+    },
+  }
+}
+
+function matchesFilter(point: StoredPoint, filter?: Filter) {
+  return (
+    (filter?.must ?? []).every((condition) =>
+      matchesCondition(point, condition)
+    ) &&
+    !(filter?.must_not ?? []).some((condition) =>
+      matchesCondition(point, condition)
+    )
+  )
+}
+
+function matchesCondition(point: StoredPoint, condition: Condition) {
+  if (condition.has_id) {
+    return condition.has_id.map(String).includes(point.id)
+  }
+
+  const value = point.payload[condition.key ?? ""]
+  const values = Array.isArray(value) ? value : [value]
+  if (condition.match) {
+    const { match } = condition
+    return values.some((item) =>
+      match.any ? match.any.includes(item) : item === match.value
+    )
+  }
+  if (condition.range) {
+    const { gte, lte } = condition.range
+    return values.some(
+      (item) =>
+        item !== undefined &&
+        item !== null &&
+        (gte === undefined || String(item) >= String(gte)) &&
+        (lte === undefined || String(item) <= String(lte))
+    )
+  }
+  return true
+}
@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+
+import type { GmailThreadIngestRecord } from "@/lib/ingest-state"
+
+const MAILBOX = "support@example.com"
+
+// State paths are resolved from the working directory when the module loads.
+const workDir = mkdtempSync(path.join(tmpdir(), "inboxer-state-"))
+vi.spyOn(process, "cwd").mockReturnValue(workDir)
+const {
+  forgetDeletedPoints,
+  readIngestState,
+  recordHandledThreads,
+  recordThreadIngestion,
+} = await import("@/lib/ingest-state")
+
+function record(pointIds: string[]): GmailThreadIngestRecord {
+  return {
+    messageCount: 2,
+    lastMessageId: "m2",
+    contentHash: "hash",
+    historyId: "100",
+    pointIds,
+    ingestedAt: "2026-01-01T00:00:00.000Z",
+  }
+}
+
+describe("forgetDeletedPoints", () => {
+  beforeAll(async () => {
+    await recordThreadIngestion(MAILBOX, {
+      a: record(["a1", "a2"]),
+      b: record(["b1"]),
+      c: record(["c1"]),
+    })
+  })
+
+  afterAll(() => {
+    rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it("drops deleted points and keeps the thread handled", async () => {
+    const state = await forgetDeletedPoints(MAILBOX, [
+      { threadId: "a", pointId: "a1" },
+    ])
+
+    expect(state.threads?.a).toMatchObject({
+      pointIds: ["a2"],
+      contentHash: "hash",
+      historyId: "100",
+    })
+    expect(state.threads?.a?.deletedAt).toEqual(expect.any(String))
+    expect(state.processedThreadIds).toContain("a")
+  })
+
+  it("keeps threads left without points processed", async () => {
+    await forgetDeletedPoints(MAILBOX, [
+      { threadId: "b", pointId: "b1" },
+      { threadId: "c" },
+    ])
+
+    const state = await readIngestState(MAILBOX)
+    expect(state.threads?.b).toMatchObject({
+      pointIds: [],
+      contentHash: "hash",
+    })
+    expect(state.threads?.c).toMatchObject({
+      pointIds: [],
+      contentHash: "hash",
+    })
+    expect(state.threads?.c?.deletedAt).toEqual(expect.any(String))
+    expect(state.processedThreadIds).toEqual(["a", "b", "c"])
+  })
+
+  it("handles a changed version of a deleted thread again", async () => {
+    const state = await recordHandledThreads(MAILBOX, [
+      {
+        threadId: "c",
+        messageCount: 3,
+        lastMessageId: "m3",
+        contentHash: "hash-2",
+        historyId: "120",
+      },
+    ])
+
+    expect(state.threads?.c).toMatchObject({
+      contentHash: "hash-2",
+      pointsContentHash: "hash",
+    })
+    expect(state.threads?.c?.deletedAt).toBeUndefined()
+  })
+})
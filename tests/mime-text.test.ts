@@ -0,0 +1,108 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+
+import { decodeBodyData, getCharset, htmlToText } from "@/lib/mime-text"
+
+interface CapturedPart {
+  mimeType: string
+  headers: Array<{ name: string; value: string }>
+  body: { data: string }
+}
+
+/** Decodes a Gmail API message part the way message bodies are read. */
+function decodeFixture(name: string) {
+  const part: CapturedPart = JSON.parse(
+    readFileSync(
+      path.join(__dirname, "fixtures", "mime", `${name}.json`),
+      "utf8"
+    )
+  )
+  const contentType = part.headers.find(
+    (header) => header.name.toLowerCase() === "content-type"
+  )?.value
+  return decodeBodyData(part.body.data, getCharset(contentType))
+}
+
+describe("htmlToText", () => {
+  it("converts an Outlook body with Office markup and a table", () => {
+    expect(htmlToText(decodeFixture("outlook-html"))).toBe(
+      [
+        "Hi Sam,",
+        "",
+        "Invoices are sent on the 1st of each month & can be downloaded from the billing page (https://app.acme.example/billing).",
+        "",
+        "Plan | Price",
+        "Pro | €49 / month",
+        "",
+        "Regards,",
+        "Priya",
+      ].join("\n")
+    )
+  })
+
+  it("converts a Gmail body with a list, links and a quoted reply", () => {
+    expect(htmlToText(decodeFixture("gmail-html"))).toBe(
+      [
+        "Hi Maria,",
+        "",
+        "You can change it in three steps:",
+        "",
+        "1. Open Settings",
+        '2. Choose "Security"',
+        "3. Click Reset password (https://app.acme.example/reset)",
+        "",
+        "Let me know if that doesn't work.",
+        "",
+        "On Tue, Mar 5, 2024 at 9:14 AM Maria Lopez <maria@example.org> wrote:",
+        "",
+        "> How do I reset my password?",
+      ].join("\n")
+    )
+  })
+})
+
+describe("decodeBodyData", () => {
+  it("decodes windows-1252 punctuation and the euro sign", () => {
+    expect(decodeFixture("windows-1252")).toBe(
+      "“Smart quotes” – café costs €4 … that’s all\r\n"
+    )
+  })
+
+  it("decodes iso-8859-1 bodies as windows-1252", () => {
+    expect(decodeFixture("iso-8859-1-mislabeled")).toBe(
+      "We’ll ship your order to München on Monday.\r\n"
+    )
+  })
+
+  it("decodes us-ascii bodies as windows-1252", () => {
+    expect(decodeFixture("us-ascii-mislabeled")).toBe(
+      "Price: 5€ — see attached\r\n"
+    )
+  })
+
+  it("decodes other declared charsets", () => {
+    expect(decodeFixture("iso-8859-2")).toBe(
+      "Dziękujemy za zamówienie. Zażółć gęślą jaźń.\r\n"
+    )
+    expect(decodeFixture("shift-jis")).toBe("ご注文ありがとうございます。\r\n")
+  })
+
+  it("falls back to UTF-8 without a charset", () => {
+    expect(decodeFixture("utf-8-no-charset")).toBe(
+      "Thanks! 👍 Naïve résumé attached.\r\n"
+    )
+  })
+})
+
+describe("getCharset", () => {
+  it("reads quoted and unquoted charset parameters", () => {
+    expect(getCharset('text/plain; charset="Windows-1252"')).toBe(
+      "windows-1252"
+    )
+    expect(getCharset("text/plain; charset=ISO-8859-1; format=flowed")).toBe(
+      "iso-8859-1"
+    )
+    expect(getCharset("text/plain")).toBeUndefined()
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createQAExportStream,
+  type ExportedQAPoint,
+  type QAExportFormat,
+} from "@/lib/qa-export"
+
+function point(overrides: Partial<ExportedQAPoint> = {}): ExportedQAPoint {
+  return {
+    id: "p1",
+    mailbox: "support@example.com",
+    threadId: "t1",
+    question: "How do refunds work?",
+    answer: "Refunds take 5 days.",
+    category: "billing",
+    confidence: 0.9,
+    askedBy: "customer@example.com",
+    answeredBy: "support@example.com",
+    answeredAt: "2026-01-02T00:00:00.000Z",
+    questionMessageId: "m1",
+    answerMessageId: "m2",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ingestedAt: "2026-01-03T00:00:00.000Z",
+    threadUrl: "/threads/t1",
+    ...overrides,
+  }
+}
+
+async function* pagesOf(...pages: ExportedQAPoint[][]) {
+  yield* pages
+}
+
+async function exportText(
+  pages: ExportedQAPoint[][],
+  format: QAExportFormat,
+  options?: { includeVectors?: boolean }
+) {
+  return new Response(
+    createQAExportStream(pagesOf(...pages), format, options)
+  ).text()
+}
+
+describe("createQAExportStream", () => {
+  it("writes CSV with a header and quoted values", async () => {
+    const text = await exportText(
+      [
+        [
+          point({ answer: 'Say "refund",\nthen wait.' }),
+          point({ id: "p2", sourceThreadIds: ["t1", "t2"], category: null }),
+        ],
+      ],
+      "csv"
+    )
+    const lines = text.split("\r\n")
+
+    expect(lines[0]).toBe(
+      "id,mailbox,threadId,question,answer,category,confidence,askedBy,answeredBy,answeredAt,questionMessageId,answerMessageId,createdAt,ingestedAt,sourceThreadIds,source"
+    )
+    expect(lines[1]).toContain(`"Say ""refund"",\nthen wait.",billing,0.9,`)
+    expect(lines[2]).toContain(",Refunds take 5 days.,,0.9,")
+    expect(lines[2]).toContain(",t1 t2,")
+    expect(text.endsWith("\r\n")).toBe(true)
+  })
+
+  it("prefixes CSV values that spreadsheets would run as formulas", async () => {
+    const text = await exportText(
+      [
+        [
+          point({ question: '=HYPERLINK("http://evil")', answer: "+1 day" }),
+          point({ question: "-rf?", answer: "@SUM(A1)" }),
+          point({ question: "\tTabbed?", answer: "\rReturn" }),
+        ],
+      ],
+      "csv"
+    )
+    const lines = text.split("\r\n")
+
+    expect(lines[1]).toContain(`,"'=HYPERLINK(""http://evil"")",'+1 day,`)
+    expect(lines[2]).toContain(",'-rf?,'@SUM(A1),")
+    expect(lines[3]).toContain(`,'\tTabbed?,"'\rReturn",`)
+  })
+
+  it("adds a vector column on request", async () => {
+    const text = await exportText(
+      [[point({ vector: [0.1, -0.2] }), point({ id: "p2" })]],
+      "csv",
+      { includeVectors: true }
+    )
+    const lines = text.split("\r\n")
+
+    expect(lines[0].endsWith(",source,vector")).toBe(true)
+    expect(lines[1].endsWith(',"[0.1,-0.2]"')).toBe(true)
+    expect(lines[2].endsWith(",")).toBe(true)
+  })
+
+  it("writes one JSON record per line without the thread URL", async () => {
+    const text = await exportText(
+      [[point()], [point({ id: "p2", vector: [0.5] })]],
+      "jsonl"
+    )
+    const records = text
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({ id: "p1", question: point().question })
+    expect(records[0]).not.toHaveProperty("threadUrl")
+    expect(records[1].vector).toEqual([0.5])
+  })
+
+  it("groups the Markdown FAQ by category", async () => {
+    const text = await exportText(
+      [
+        [
+          point({ question: "Why was I charged twice?", answer: "A hold." }),
+          point({ question: "Other  question\nhere?", category: null }),
+        ],
+        [
+          point({ question: "How do I log in?", category: "account" }),
+          point({ question: "Are taxes included?", answer: " Yes. " }),
+        ],
+      ],
+      "markdown"
+    )
+
+    expect(text).toBe(
+      [
+        "# Frequently asked questions",
+        "",
+        "## Billing",
+        "",
+        "### Are taxes included?",
+        "",
+        "Yes.",
+        "",
+        "### Why was I charged twice?",
+        "",
+        "A hold.",
+        "",
+        "## Account",
+        "",
+        "### How do I log in?",
+        "",
+        "Refunds take 5 days.",
+        "",
+        "## Uncategorized",
+        "",
+        "### Other question here?",
+        "",
+        "Refunds take 5 days.",
+        "",
+      ].join("\n")
+    )
+  })
+
+  it("writes an empty Markdown FAQ", async () => {
+    await expect(exportText([], "markdown")).resolves.toBe(
+      "# Frequently asked questions\n\nNo entries to export.\n"
+    )
+  })
+})
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import type { GmailMessageDetail, GmailThreadDetail } from "@/lib/google-auth"
+import { extractQuestionsAndAnswersFromThread } from "@/lib/openai"
+
+const fake = vi.hoisted(() => {
+  // Read when lib/openai loads: room for two of the test messages per window.
+  process.env.OPENAI_EXTRACTION_WINDOW_TOKENS = "1000"
+  process.env.OPENAI_API_KEY = "test-key"
+  return { outputs: [] as string[], prompts: [] as string[] }
+})
+
+vi.mock("openai", () => ({
+  default: class {
+    responses = {
+      create: async ({ input }: { input: string }) => {
+        fake.prompts.push(input)
+        return { output_text: fake.outputs.shift() ?? "" }
+      },
+    }
+  },
+}))
+
+function message(
+  id: string,
+  overrides: Partial<GmailMessageDetail> = {}
+): GmailMessageDetail {
+  const from = id === "m1" || id === "m3" ? "customer" : "support"
+  return {
+    id,
+    subject: "Refunds",
+    from: `${from}@example.com`,
+    to: "other@example.com",
+    date: "Tue, 6 Jan 2026 10:00:00 +0000",
+    bodyText: `Body of ${id}`,
+    newContent: `Body of ${id}`,
+    addresses: {
+      from: [{ name: null, email: `${from}@example.com` }],
+      to: [],
+      cc: [],
+      bcc: [],
+      replyTo: [],
+    },
+    attachments: [],
+    ...overrides,
+  }
+}
+
+function thread(messages: GmailMessageDetail[]): GmailThreadDetail {
+  return {
+    id: "thread-1",
+    subject: "Refunds",
+    from: "customer@example.com",
+    to: "support@example.com",
+    messageCount: messages.length,
+    participants: [],
+    hasExternalParticipants: true,
+    messages,
+  }
+}
+
+function output(...questions: Array<Record<string, unknown>>) {
+  return JSON.stringify({ questions })
+}
+
+const refundEntry = {
+  question: "How long do refunds take?",
+  answer: "Five business days.",
+  questionMessageId: "m1",
+  answerMessageId: "m2",
+  confidence: 0.8,
+  category: "billing",
+}
+
+describe("extractQuestionsAndAnswersFromThread", () => {
+  beforeEach(() => {
+    fake.outputs = []
+    fake.prompts = []
+  })
+
+  it("resolves entries against the thread's messages", async () => {
+    fake.outputs.push(
+      output(refundEntry, {
+        question: "Is there a fee?",
+        answer: "No.",
+        answerMessageId: "m9",
+        category: "pricing",
+      })
+    )
+
+    const result = await extractQuestionsAndAnswersFromThread(
+      thread([message("m1"), message("m2")])
+    )
+
+    expect(result.repaired).toBe(false)
+    expect(result.questions).toEqual([
+      {
+        ...refundEntry,
+        askedBy: "customer@example.com",
+        answeredBy: "support@example.com",
+        answeredAt: "2026-01-06T10:00:00.000Z",
+      },
+      {
+        question: "Is there a fee?",
+        answer: "No.",
+        questionMessageId: null,
+        answerMessageId: null,
+        askedBy: null,
+        answeredBy: null,
+        answeredAt: null,
+        confidence: null,
+        category: "other",
+      },
+    ])
+    expect(result.validationErrors).toEqual([
+      "Entry 2 answerMessageId does not match a message in the thread.",
+    ])
+  })
+
+  it("stores no answer date when the Date header can't be parsed", async () => {
+    fake.outputs.push(output(refundEntry))
+
+    const result = await extractQuestionsAndAnswersFromThread(
+      thread([message("m1"), message("m2", { date: "not a date" })])
+    )
+
+    expect(result.questions[0].answeredAt).toBeNull()
+  })
+
+  it("repairs invalid JSON with one more request", async () => {
+    fake.outputs.push('{"questions": [', output(refundEntry))
+
+    const result = await extractQuestionsAndAnswersFromThread(
+      thread([message("m1"), message("m2")])
+    )
+
+    expect(fake.prompts).toHaveLength(2)
+    expect(fake.prompts[1]).toContain('{"questions": [')
+    expect(result.repaired).toBe(true)
+    expect(result.questions).toHaveLength(1)
+    expect(result.validationErrors[0]).toMatch(/^Output is not valid JSON/)
+  })
+
+  it("returns no entries when the repair fails too", async () => {
+    fake.outputs.push("not json", JSON.stringify({ answers: [] }))
+
+    const result = await extractQuestionsAndAnswersFromThread(
+      thread([message("m1"), message("m2")])
+    )
+
+    expect(fake.prompts).toHaveLength(2)
+    expect(result.repaired).toBe(true)
+    expect(result.questions).toEqual([])
+    expect(result.validationErrors).toEqual([
+      expect.stringMatching(/^Output is not valid JSON/),
+      'Expected an object with a "questions" array.',
+    ])
+  })
+
+  it("dedupes entries found in overlapping windows", async () => {
+    // About 460 tokens per message, so each window holds two messages.
+    const body = "x".repeat(1700)
+    const messages = ["m1", "m2", "m3", "m4"].map((id) =>
+      message(id, { newContent: body, bodyText: body })
+    )
+    fake.outputs.push(
+      output(refundEntry),
+      output({
+        ...refundEntry,
+        question: "How long do refunds take",
+        questionMessageId: null,
+        confidence: 0.95,
+      }),
+      output({
+        question: "Can I get a refund in cash?",
+        answer: "Only by card.",
+        questionMessageId: "m3",
+        answerMessageId: "m4",
+        confidence: 0.7,
+        category: "billing",
+      })
+    )
+
+    const result = await extractQuestionsAndAnswersFromThread(thread(messages))
+
+    expect(result.truncation).toMatchObject({
+      windows: 3,
+      overlapMessages: 2,
+      truncatedMessageIds: [],
+    })
+    expect(fake.prompts).toHaveLength(3)
+    expect(result.questions.map((entry) => entry.question)).toEqual([
+      "How long do refunds take",
+      "Can I get a refund in cash?",
+    ])
+    expect(result.questions[0].confidence).toBe(0.95)
+  })
+})
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { importQAFile } from "@/lib/qa-import"
+import { ingestQAItems, type QAIngestItem } from "@/lib/qa-ingest"
+
+import { createFakeQdrantClient } from "./helpers/fake-qdrant"
+
+const COLLECTION = "qa-test"
+const MAILBOX = "support@example.com"
+
+const fake = vi.hoisted(() => ({
+  qdrant: null as ReturnType<typeof createFakeQdrantClient> | null,
+  failEmbedding: false,
+}))
+
+vi.mock("@/lib/openai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/openai")>()),
+  embedTexts: async (texts: string[]) => {
+    if (fake.failEmbedding) {
+      throw new Error("Embedding service unavailable")
+    }
+    return texts.map(() => [0.1, 0.2, 0.3])
+  },
+}))
+
+vi.mock("@/lib/qdrant", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/qdrant")>()),
+  getQdrantClient: () => fake.qdrant!.client,
+}))
+
+vi.mock("@/lib/ingest-state", () => ({
+  readIngestState: async () => ({ threads: {} }),
+  recordThreadIngestion: async () => undefined,
+}))
+
+function toJsonl(rows: Array<Record<string, unknown>>) {
+  return rows.map((row) => JSON.stringify(row)).join("\n")
+}
+
+describe("importQAFile", () => {
+  beforeEach(() => {
+    process.env.QDRANT_COLLECTION = COLLECTION
+    fake.qdrant = createFakeQdrantClient()
+    fake.failEmbedding = false
+  })
+
+  it("gives every row without a thread its own thread ID", async () => {
+    const result = await importQAFile(
+      MAILBOX,
+      toJsonl([
+        { question: "Do you offer refunds?", answer: "Within 30 days." },
+        { question: "Where are you based?", answer: "In Berlin." },
+      ]),
+      "jsonl"
+    )
+
+    expect(result).toMatchObject({ imported: 2, errors: [] })
+    const threadIds = fake
+      .qdrant!.points(COLLECTION)
+      .map((point) => point.payload.threadId as string)
+    expect(new Set(threadIds).size).toBe(2)
+    threadIds.forEach((threadId) => expect(threadId).toMatch(/^import-/))
+  })
+
+  it("rejects rows naming a Gmail thread and keeps its entries", async () => {
+    await ingestQAItems(
+      MAILBOX,
+      [
+        {
+          threadId: "thread-1",
+          question: "Do you offer refunds?",
+          answer: "Yes, within 30 days.",
+        } as QAIngestItem,
+      ],
+      []
+    )
+
+    const result = await importQAFile(
+      MAILBOX,
+      toJsonl([
+        {
+          threadId: "thread-1",
+          question: "Do you offer refunds?",
+          answer: "Edited in a spreadsheet.",
+        },
+        { question: "Where are you based?", answer: "In Berlin." },
+      ]),
+      "jsonl"
+    )
+
+    expect(result.imported).toBe(1)
+    expect(result.errors).toEqual([
+      { row: 1, error: expect.stringContaining("names a Gmail thread") },
+    ])
+    const emailPoint = fake
+      .qdrant!.points(COLLECTION)
+      .find((point) => point.payload.threadId === "thread-1")
+    expect(emailPoint?.payload).toMatchObject({
+      answer: "Yes, within 30 days.",
+    })
+    expect(emailPoint?.payload.source).toBeUndefined()
+  })
+
+  it("removes the formula guard of exported CSV values", async () => {
+    const result = await importQAFile(
+      MAILBOX,
+      "question,answer\r\n'=1+1?,'+2\r\n",
+      "csv"
+    )
+
+    expect(result).toMatchObject({ imported: 1, errors: [] })
+    expect(fake.qdrant!.points(COLLECTION)[0].payload).toMatchObject({
+      question: "=1+1?",
+      answer: "+2",
+    })
+  })
+
+  it("reports an unclosed quote instead of reading it to the end", async () => {
+    const result = await importQAFile(
+      MAILBOX,
+      [
+        "question,answer",
+        "Do you offer refunds?,Within 30 days.",
+        '"Where are you based?,In Berlin.',
+        "Do you ship abroad?,Yes.",
+      ].join("\r\n"),
+      "csv"
+    )
+
+    expect(result.imported).toBe(1)
+    expect(result.errors).toEqual([
+      { row: 3, error: expect.stringContaining("never closed") },
+    ])
+  })
+
+  it("reports a failing batch without throwing", async () => {
+    fake.failEmbedding = true
+    vi.spyOn(console, "error").mockImplementation(() => undefined)
+
+    const result = await importQAFile(
+      MAILBOX,
+      toJsonl([{ question: "Do you offer refunds?", answer: "Yes." }]),
+      "jsonl"
+    )
+
+    expect(result).toMatchObject({
+      imported: 0,
+      failure: "Embedding service unavailable",
+    })
+  })
+})
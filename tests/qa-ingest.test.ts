@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import type { GmailThreadIngestRecord } from "@/lib/ingest-state"
+import {
+  ingestQAItems,
+  type QAIngestItem,
+  type QAIngestThread,
+} from "@/lib/qa-ingest"
+import { mergeQAPoints } from "@/lib/qa-merge"
+import { createStablePointId } from "@/lib/qdrant"
+
+import { createFakeQdrantClient } from "./helpers/fake-qdrant"
+
+const COLLECTION = "qa-test"
+const MAILBOX = "support@example.com"
+
+const fake = vi.hoisted(() => ({
+  qdrant: null as ReturnType<typeof createFakeQdrantClient> | null,
+  threads: {} as Record<string, GmailThreadIngestRecord>,
+}))
+
+vi.mock("@/lib/openai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/openai")>()),
+  embedTexts: async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]),
+}))
+
+vi.mock("@/lib/qdrant", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/qdrant")>()),
+  getQdrantClient: () => fake.qdrant!.client,
+}))
+
+vi.mock("@/lib/ingest-state", () => ({
+  readIngestState: async () => ({ threads: { ...fake.threads } }),
+  recordThreadIngestion: async (
+    _mailbox: string,
+    records: Record<string, GmailThreadIngestRecord>
+  ) => {
+    Object.assign(fake.threads, records)
+  },
+}))
+
+function item(threadId: string, question: string, answer: string) {
+  return { threadId, question, answer } as QAIngestItem
+}
+
+function thread(threadId: string, contentHash: string): QAIngestThread {
+  return {
+    threadId,
+    contentHash,
+    messageCount: 2,
+    lastMessageId: `${threadId}-m2`,
+    historyId: null,
+  }
+}
+
+describe("ingestQAItems", () => {
+  beforeEach(() => {
+    process.env.QDRANT_COLLECTION = COLLECTION
+    fake.qdrant = createFakeQdrantClient()
+    fake.threads = {}
+  })
+
+  it("replaces the points of a thread whose content changed", async () => {
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "Old question?", "Old answer.")],
+      [thread("a", "v1")]
+    )
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "New question?", "New answer.")],
+      [thread("a", "v2")]
+    )
+
+    const questions = fake
+      .qdrant!.points(COLLECTION)
+      .map((point) => point.payload.question)
+    expect(questions).toEqual(["New question?"])
+  })
+
+  it("keeps a merged entry when one of its threads is re-ingested", async () => {
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "How do I reset my password?", "Use the reset link.")],
+      [thread("a", "v1")]
+    )
+    await ingestQAItems(
+      MAILBOX,
+      [item("b", "How can I reset a password?", "Click the reset link.")],
+      [thread("b", "v1")]
+    )
+
+    const canonicalId = createStablePointId("b", "How can I reset a password?")
+    await mergeQAPoints(
+      fake.qdrant!.client,
+      COLLECTION,
+      MAILBOX,
+      [createStablePointId("a", "How do I reset my password?"), canonicalId],
+      { canonicalId }
+    )
+
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "Where are invoices sent?", "To the billing contact.")],
+      [thread("a", "v2")]
+    )
+
+    const canonical = fake
+      .qdrant!.points(COLLECTION)
+      .find((point) => point.id === canonicalId)
+    expect(canonical?.payload).toMatchObject({
+      threadId: "b",
+      answer: "Click the reset link.",
+      sourceThreadIds: ["b"],
+    })
+  })
+
+  it("keeps merge metadata when a merged entry is overwritten", async () => {
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "How do I reset my password?", "Use the reset link.")],
+      [thread("a", "v1")]
+    )
+    await ingestQAItems(
+      MAILBOX,
+      [item("b", "How can I reset a password?", "Click the reset link.")],
+      [thread("b", "v1")]
+    )
+
+    const canonicalId = createStablePointId("a", "How do I reset my password?")
+    const duplicateId = createStablePointId("b", "How can I reset a password?")
+    await mergeQAPoints(
+      fake.qdrant!.client,
+      COLLECTION,
+      MAILBOX,
+      [canonicalId, duplicateId],
+      { canonicalId }
+    )
+    await fake.qdrant!.client.batchUpdate(COLLECTION, {
+      operations: [
+        {
+          set_payload: {
+            points: [canonicalId],
+            payload: { distinctFrom: ["other-point"] },
+          },
+        },
+      ],
+    })
+
+    await ingestQAItems(
+      MAILBOX,
+      [item("a", "How do I reset my password?", "Use the new reset page.")],
+      [thread("a", "v2")]
+    )
+
+    const points = fake.qdrant!.points(COLLECTION)
+    expect(points).toHaveLength(1)
+    expect(points[0].payload).toMatchObject({
+      threadId: "a",
+      answer: "Use the new reset page.",
+      sourceThreadIds: ["b", "a"],
+      distinctFrom: ["other-point"],
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+
+import { parseReply } from "@/lib/reply-parser"
+
+function readFixture(name: string) {
+  return readFileSync(
+    path.join(__dirname, "fixtures", "replies", `${name}.txt`),
+    "utf8"
+  )
+}
+
+describe("parseReply", () => {
+  it("strips a Gmail quote and a sign-off signature", () => {
+    const parsed = parseReply(readFixture("gmail-reply"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "Hi Maria,",
+        "",
+        "Yes, the Pro plan includes priority support. You can upgrade from the",
+        "billing page at any time and the difference is prorated.",
+      ].join("\n")
+    )
+    expect(parsed.signature).toBe(
+      "Best regards,\nTom Becker\nCustomer Success | Acme Inc.\n+1 555 0100"
+    )
+    expect(parsed.quoted).toMatch(/^On Tue, Mar 5, 2024 .* wrote:\n/)
+    expect(parsed.quoted).toContain("> Does the Pro plan include")
+  })
+
+  it("recognizes a quote header wrapped over two lines", () => {
+    const parsed = parseReply(readFixture("gmail-wrapped-header"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "The export finishes within a few minutes for most accounts. If it takes",
+        "longer than an hour, reply here and we'll look into it.",
+      ].join("\n")
+    )
+    expect(parsed.quoted).toMatch(/^On Wed, Jan 17, 2024/)
+  })
+
+  it("strips an Outlook header block without a separator", () => {
+    const parsed = parseReply(readFixture("outlook-reply"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "Hi Sam,",
+        "",
+        "Invoices are emailed to the billing contact on the first business day of",
+        "each month. You can change that contact under Settings > Billing.",
+      ].join("\n")
+    )
+    expect(parsed.signature).toBe("Kind regards\nPriya")
+    expect(parsed.quoted).toMatch(/^From: Sam Carter/)
+  })
+
+  it("strips an Outlook original message separator", () => {
+    const parsed = parseReply(readFixture("outlook-separator"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "We support SAML single sign-on with Okta, Azure AD and Google Workspace on",
+        "the Enterprise plan.",
+      ].join("\n")
+    )
+    expect(parsed.quoted).toMatch(/^-----Original Message-----/)
+  })
+
+  it("strips a mobile signature and an Apple Mail quote", () => {
+    const parsed = parseReply(readFixture("apple-mail-mobile"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "Done, I've reset the two-factor setup on your account. You'll be asked to",
+        "enroll a new device at your next sign-in.",
+      ].join("\n")
+    )
+    expect(parsed.signature).toBe("Sent from my iPhone")
+    expect(parsed.quoted).toMatch(/^> On Mar 20, 2024/)
+  })
+
+  it("strips a localized Gmail quote header", () => {
+    const parsed = parseReply(readFixture("german-gmail"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "Hallo Jan,",
+        "",
+        "die Kündigung ist jederzeit zum Monatsende möglich.",
+        "",
+        "Viele Grüße",
+        "Petra",
+      ].join("\n")
+    )
+    expect(parsed.quoted).toMatch(/^Am Mo\., 8\. Apr\. 2024 .* schrieb/)
+  })
+
+  it("keeps the sender's answers of an inline reply", () => {
+    const parsed = parseReply(readFixture("inline-reply"))
+
+    expect(parsed.newContent).toBe(
+      [
+        "Answers inline below.",
+        "",
+        "Yes, seats can be added at any time from the admin console.",
+        "",
+        "We offer 30% off for registered nonprofits; send us your registration.",
+      ].join("\n")
+    )
+    expect(parsed.quoted).toBe(
+      [
+        "> 1. Can we add more seats later?",
+        "> 2. Is there a discount for nonprofits?",
+      ].join("\n")
+    )
+  })
+
+  it("separates a legal footer from the signature", () => {
+    const parsed = parseReply(readFixture("disclaimer-footer"))
+
+    expect(parsed.newContent).toBe(
+      "Your refund was issued today and should appear within 5-10 business days."
+    )
+    expect(parsed.signature).toBe("Regards,\nAccounts Team")
+    expect(parsed.footer).toMatch(/^CONFIDENTIALITY NOTICE:/)
+  })
+
+  it("strips a signature after the -- delimiter", () => {
+    const parsed = parseReply(readFixture("signature-delimiter"))
+
+    expect(parsed.newContent).toBe(
+      "Webhooks are retried up to 5 times with exponential backoff over 24 hours."
+    )
+    expect(parsed.signature).toMatch(/^--\s*\nDana Smith/)
+  })
+
+  it("handles CRLF line endings", () => {
+    const parsed = parseReply(readFixture("crlf-reply"))
+
+    expect(parsed.newContent).toBe(
+      "Hi,\n\nWe ship to Canada and Mexico as well."
+    )
+    expect(parsed.quoted).toContain("> Do you ship outside the US?")
+  })
+
+  it("keeps a reply that is only a sign-off without the quoted history", () => {
+    const parsed = parseReply(readFixture("thanks-only"))
+
+    expect(parsed.newContent).toBe("Thanks,\nAnna")
+    expect(parsed.newContent).not.toContain("API key")
+  })
+
+  it("keeps a short reply that starts with a sign-off word", () => {
+    const parsed = parseReply(
+      "Thanks,\nthat fixed it.\n\nOn Fri, May 10, 2024 at 2:03 PM Acme <a@acme.example> wrote:\n> Try clearing the cache."
+    )
+
+    expect(parsed.newContent).toBe("Thanks,\nthat fixed it.")
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+
+import { readJsonObject } from "@/lib/request-body"
+
+function jsonRequest(body: string) {
+  return new Request("http://localhost/api/ask", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+  })
+}
+
+describe("readJsonObject", () => {
+  it("returns a parsed object", async () => {
+    await expect(
+      readJsonObject(jsonRequest('{"question":"Refund policy?"}'))
+    ).resolves.toEqual({ question: "Refund policy?" })
+  })
+
+  it.each(["null", "[]", '"text"', "42", "{not json", ""])(
+    "returns null for %j",
+    async (body) => {
+      await expect(readJsonObject(jsonRequest(body))).resolves.toBeNull()
+    }
+  )
+})
@@ -0,0 +1,210 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  GOOGLE_OAUTH_SESSION_COOKIE,
+  fetchGmailAccountProfile,
+  isReconnectRequiredError,
+  type GoogleOAuthSessionPayload,
+} from "@/lib/google-auth"
+import {
+  addSessionAccount,
+  createFileSessionStore,
+  createSession,
+  createSessionAuth,
+  getSessionFromCookieValue,
+  saveSession,
+  setSessionStore,
+  type EncryptedSessionRecord,
+} from "@/lib/session"
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token"
+const PROFILE_URL = "https://gmail.googleapis.com/gmail/v1/users/me/profile"
+
+let tempDir: string
+
+beforeEach(async () => {
+  process.env.SESSION_SECRET = "test-session-secret-with-enough-entropy"
+  process.env.GOOGLE_CLIENT_ID = "client-id"
+  process.env.GOOGLE_CLIENT_SECRET = "client-secret"
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "inboxer-session-"))
+  setSessionStore(createFileSessionStore(path.join(tempDir, "sessions.json")))
+})
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true })
+})
+
+function buildPayload(
+  tokens: GoogleOAuthSessionPayload["tokens"]
+): GoogleOAuthSessionPayload {
+  return {
+    tokens,
+    profile: { email: "support@example.com", name: "Support" },
+    gmail: {
+      emailAddress: "support@example.com",
+      messagesTotal: 0,
+      threadsTotal: 0,
+    },
+  } as GoogleOAuthSessionPayload
+}
+
+const google = vi.hoisted(() => ({
+  tokenResponse: { status: 200, body: {} as unknown },
+  requests: [] as Array<{ url: string; authorization: string | null }>,
+}))
+
+/**
+ * Serves Google's token endpoint and the Gmail profile call. gaxios uses
+ * `window.fetch` when a window is present and keeps the first one it sees,
+ * so a single stub answers from `google.tokenResponse`.
+ */
+vi.stubGlobal("window", {
+  fetch: async (url: string | URL, init?: RequestInit) => {
+    google.requests.push({
+      url: String(url),
+      authorization: new Headers(init?.headers).get("authorization"),
+    })
+
+    if (String(url).startsWith(TOKEN_URL)) {
+      return new Response(JSON.stringify(google.tokenResponse.body), {
+        status: google.tokenResponse.status,
+        headers: { "content-type": "application/json" },
+      })
+    }
+    if (String(url).startsWith(PROFILE_URL)) {
+      return new Response(
+        JSON.stringify({ emailAddress: "support@example.com", historyId: "7" }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      )
+    }
+    return new Response("Not found", { status: 404 })
+  },
+})
+
+function stubGoogle(tokenResponse: { status: number; body: unknown }) {
+  google.tokenResponse = tokenResponse
+  google.requests = []
+  return google.requests
+}
+
+describe("token refresh", () => {
+  it("refreshes an expired access token and persists it", async () => {
+    const requests = stubGoogle({
+      status: 200,
+      body: {
+        access_token: "fresh-token",
+        expires_in: 3600,
+        token_type: "Bearer",
+      },
+    })
+    const cookie = await createSession(
+      buildPayload({
+        access_token: "expired-token",
+        refresh_token: "refresh-token",
+        expiry_date: Date.now() - 60_000,
+      })
+    )
+    const session = await getSessionFromCookieValue(cookie)
+
+    const profile = await fetchGmailAccountProfile(createSessionAuth(session!))
+
+    expect(profile.emailAddress).toBe("support@example.com")
+    expect(requests.map((request) => request.url)).toEqual([
+      TOKEN_URL,
+      expect.stringContaining(PROFILE_URL),
+    ])
+    expect(requests[1].authorization).toBe("Bearer fresh-token")
+
+    await vi.waitFor(async () => {
+      const reloaded = await getSessionFromCookieValue(cookie)
+      expect(reloaded?.tokens).toMatchObject({
+        access_token: "fresh-token",
+        refresh_token: "refresh-token",
+      })
+    })
+  })
+
+  it("reports a revoked refresh token as needing a reconnect", async () => {
+    stubGoogle({
+      status: 400,
+      body: { error: "invalid_grant", error_description: "Token revoked" },
+    })
+    const cookie = await createSession(
+      buildPayload({
+        access_token: "expired-token",
+        refresh_token: "revoked-token",
+        expiry_date: Date.now() - 60_000,
+      })
+    )
+    const session = await getSessionFromCookieValue(cookie)
+
+    const error = await fetchGmailAccountProfile(
+      createSessionAuth(session!)
+    ).catch((error) => error)
+
+    expect(isReconnectRequiredError(error)).toBe(true)
+    const reloaded = await getSessionFromCookieValue(cookie)
+    expect(reloaded?.tokens.access_token).toBe("expired-token")
+  })
+})
+
+describe("saveSession", () => {
+  it("keeps concurrent updates of different accounts", async () => {
+    const cookie = await createSession(buildPayload({ access_token: "a1" }))
+    const sales = buildPayload({ access_token: "b1" })
+    sales.gmail.emailAddress = "sales@example.com"
+    await addSessionAccount(
+      new NextRequest("http://localhost/", {
+        headers: { cookie: `${GOOGLE_OAUTH_SESSION_COOKIE}=${cookie}` },
+      }),
+      sales
+    )
+
+    const support = await getSessionFromCookieValue(
+      cookie,
+      "support@example.com"
+    )
+    const salesSession = await getSessionFromCookieValue(
+      cookie,
+      "sales@example.com"
+    )
+    support!.tokens = { access_token: "a2" }
+    salesSession!.tokens = { access_token: "b2" }
+    await Promise.all([saveSession(support!), saveSession(salesSession!)])
+
+    const reloaded = await Promise.all(
+      ["support@example.com", "sales@example.com"].map((mailbox) =>
+        getSessionFromCookieValue(cookie, mailbox)
+      )
+    )
+    expect(reloaded.map((session) => session?.tokens.access_token)).toEqual([
+      "a2",
+      "b2",
+    ])
+  })
+})
+
+describe("createFileSessionStore", () => {
+  it("keeps every record when writes overlap", async () => {
+    const store = createFileSessionStore(path.join(tempDir, "store.json"))
+    const record: EncryptedSessionRecord = {
+      iv: "iv",
+      tag: "tag",
+      data: "data",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    }
+    const ids = Array.from({ length: 20 }, (_, index) => `session-${index}`)
+
+    await Promise.all(ids.map((id) => store.write(id, record)))
+    await Promise.all(ids.slice(0, 5).map((id) => store.remove(id)))
+
+    const stored = await Promise.all(ids.map((id) => store.read(id)))
+    expect(stored.map(Boolean)).toEqual(ids.map((_, index) => index >= 5))
+  })
+})
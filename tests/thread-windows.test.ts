@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  estimateTokens,
+  planThreadWindows,
+  truncateToTokens,
+} from "@/lib/thread-windows"
+
+describe("planThreadWindows", () => {
+  it("keeps a thread that fits the budget in one window", () => {
+    expect(planThreadWindows([100, 200, 300], 1000, 2)).toEqual([
+      { start: 0, end: 3, estimatedTokens: 600 },
+    ])
+  })
+
+  it("overlaps neighbouring windows by the given number of messages", () => {
+    expect(planThreadWindows([400, 400, 400, 400, 400], 1200, 1)).toEqual([
+      { start: 0, end: 3, estimatedTokens: 1200 },
+      { start: 2, end: 5, estimatedTokens: 1200 },
+    ])
+  })
+
+  it("moves forward when the overlap would fill a whole window", () => {
+    expect(planThreadWindows([500, 500, 500, 500], 1000, 2)).toEqual([
+      { start: 0, end: 2, estimatedTokens: 1000 },
+      { start: 1, end: 3, estimatedTokens: 1000 },
+      { start: 2, end: 4, estimatedTokens: 1000 },
+    ])
+  })
+
+  it("gives a message larger than the budget a window of its own", () => {
+    expect(planThreadWindows([100, 5000, 100], 1000, 1)).toEqual([
+      { start: 0, end: 1, estimatedTokens: 100 },
+      { start: 1, end: 2, estimatedTokens: 5000 },
+      { start: 2, end: 3, estimatedTokens: 100 },
+    ])
+  })
+
+  it("plans no windows for an empty thread", () => {
+    expect(planThreadWindows([], 1000, 2)).toEqual([])
+  })
+})
+
+describe("truncateToTokens", () => {
+  it("cuts text past the limit and marks it", () => {
+    expect(truncateToTokens("a".repeat(10), 2)).toEqual({
+      text: "aaaaaaaa\n[…truncated]",
+      truncated: true,
+    })
+    expect(truncateToTokens("short", 2)).toEqual({
+      text: "short",
+      truncated: false,
+    })
+    expect(estimateTokens("a".repeat(9))).toBe(3)
+  })
+})